@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Model, Types } from 'mongoose';
+import Account, { IAccount } from '../models/Account';
+import AccountMigrationIssue, { IAccountMigrationIssue, MigratedRole } from '../models/AccountMigrationIssue';
+import Driver from '../models/Driver';
+import User from '../models/Router';
+import { normalizeEmailAddress } from '../utils/account';
+import { sendMessage } from '../utils/messaging';
+
+interface LegacyProfile {
+    _id: Types.ObjectId;
+    fullName: string;
+    email: string;
+    phoneNumber: string;
+    password?: string;
+    phoneVerified?: boolean;
+    phoneVerifiedAt?: Date;
+}
+
+const notify = async (email: string, subject: string, body: string): Promise<void> => {
+    try {
+        await sendMessage({ channel: 'email', to: email, subject, body });
+    } catch (error) {
+        console.error(`Account migration: could not notify ${email}:`, error);
+    }
+};
+
+// The old password no longer opens the account, so the person has to choose a new one through password reset.
+const requirePasswordReset = async (account: IAccount): Promise<void> => {
+    account.passwordResetRequired = true;
+    await notify(
+        account.email,
+        'إعادة تعيين كلمة المرور مطلوبة',
+        'تم دمج حساباتك في حساب واحد. يرجى تعيين كلمة مرور جديدة عبر خيار "نسيت كلمة المرور" قبل تسجيل الدخول.'
+    );
+};
+
+// Queues the profile for an admin; the person is told once, when the conflict is first found.
+const queueConflict = async (role: MigratedRole, profile: LegacyProfile, accounts: IAccount[]): Promise<void> => {
+    const result = await AccountMigrationIssue.updateOne(
+        { role, profile_id: profile._id },
+        {
+            $set: { conflicting_account_ids: accounts.map((account) => account._id) },
+            $setOnInsert: { email: profile.email, phoneNumber: profile.phoneNumber },
+        },
+        { upsert: true }
+    );
+    if (result.upsertedCount) {
+        await notify(
+            profile.email,
+            'حسابك بحاجة إلى مراجعة',
+            'تعذر ربط حسابك تلقائيًا لأن بريدك الإلكتروني أو رقم هاتفك مستخدم في حساب آخر. سيتواصل معك فريق الدعم لاستعادة الوصول.'
+        );
+    }
+};
+
+const profileModel = (role: MigratedRole): Model<any> => (role === 'router' ? User : Driver);
+
+const attachProfile = async (role: MigratedRole, profileId: Types.ObjectId, account: IAccount): Promise<void> => {
+    account[role === 'router' ? 'router_id' : 'driver_id'] = profileId;
+    await account.save();
+
+    await profileModel(role).collection.updateOne(
+        { _id: profileId },
+        {
+            $set: { account_id: account._id, email: account.email, phoneNumber: account.phoneNumber },
+            $unset: { password: '', phoneVerified: '', phoneVerifiedAt: '' },
+        }
+    );
+};
+
+/**
+ * Settles a queued profile: links it to the account an admin picked, or just closes the issue when
+ * no account is given. A linked account must set a new password before the next login.
+ */
+export const resolveMigrationIssue = async (issue: IAccountMigrationIssue, account?: IAccount): Promise<void> => {
+    if (account) {
+        await requirePasswordReset(account);
+        await attachProfile(issue.role, issue.profile_id, account);
+    }
+    issue.resolvedAt = new Date();
+    await issue.save();
+};
+
+const migrateProfiles = async (role: MigratedRole, model: Model<any>): Promise<number> => {
+    const profileField = role === 'router' ? 'router_id' : 'driver_id';
+    // Read through the driver so fields that left the schema (password, phone verification) are still visible.
+    const legacyProfiles = await model.collection
+        .find<LegacyProfile>({ account_id: { $exists: false } })
+        .toArray();
+
+    let migrated = 0;
+    for (const profile of legacyProfiles) {
+        const email = normalizeEmailAddress(profile.email);
+        const matches = await Account.find({
+            $or: [{ email }, { phoneNumber: profile.phoneNumber }],
+        });
+
+        let account = matches[0];
+        if (matches.length > 1 || (account && (account[profileField] || account.email !== email))) {
+            console.error(`Account migration: ${role} ${profile._id} conflicts with an existing account, queued for review`);
+            await queueConflict(role, profile, matches);
+            continue;
+        }
+
+        if (!account) {
+            // Without a password the account is still created, and reset by email is the way in.
+            account = await Account.create({
+                fullName: profile.fullName,
+                email,
+                password: profile.password ?? await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12),
+                phoneNumber: profile.phoneNumber,
+                phoneVerified: !!profile.phoneVerified,
+                phoneVerifiedAt: profile.phoneVerifiedAt,
+                last_role: role,
+            });
+            if (!profile.password) {
+                console.warn(`Account migration: ${role} ${profile._id} had no password, reset required`);
+                await requirePasswordReset(account);
+            }
+        } else if (profile.password && profile.password !== account.password) {
+            // The person had two separate logins and only one password can stay, so neither is trusted.
+            console.warn(`Account migration: ${role} ${profile._id} joined account ${account._id} with a different password, reset required`);
+            await requirePasswordReset(account);
+        }
+
+        await attachProfile(role, profile._id, account);
+        migrated++;
+    }
+
+    return migrated;
+};
+
+// Links router and driver profiles created before shared accounts existed to an account.
+const migrateLegacyAccounts = async (): Promise<void> => {
+    try {
+        const routers = await migrateProfiles('router', User);
+        const drivers = await migrateProfiles('driver', Driver);
+        if (routers || drivers) {
+            console.log(`Account migration: linked ${routers} routers and ${drivers} drivers`);
+        }
+
+        const unresolved = await AccountMigrationIssue.countDocuments({ resolvedAt: { $exists: false } });
+        if (unresolved) {
+            console.error(`Account migration: ${unresolved} profiles could not be linked and cannot log in; see /api/admin/account-migration-issues`);
+        }
+    } catch (error) {
+        console.error('Account migration error:', error);
+    }
+};
+
+export default migrateLegacyAccounts;
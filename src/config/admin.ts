@@ -0,0 +1,30 @@
+import bcrypt from 'bcryptjs';
+import Admin from '../models/Admin';
+import { normalizeEmailAddress } from '../utils/account';
+
+// Creates the bootstrap admin from ADMIN_EMAIL / ADMIN_PASSWORD when it does not exist yet.
+const seedAdmin = async (): Promise<void> => {
+    const email = process.env.ADMIN_EMAIL && normalizeEmailAddress(process.env.ADMIN_EMAIL);
+    const password = process.env.ADMIN_PASSWORD;
+    if (!email || !password) {
+        return;
+    }
+
+    try {
+        const existingAdmin = await Admin.findOne({ email });
+        if (existingAdmin) {
+            return;
+        }
+
+        await Admin.create({
+            fullName: process.env.ADMIN_NAME || 'Administrator',
+            email,
+            password: await bcrypt.hash(password, 12),
+        });
+        console.log(`Admin account created for ${email}`);
+    } catch (error) {
+        console.error('Admin seed error:', error);
+    }
+};
+
+export default seedAdmin;
@@ -0,0 +1,49 @@
+import Driver, { DRIVER_DOCUMENT_TYPES, IDriverDocument } from '../models/Driver';
+import { makeDocumentPrivate } from '../utils/cloudinary';
+
+/**
+ * Drivers who signed up before document verification existed keep bidding: they are approved
+ * once rather than being locked out until an admin reviews them. Documents uploaded while they
+ * were still public are moved behind authentication.
+ */
+const migrateDriverVerification = async (): Promise<void> => {
+    try {
+        const approved = await Driver.collection.updateMany(
+            { verificationStatus: { $exists: false } },
+            { $set: { verificationStatus: 'approved', verificationReviewedAt: new Date() } }
+        );
+        if (approved.modifiedCount) {
+            console.log(`Driver verification migration: approved ${approved.modifiedCount} existing drivers`);
+        }
+
+        const publicDocuments = DRIVER_DOCUMENT_TYPES.map((type) => ({
+            [`documents.${type}.publicId`]: { $exists: true },
+            [`documents.${type}.deliveryType`]: { $exists: false },
+        }));
+        const drivers = await Driver.find({ $or: publicDocuments }).select('documents');
+
+        let moved = 0;
+        for (const driver of drivers) {
+            for (const type of DRIVER_DOCUMENT_TYPES) {
+                const document = driver.documents?.[type];
+                if (!document || document.deliveryType) continue;
+
+                try {
+                    const stored = await makeDocumentPrivate(document);
+                    const update: IDriverDocument = { ...stored, uploadedAt: document.uploadedAt };
+                    await Driver.updateOne({ _id: driver._id }, { $set: { [`documents.${type}`]: update } });
+                    moved++;
+                } catch (error) {
+                    console.error(`Driver verification migration: ${type} of driver ${driver._id} is still public:`, error);
+                }
+            }
+        }
+        if (moved) {
+            console.log(`Driver verification migration: made ${moved} documents private`);
+        }
+    } catch (error) {
+        console.error('Driver verification migration error:', error);
+    }
+};
+
+export default migrateDriverVerification;
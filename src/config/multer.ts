@@ -18,4 +18,20 @@ const upload = multer({
   },
 });
 
+const documentFileFilter = (req: any, file: any, cb: any) => {
+  if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
+    cb(null, true);
+  } else {
+    cb(new Error('Only image or PDF files are allowed!'), false);
+  }
+};
+
+export const documentUpload = multer({
+  storage,
+  fileFilter: documentFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
 export default upload;
\ No newline at end of file
@@ -0,0 +1,22 @@
+import Order from '../models/Order';
+
+// Orders used to finish as 'Ended'; that status no longer exists, and those orders now count as completed.
+const migrateOrderStatuses = async (): Promise<void> => {
+    try {
+        const result = await Order.updateMany(
+            { status: 'Ended' },
+            {
+                $set: { status: 'Completed' },
+                $push: { status_history: { status: 'Completed', changed_by_role: 'system', note: 'Ended', changedAt: new Date() } },
+            }
+        );
+
+        if (result.modifiedCount) {
+            console.log(`Order status migration: moved ${result.modifiedCount} ended orders to Completed`);
+        }
+    } catch (error) {
+        console.error('Order status migration error:', error);
+    }
+};
+
+export default migrateOrderStatuses;
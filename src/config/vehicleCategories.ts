@@ -0,0 +1,20 @@
+import Vehicle from '../models/Vehicle';
+import VehicleCategory from '../models/VehicleCategory';
+
+// Vehicle types used to carry a bare category name; give each of those names a top-level category.
+const migrateVehicleCategories = async (): Promise<void> => {
+    try {
+        const names: string[] = await Vehicle.distinct('category');
+        const existing = new Set<string>(await VehicleCategory.distinct('name'));
+        const missing = names.filter((name) => name && !existing.has(name));
+
+        if (missing.length) {
+            await VehicleCategory.insertMany(missing.map((name) => ({ name })));
+            console.log(`Vehicle category migration: created ${missing.length} categories`);
+        }
+    } catch (error) {
+        console.error('Vehicle category migration error:', error);
+    }
+};
+
+export default migrateVehicleCategories;
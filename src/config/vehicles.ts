@@ -0,0 +1,60 @@
+import { Types } from 'mongoose';
+import Driver from '../models/Driver';
+import DriverVehicle from '../models/DriverVehicle';
+
+interface LegacyDriverVehicle {
+    _id: Types.ObjectId;
+    vehicleNumber: string;
+    vehicleType?: Types.ObjectId;
+}
+
+// Moves the single vehicle stored on driver profiles into the driver vehicles collection.
+const migrateDriverVehicles = async (): Promise<void> => {
+    try {
+        const legacyDrivers = await Driver.collection
+            .find<LegacyDriverVehicle>({ vehicleNumber: { $exists: true } })
+            .project<LegacyDriverVehicle>({ vehicleNumber: 1, vehicleType: 1 })
+            .toArray();
+
+        let migrated = 0;
+        for (const driver of legacyDrivers) {
+            if (!driver.vehicleType) {
+                console.error(`Vehicle migration: driver ${driver._id} has no vehicle type, skipped`);
+                continue;
+            }
+
+            const existing = await DriverVehicle.findOne({ plateNumber: driver.vehicleNumber });
+            if (existing && existing.driver_id?.toString() !== driver._id.toString()) {
+                console.error(`Vehicle migration: plate ${driver.vehicleNumber} of driver ${driver._id} is already registered, skipped`);
+                continue;
+            }
+
+            if (!existing) {
+                await DriverVehicle.create({
+                    driver_id: driver._id,
+                    plateNumber: driver.vehicleNumber,
+                    vehicleType: driver.vehicleType,
+                });
+            }
+
+            await Driver.collection.updateOne(
+                { _id: driver._id },
+                { $unset: { vehicleNumber: '', vehicleType: '' } }
+            );
+            migrated++;
+        }
+
+        // The old unique index would treat every driver without a plate as a duplicate.
+        if (await Driver.collection.indexExists('vehicleNumber_1')) {
+            await Driver.collection.dropIndex('vehicleNumber_1');
+        }
+
+        if (migrated) {
+            console.log(`Vehicle migration: moved ${migrated} driver vehicles`);
+        }
+    } catch (error) {
+        console.error('Vehicle migration error:', error);
+    }
+};
+
+export default migrateDriverVehicles;
@@ -0,0 +1,623 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { body, query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Account from '../models/Account';
+import AccountMigrationIssue from '../models/AccountMigrationIssue';
+import Admin from '../models/Admin';
+import Driver, { DRIVER_DOCUMENT_TYPES, IDriver } from '../models/Driver';
+import DriverVehicle from '../models/DriverVehicle';
+import Notification from '../models/Notification';
+import Offer from '../models/Offer';
+import Order, { ORDER_STATUSES } from '../models/Order';
+import User from '../models/Router';
+import { issueSession, revokeAllSessions } from '../utils/session';
+import { signedDocumentUrl } from '../utils/cloudinary';
+import { closeRoomSockets } from '../middleware/socketAuth';
+import { resolveMigrationIssue } from '../config/accounts';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+    io?: SocketIOServer;
+}
+
+interface AdminLoginData {
+    email: string;
+    password: string;
+}
+
+interface AdminCreateData extends AdminLoginData {
+    fullName: string;
+}
+
+export const validateAdminLogin = [
+    body('email').trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+    body('password').notEmpty().withMessage('كلمة المرور مطلوبة'),
+];
+
+export const validateAdminCreate = [
+    body('fullName').trim().notEmpty().withMessage('الاسم الكامل مطلوب'),
+    body('email').trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+    body('password')
+        .isLength({ min: 6 })
+        .withMessage('يجب أن تكون كلمة المرور 6 أحرف على الأقل'),
+];
+
+export const validateAccountSearch = [
+    query('search').optional().isString().withMessage('قيمة البحث غير صالحة'),
+    query('suspended').optional().isBoolean().withMessage('قيمة الإيقاف غير صالحة'),
+    query('page').optional().isInt({ min: 1 }).withMessage('رقم الصفحة غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('يجب أن يكون الحد بين 1 و 100'),
+];
+
+export const validateSuspension = [
+    body('reason').optional().trim().isLength({ max: 500 }).withMessage('يجب ألا يتجاوز السبب 500 حرف'),
+];
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildAccountFilter = (req: Request) => {
+    const { suspended } = req.query as Record<string, string | undefined>;
+    const search = (req.query.search as string | undefined)?.trim();
+    const filter: any = {};
+
+    if (search) {
+        const pattern = new RegExp(escapeRegex(search), 'i');
+        filter.$or = [{ fullName: pattern }, { email: pattern }, { phoneNumber: pattern }];
+    }
+    if (suspended !== undefined) {
+        filter.isSuspended = suspended === 'true';
+    }
+
+    return filter;
+};
+
+const withVehicles = async (drivers: IDriver[]) => {
+    const vehicles = await DriverVehicle.find({ driver_id: { $in: drivers.map((driver) => driver._id) } })
+        .populate('vehicleType');
+    return drivers.map((driver) => ({
+        ...driver.toObject(),
+        vehicles: vehicles.filter((vehicle) => vehicle.driver_id?.toString() === driver._id.toString()),
+    }));
+};
+
+// Documents are private; reviewers get links that expire shortly after the list is loaded.
+const signDocuments = (documents: IDriver['documents'] | undefined) =>
+    Object.fromEntries(DRIVER_DOCUMENT_TYPES
+        .filter((type) => documents?.[type])
+        .map((type) => {
+            const document = documents![type]!;
+            return [type, { url: signedDocumentUrl(document), uploadedAt: document.uploadedAt }];
+        }));
+
+const getPagination = (req: Request) => {
+    const { page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+    return { page: Number(page), limit: Number(limit) };
+};
+
+export const adminLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { email, password }: AdminLoginData = req.body;
+
+        const admin = await Admin.findOne({ email });
+        if (!admin || !(await bcrypt.compare(password, admin.password))) {
+            res.status(401).json({ message: 'بيانات الاعتماد غير صالحة' });
+            return;
+        }
+
+        if (!admin.isActive) {
+            res.status(403).json({ message: 'تم تعطيل حساب المسؤول' });
+            return;
+        }
+
+        admin.lastLoginAt = new Date();
+        await admin.save();
+
+        const { token, refreshToken, refreshTokenExpiresAt } = await issueSession({
+            id: admin._id.toString(),
+            role: 'admin',
+            fullName: admin.fullName
+        }, req);
+
+        res.json({
+            message: 'تسجيل الدخول ناجح',
+            token,
+            refreshToken,
+            refreshTokenExpiresAt,
+            user: {
+                id: admin._id,
+                fullName: admin.fullName,
+                email: admin.email,
+                role: 'admin'
+            }
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ أثناء تسجيل الدخول',
+            error: error.message
+        });
+    }
+};
+
+export const createAdmin = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { fullName, email, password }: AdminCreateData = req.body;
+
+        const existingAdmin = await Admin.findOne({ email });
+        if (existingAdmin) {
+            res.status(400).json({ message: 'يوجد مسؤول بهذا البريد الإلكتروني بالفعل' });
+            return;
+        }
+
+        const admin = await Admin.create({
+            fullName,
+            email,
+            password: await bcrypt.hash(password, 12),
+        });
+
+        res.status(201).json({
+            message: 'تم إنشاء المسؤول بنجاح',
+            admin: {
+                id: admin._id,
+                fullName: admin.fullName,
+                email: admin.email,
+                role: 'admin'
+            }
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إنشاء المسؤول',
+            error: error.message
+        });
+    }
+};
+
+export const listUsers = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const filter = buildAccountFilter(req);
+        const { page, limit } = getPagination(req);
+
+        const users = await User.find(filter)
+            .select('-password')
+            .sort({ createdAt: -1 })
+            .limit(limit)
+            .skip((page - 1) * limit);
+        const total = await User.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع المستخدمين بنجاح',
+            users,
+            total,
+            totalPages: Math.ceil(total / limit),
+            currentPage: page,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع المستخدمين',
+            error: error.message
+        });
+    }
+};
+
+export const listDrivers = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const filter = buildAccountFilter(req);
+        const search = (req.query.search as string | undefined)?.trim();
+        if (search) {
+            const driverIds = await DriverVehicle.find({ plateNumber: new RegExp(escapeRegex(search), 'i') })
+                .distinct('driver_id');
+            filter.$or.push({ _id: { $in: driverIds } });
+        }
+        const { page, limit } = getPagination(req);
+
+        const drivers = await Driver.find(filter)
+            .select('-password -documents')
+            .sort({ createdAt: -1 })
+            .limit(limit)
+            .skip((page - 1) * limit);
+        const total = await Driver.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع السائقين بنجاح',
+            drivers: await withVehicles(drivers),
+            total,
+            totalPages: Math.ceil(total / limit),
+            currentPage: page,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع السائقين',
+            error: error.message
+        });
+    }
+};
+
+const setSuspension = (target: 'router' | 'driver', suspend: boolean) =>
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const accountId = req.params.id;
+            if (!mongoose.Types.ObjectId.isValid(accountId)) {
+                res.status(400).json({ message: 'المعرف غير صالح' });
+                return;
+            }
+
+            const update = suspend
+                ? { isSuspended: true, suspendedAt: new Date(), suspensionReason: req.body?.reason }
+                : { isSuspended: false, $unset: { suspendedAt: 1, suspensionReason: 1 } };
+
+            const account = target === 'driver'
+                ? await Driver.findByIdAndUpdate(accountId, update, { new: true }).select('-password')
+                : await User.findByIdAndUpdate(accountId, update, { new: true }).select('-password');
+
+            if (!account) {
+                res.status(404).json({ message: target === 'driver' ? 'السائق غير موجود' : 'المستخدم غير موجود' });
+                return;
+            }
+
+            if (suspend) {
+                await revokeAllSessions(account._id, target, 'account_suspended');
+            }
+
+            if (req.io && suspend) {
+                const room = target === 'driver' ? `driver-${accountId}` : `user-${accountId}`;
+                closeRoomSockets(req.io, room, 'account-suspended', {
+                    message: 'تم إيقاف حسابك، يرجى التواصل مع الدعم',
+                    reason: account.suspensionReason,
+                });
+            }
+
+            res.json({
+                message: suspend ? 'تم إيقاف الحساب بنجاح' : 'تم إلغاء إيقاف الحساب بنجاح',
+                [target === 'driver' ? 'driver' : 'user']: account,
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                message: 'خطأ في تحديث حالة الحساب',
+                error: error.message
+            });
+        }
+    };
+
+export const suspendUser = setSuspension('router', true);
+export const unsuspendUser = setSuspension('router', false);
+export const suspendDriver = setSuspension('driver', true);
+export const unsuspendDriver = setSuspension('driver', false);
+
+export const getPlatformStats = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+        const [users, drivers, suspendedUsers, suspendedDrivers, newUsers, newDrivers] = await Promise.all([
+            User.countDocuments(),
+            Driver.countDocuments(),
+            User.countDocuments({ isSuspended: true }),
+            Driver.countDocuments({ isSuspended: true }),
+            User.countDocuments({ createdAt: { $gte: since } }),
+            Driver.countDocuments({ createdAt: { $gte: since } }),
+        ]);
+
+        const ordersByStatus = await Order.aggregate([
+            { $group: { _id: '$status', count: { $sum: 1 } } },
+        ]);
+        const offersByStatus = await Offer.aggregate([
+            { $group: { _id: '$status', count: { $sum: 1 } } },
+        ]);
+        const [acceptedValue] = await Offer.aggregate([
+            { $match: { status: 'Accepted' } },
+            { $group: { _id: null, total: { $sum: '$price' }, average: { $avg: '$price' } } },
+        ]);
+
+        const toCounts = (rows: { _id: string; count: number }[]) =>
+            rows.reduce<Record<string, number>>((counts, row) => {
+                counts[row._id] = row.count;
+                return counts;
+            }, {});
+
+        res.json({
+            message: 'تم استرجاع الإحصائيات بنجاح',
+            stats: {
+                users: { total: users, suspended: suspendedUsers, newLast7Days: newUsers },
+                drivers: { total: drivers, suspended: suspendedDrivers, newLast7Days: newDrivers },
+                orders: toCounts(ordersByStatus),
+                offers: toCounts(offersByStatus),
+                acceptedOffers: {
+                    totalValue: acceptedValue?.total ?? 0,
+                    averageValue: acceptedValue ? Math.round(acceptedValue.average * 100) / 100 : 0,
+                },
+            },
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الإحصائيات',
+            error: error.message
+        });
+    }
+};
+
+export const validateOrderSearch = [
+    query('status').optional().isIn(ORDER_STATUSES).withMessage('حالة الطلب غير صالحة'),
+    query('page').optional().isInt({ min: 1 }).withMessage('رقم الصفحة غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('يجب أن يكون الحد بين 1 و 100'),
+];
+
+export const listOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { status } = req.query as Record<string, string | undefined>;
+        const filter: any = status ? { status } : {};
+        const { page, limit } = getPagination(req);
+
+        const orders = await Order.find(filter)
+            .populate('vehicle_type')
+            .populate('customer_id', 'fullName email phoneNumber')
+            .populate('driver_id', 'fullName phoneNumber')
+            .sort({ createdAt: -1 })
+            .limit(limit)
+            .skip((page - 1) * limit);
+        const total = await Order.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع الطلبات بنجاح',
+            orders,
+            total,
+            totalPages: Math.ceil(total / limit),
+            currentPage: page,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الطلبات',
+            error: error.message
+        });
+    }
+};
+
+export const validateVerificationSearch = [
+    query('status').optional().isIn(['unverified', 'pending', 'approved', 'rejected']).withMessage('حالة التحقق غير صالحة'),
+    query('page').optional().isInt({ min: 1 }).withMessage('رقم الصفحة غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('يجب أن يكون الحد بين 1 و 100'),
+];
+
+export const validateVerificationReview = [
+    body('status').isIn(['approved', 'rejected']).withMessage('يجب أن تكون الحالة approved أو rejected'),
+    body('reason')
+        .if(body('status').equals('rejected'))
+        .trim()
+        .notEmpty()
+        .withMessage('سبب الرفض مطلوب')
+        .isLength({ max: 500 })
+        .withMessage('يجب ألا يتجاوز السبب 500 حرف'),
+];
+
+export const listDriverVerifications = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { status = 'pending' } = req.query as Record<string, string | undefined>;
+        const filter = { verificationStatus: status };
+        const { page, limit } = getPagination(req);
+
+        const drivers = await Driver.find(filter)
+            .select('fullName email phoneNumber photo documents verificationStatus verificationRejectionReason verificationSubmittedAt verificationReviewedAt')
+            .sort({ verificationSubmittedAt: 1 })
+            .limit(limit)
+            .skip((page - 1) * limit);
+        const total = await Driver.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع طلبات التحقق بنجاح',
+            drivers: (await withVehicles(drivers)).map((driver) => ({ ...driver, documents: signDocuments(driver.documents) })),
+            total,
+            totalPages: Math.ceil(total / limit),
+            currentPage: page,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع طلبات التحقق',
+            error: error.message
+        });
+    }
+};
+
+export const reviewDriverVerification = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const driverId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(driverId)) {
+            res.status(400).json({ message: 'معرف السائق غير صالح' });
+            return;
+        }
+
+        const { status, reason }: { status: 'approved' | 'rejected'; reason?: string } = req.body;
+
+        const driver = await Driver.findById(driverId);
+        if (!driver) {
+            res.status(404).json({ message: 'السائق غير موجود' });
+            return;
+        }
+
+        if (driver.verificationStatus !== 'pending') {
+            res.status(400).json({ message: 'لا توجد مستندات قيد المراجعة لهذا السائق' });
+            return;
+        }
+
+        driver.verificationStatus = status;
+        driver.verificationRejectionReason = status === 'rejected' ? reason : undefined;
+        driver.verificationReviewedAt = new Date();
+        driver.verificationReviewedBy = new mongoose.Types.ObjectId(req.user!.id);
+        await driver.save();
+
+        const title = status === 'approved' ? 'تم توثيق حسابك' : 'تم رفض مستندات التحقق';
+        const message = status === 'approved'
+            ? 'تمت الموافقة على مستنداتك ويمكنك الآن تقديم العروض'
+            : `تم رفض مستنداتك: ${reason}`;
+
+        await Notification.create({
+            driver_id: driver._id,
+            type: 'driver_verification',
+            title,
+            message,
+            is_read: false,
+            metadata: { status, reason },
+        });
+
+        if (req.io) {
+            req.io.to(`driver-${driver._id}`).emit('verification-updated', {
+                message,
+                verificationStatus: driver.verificationStatus,
+                reason: driver.verificationRejectionReason,
+            });
+            req.io.to(`driver-${driver._id}`).emit('new-notification', { title, message });
+        }
+
+        res.json({
+            message: 'تم تحديث حالة التحقق بنجاح',
+            driver: {
+                id: driver._id,
+                fullName: driver.fullName,
+                verificationStatus: driver.verificationStatus,
+                verificationRejectionReason: driver.verificationRejectionReason,
+                verificationReviewedAt: driver.verificationReviewedAt,
+            },
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في تحديث حالة التحقق',
+            error: error.message
+        });
+    }
+};
+
+export const validateMigrationIssueSearch = [
+    query('page').optional().isInt({ min: 1 }).withMessage('رقم الصفحة غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('يجب أن يكون الحد بين 1 و 100'),
+];
+
+export const validateMigrationIssueResolve = [
+    body('account_id').optional().isMongoId().withMessage('معرف الحساب غير صالح'),
+];
+
+export const listAccountMigrationIssues = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { page, limit } = getPagination(req);
+        const filter = { resolvedAt: { $exists: false } };
+
+        const issues = await AccountMigrationIssue.find(filter)
+            .populate('conflicting_account_ids', 'fullName email phoneNumber router_id driver_id')
+            .sort({ createdAt: 1 })
+            .limit(limit)
+            .skip((page - 1) * limit);
+        const total = await AccountMigrationIssue.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع الحسابات غير المرتبطة بنجاح',
+            issues,
+            total,
+            totalPages: Math.ceil(total / limit),
+            currentPage: page,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الحسابات غير المرتبطة',
+            error: error.message
+        });
+    }
+};
+
+export const resolveAccountMigrationIssue = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            res.status(400).json({ message: 'المعرف غير صالح' });
+            return;
+        }
+
+        const issue = await AccountMigrationIssue.findOne({ _id: req.params.id, resolvedAt: { $exists: false } });
+        if (!issue) {
+            res.status(404).json({ message: 'الحساب غير المرتبط غير موجود أو تمت معالجته' });
+            return;
+        }
+
+        const { account_id }: { account_id?: string } = req.body || {};
+        const account = account_id ? await Account.findById(account_id) : null;
+        if (account_id && !account) {
+            res.status(404).json({ message: 'الحساب غير موجود' });
+            return;
+        }
+        if (account && account[issue.role === 'router' ? 'router_id' : 'driver_id']) {
+            res.status(400).json({ message: 'الحساب مرتبط بملف من هذا الدور بالفعل' });
+            return;
+        }
+
+        await resolveMigrationIssue(issue, account ?? undefined);
+
+        res.json({
+            message: account ? 'تم ربط الملف بالحساب، ويجب على المستخدم تعيين كلمة مرور جديدة' : 'تم إغلاق الحساب غير المرتبط',
+            issue,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في معالجة الحساب غير المرتبط',
+            error: error.message
+        });
+    }
+};
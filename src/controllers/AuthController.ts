@@ -1,14 +1,37 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { body, validationResult } from 'express-validator';
-import Driver, { IDriver } from '../models/Driver';
+import Driver, { DRIVER_DOCUMENT_TYPES, DriverDocumentType, IDriver, IDriverDocument } from '../models/Driver';
 import Vehicle from '../models/Vehicle';
-import { generateToken } from '../utils/token';
-import { uploadToCloudinary, deleteFromCloudinary } from '../utils/cloudinary';
+import DriverVehicle, { IDriverVehicle } from '../models/DriverVehicle';
+import { issueSession, listActiveSessions, SessionSubject, revokeAllSessions, revokeSessionById, revokeSessionByToken, rotateSession } from '../utils/session';
+import { uploadToCloudinary, deleteFromCloudinary, deleteStoredDocument, DRIVER_DOCUMENTS_FOLDER } from '../utils/cloudinary';
 import User from '../models/Router';
 import mongoose from 'mongoose';
-import { VehicleType } from '../types';
+import { JwtPayload } from '../types';
+import { closeRoomSockets, personalRoom, sessionRoom } from '../middleware/socketAuth';
 import { Server as SocketIOServer } from 'socket.io';
+import Admin from '../models/Admin';
+import { ISession, SessionRole } from '../models/Session';
+import { isValidLngLat, toPoint } from '../utils/geo';
+import { issueVerificationCode, verifyCode } from '../utils/otp';
+import Account, { ACCOUNT_ROLES, AccountRole, IAccount } from '../models/Account';
+import Company from '../models/Company';
+import Dispatcher, { IDispatcher } from '../models/Dispatcher';
+import {
+    findAccountByContact,
+    findAccountByProfile,
+    getAccountRoles,
+    getProfileId,
+    isAccountRole,
+    isIdentityTaken,
+    linkProfile,
+    loadProfile,
+    resolveLoginRole,
+    revokeAccountSessions,
+    updateAccountIdentity
+} from '../utils/account';
+import { formatDriverVehicle, listVehicles, personalVehicleFilter } from '../utils/driverVehicle';
 
 interface UserSignupData {
     fullName: string;
@@ -28,15 +51,20 @@ interface UserUpdateData {
     phoneNumber?: string;
 }
 
-interface DriverUpdateData extends UserUpdateData {
-    vehicleNumber?: string;
-    vehicleTypeId?: string;
-}
-
 interface LoginData {
     email: string;
     password: string;
-    role: 'router' | 'driver';
+    role?: AccountRole;
+}
+
+interface CompanySignupData extends UserSignupData {
+    companyName: string;
+    companyPhoneNumber?: string;
+}
+
+interface DriverProfileData {
+    vehicleNumber: string;
+    vehicleTypeId: string;
 }
 
 interface ChangePasswordData {
@@ -49,39 +77,128 @@ interface AuthenticatedRequest extends Request {
         id: string;
         role: string;
         fullName: string;
+        sid?: string;
     };
     io?: SocketIOServer;
 }
 
 export const validateDriverSignup = [
     body('fullName').trim().notEmpty().withMessage('الاسم الكامل مطلوب'),
-    body('email').isEmail().normalizeEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+    body('email').trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+    body('password')
+        .isLength({ min: 6 })
+        .withMessage('يجب أن تكون كلمة المرور 6 أحرف على الأقل'),
+    body('phoneNumber')
+        .trim().notEmpty().withMessage('رقم الهاتف مطلوب'),
+    body('vehicleNumber').trim().notEmpty().withMessage('رقم المركبة مطلوب'),
+    body('vehicleTypeId').isMongoId().withMessage('معرف نوع المركبة غير صالح'),
+];
+
+export const validateCompanySignup = [
+    body('fullName').trim().notEmpty().withMessage('الاسم الكامل مطلوب'),
+    body('email').trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
     body('password')
         .isLength({ min: 6 })
         .withMessage('يجب أن تكون كلمة المرور 6 أحرف على الأقل'),
     body('phoneNumber')
         .trim().notEmpty().withMessage('رقم الهاتف مطلوب'),
+    body('companyName').trim().notEmpty().withMessage('اسم الشركة مطلوب'),
+    body('companyPhoneNumber').optional().trim(),
+];
+
+export const validateCompanyProfile = validateCompanySignup.slice(4);
+
+export const validateLogin = [
+    body('email').trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+    body('password').notEmpty().withMessage('كلمة المرور مطلوبة'),
+    body('role').optional().isIn(ACCOUNT_ROLES).withMessage('الدور المحدد غير صالح'),
+];
+
+export const validateDriverProfile = [
     body('vehicleNumber').trim().notEmpty().withMessage('رقم المركبة مطلوب'),
     body('vehicleTypeId').isMongoId().withMessage('معرف نوع المركبة غير صالح'),
 ];
 
+export const validateSwitchRole = [
+    body('role').isIn(ACCOUNT_ROLES).withMessage('الدور المحدد غير صالح'),
+];
+
 export const validateUserUpdate = [
     body('fullName').optional().trim().notEmpty().withMessage('لا يمكن أن يكون الاسم الكامل فارغًا'),
-    body('email').optional().isEmail().normalizeEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+    body('email').optional().trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
     body('phoneNumber')
         .trim().notEmpty().withMessage('رقم الهاتف مطلوب'),
 ];
 
 export const validateDriverUpdate = [
     body('fullName').optional().trim().notEmpty().withMessage('لا يمكن أن يكون الاسم الكامل فارغًا'),
-    body('email').optional().isEmail().normalizeEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+    body('email').optional().trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
     body('phoneNumber')
         .trim().notEmpty().withMessage('رقم الهاتف مطلوب'),
-    body('vehicleNumber').optional().trim().notEmpty().withMessage('لا يمكن أن يكون رقم المركبة فارغًا'),
-    body('vehicleTypeId').optional().isMongoId().withMessage('معرف نوع المركبة غير صالح'),
 ];
 
+export const validateDriverLocation = [
+    body('coordinates')
+        .custom(isValidLngLat)
+        .withMessage('الإحداثيات غير صالحة، يجب أن تكون [خط الطول, خط العرض]'),
+    body('kind').optional().isIn(['current', 'home']).withMessage('نوع الموقع يجب أن يكون current أو home'),
+];
+
+export const validateRefreshToken = [
+    body('refreshToken').isString().trim().notEmpty().withMessage('رمز التحديث مطلوب'),
+];
+
+const validateOtpCode = body('code').trim().isLength({ min: 6, max: 6 }).isNumeric().withMessage('رمز التحقق غير صالح');
+
+export const validateForgotPassword = [
+    body('email').optional().trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+    body('phoneNumber').optional().trim().notEmpty().withMessage('رقم الهاتف غير صالح'),
+    body().custom((value) => !!(value?.email || value?.phoneNumber)).withMessage('البريد الإلكتروني أو رقم الهاتف مطلوب'),
+    body('channel').optional().isIn(['email', 'sms']).withMessage('قناة الإرسال يجب أن تكون email أو sms'),
+];
+
+export const validateResetPassword = [
+    ...validateForgotPassword.slice(0, 3),
+    validateOtpCode,
+    body('newPassword')
+        .isLength({ min: 6 })
+        .withMessage('يجب أن تكون كلمة المرور 6 أحرف على الأقل'),
+];
+
+export const validatePhoneVerification = [validateOtpCode];
+
+export const validatePhoneLoginRequest = [
+    body('phoneNumber').trim().notEmpty().withMessage('رقم الهاتف مطلوب'),
+    body('role').optional().isIn(ACCOUNT_ROLES).withMessage('الدور المحدد غير صالح'),
+];
+
+export const validatePhoneLogin = [...validatePhoneLoginRequest, validateOtpCode];
+
+const sendPhoneVerificationCode = (account: IAccount, ip?: string) =>
+    issueVerificationCode({
+        subjectId: account._id,
+        purpose: 'phone_verification',
+        channel: 'sms',
+        destination: account.phoneNumber,
+        subject: 'تأكيد رقم الهاتف',
+        buildBody: (code, ttlMinutes) => `رمز تأكيد رقم هاتفك هو ${code}. صالح لمدة ${ttlMinutes} دقائق.`,
+        ip,
+    });
+
+const IDENTITY_TAKEN_MESSAGE = 'البريد الإلكتروني أو رقم الهاتف مستخدم بالفعل';
+
+const isDuplicateKeyError = (error: any) => error?.code === 11000;
+
+const createAccount = async ({ fullName, email, password, phoneNumber }: UserSignupData) =>
+    Account.create({
+        fullName,
+        email,
+        password: await bcrypt.hash(password, 12),
+        phoneNumber
+    });
+
 export const signupUser = async (req: Request, res: Response): Promise<void> => {
+    let account: IAccount | undefined;
     try {
         const errors = validationResult(req);
         if (!errors.isEmpty()) {
@@ -91,44 +208,55 @@ export const signupUser = async (req: Request, res: Response): Promise<void> =>
 
         const { fullName, email, password, phoneNumber }: UserSignupData = req.body;
 
-        const existingUser = await User.findOne({
-            $or: [{ email }, { phoneNumber }]
-        });
-
-        if (existingUser) {
+        if (await isIdentityTaken({ email, phoneNumber })) {
             res.status(400).json({
                 message: 'المستخدم موجود بالفعل مع هذا البريد الإلكتروني أو رقم الهاتف'
             });
             return;
         }
 
-        const hashedPassword = await bcrypt.hash(password, 12);
-
+        account = await createAccount({ fullName, email, password, phoneNumber });
         const user = await User.create({
-            fullName,
-            email,
-            password: hashedPassword,
-            phoneNumber
+            fullName: account.fullName,
+            email: account.email,
+            phoneNumber: account.phoneNumber,
+            account_id: account._id
         });
+        await linkProfile(account, 'router', user._id);
+
+        // A failed SMS must not fail the signup; the user can ask for a new code later.
+        await sendPhoneVerificationCode(account, req.ip).catch((smsError) =>
+            console.error('Phone verification code error:', smsError));
 
-        const token = generateToken({
+        const { token, refreshToken, refreshTokenExpiresAt } = await issueSession({
             id: user._id.toString(),
             role: 'router',
             fullName: user.fullName
-        });
+        }, req);
 
         res.status(201).json({
             message: 'تم إنشاء المستخدم بنجاح',
             token,
+            refreshToken,
+            refreshTokenExpiresAt,
             user: {
                 id: user._id,
                 fullName: user.fullName,
                 email: user.email,
                 phoneNumber: user.phoneNumber,
+                phoneVerified: account.phoneVerified,
                 role: "router"
-            }
+            },
+            roles: getAccountRoles(account)
         });
     } catch (error: any) {
+        if (account && !account.router_id) {
+            await Account.deleteOne({ _id: account._id }).catch(() => undefined);
+        }
+        if (isDuplicateKeyError(error)) {
+            res.status(400).json({ message: IDENTITY_TAKEN_MESSAGE });
+            return;
+        }
         res.status(500).json({
             message: 'خطأ في إنشاء المستخدم',
             error: error.message
@@ -136,8 +264,98 @@ export const signupUser = async (req: Request, res: Response): Promise<void> =>
     }
 };
 
+// Creates a company together with the dispatcher profile of its owner.
+const createCompanyWithOwner = async (
+    account: IAccount,
+    { companyName, companyPhoneNumber }: Pick<CompanySignupData, 'companyName' | 'companyPhoneNumber'>
+) => {
+    const companyId = new mongoose.Types.ObjectId();
+    const dispatcher = await Dispatcher.create({
+        account_id: account._id,
+        company_id: companyId,
+        companyRole: 'owner',
+        fullName: account.fullName,
+        email: account.email,
+        phoneNumber: account.phoneNumber,
+    });
+
+    try {
+        const company = await Company.create({
+            _id: companyId,
+            name: companyName,
+            email: account.email,
+            phoneNumber: companyPhoneNumber || account.phoneNumber,
+            owner_id: dispatcher._id,
+        });
+        await linkProfile(account, 'dispatcher', dispatcher._id);
+        return { company, dispatcher };
+    } catch (error) {
+        await Dispatcher.deleteOne({ _id: dispatcher._id });
+        throw error;
+    }
+};
+
+export const signupCompany = async (req: Request, res: Response): Promise<void> => {
+    let account: IAccount | undefined;
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { fullName, email, password, phoneNumber, companyName, companyPhoneNumber }: CompanySignupData = req.body;
+
+        if (await isIdentityTaken({ email, phoneNumber })) {
+            res.status(400).json({ message: IDENTITY_TAKEN_MESSAGE });
+            return;
+        }
+
+        account = await createAccount({ fullName, email, password, phoneNumber });
+        const { company, dispatcher } = await createCompanyWithOwner(account, { companyName, companyPhoneNumber });
+
+        await sendPhoneVerificationCode(account, req.ip).catch((smsError) =>
+            console.error('Phone verification code error:', smsError));
+
+        const { token, refreshToken, refreshTokenExpiresAt } = await issueSession({
+            id: dispatcher._id.toString(),
+            role: 'dispatcher',
+            fullName: dispatcher.fullName
+        }, req);
+
+        res.status(201).json({
+            message: 'تم إنشاء الشركة بنجاح',
+            token,
+            refreshToken,
+            refreshTokenExpiresAt,
+            user: toLoginUser(dispatcher, 'dispatcher', account),
+            company: {
+                id: company._id,
+                name: company.name,
+                email: company.email,
+                phoneNumber: company.phoneNumber
+            },
+            roles: getAccountRoles(account)
+        });
+    } catch (error: any) {
+        if (account && !account.dispatcher_id) {
+            await Account.deleteOne({ _id: account._id }).catch(() => undefined);
+        }
+        if (isDuplicateKeyError(error)) {
+            res.status(400).json({ message: IDENTITY_TAKEN_MESSAGE });
+            return;
+        }
+        res.status(500).json({
+            message: 'خطأ في إنشاء الشركة',
+            error: error.message
+        });
+    }
+};
+
 export const signupDriver = async (req: Request, res: Response): Promise<void> => {
     let photoPublicId = '';
+    let account: IAccount | undefined;
+    let driver: IDriver | undefined;
     try {
         const errors = validationResult(req);
         if (!errors.isEmpty()) {
@@ -147,14 +365,10 @@ export const signupDriver = async (req: Request, res: Response): Promise<void> =
 
         const { fullName, email, password, phoneNumber, vehicleNumber, vehicleTypeId }: DriverSignupData = req.body;
 
-        const existingUser = await User.findOne({
-            $or: [{ email }, { phoneNumber }],
-        });
-        const existingDriver = await Driver.findOne({
-            $or: [{ email }, { phoneNumber }, { vehicleNumber }],
-        });
+        const identityTaken = await isIdentityTaken({ email, phoneNumber });
+        const vehicleTaken = await DriverVehicle.exists({ plateNumber: vehicleNumber });
 
-        if (existingUser || existingDriver) {
+        if (identityTaken || vehicleTaken) {
             res.status(400).json({ errors: [{ msg: 'البريد الإلكتروني أو رقم الهاتف أو رقم المركبة موجود بالفعل', path: 'email or phoneNumber or vehicleNumber' }] });
             return;
         }
@@ -183,41 +397,55 @@ export const signupDriver = async (req: Request, res: Response): Promise<void> =
             }
         }
 
-        const hashedPassword = await bcrypt.hash(password, 12);
-
-        const driver = await Driver.create({
-            fullName,
-            email,
-            password: hashedPassword,
-            phoneNumber,
-            vehicleNumber,
-            vehicleType: vehicleTypeId,
+        account = await createAccount({ fullName, email, password, phoneNumber });
+        driver = await Driver.create({
+            fullName: account.fullName,
+            email: account.email,
+            phoneNumber: account.phoneNumber,
+            account_id: account._id,
             photo,
             photoPublicId,
         });
+        const vehicle = await DriverVehicle.create({
+            driver_id: driver._id,
+            plateNumber: vehicleNumber,
+            vehicleType: vehicleTypeId,
+        });
+        await linkProfile(account, 'driver', driver._id);
+
+        await sendPhoneVerificationCode(account, req.ip).catch((smsError) =>
+            console.error('Phone verification code error:', smsError));
 
-        const token = generateToken({
+        const { token, refreshToken, refreshTokenExpiresAt } = await issueSession({
             id: driver._id.toString(),
             role: 'driver',
             fullName: driver.fullName,
-        });
+        }, req);
 
         res.status(201).json({
             message: 'تم إنشاء السائق بنجاح',
             token,
+            refreshToken,
+            refreshTokenExpiresAt,
             driver: {
                 id: driver._id,
                 fullName: driver.fullName,
                 email: driver.email,
                 phoneNumber: driver.phoneNumber,
-                vehicleNumber: driver.vehicleNumber,
-                vehicleTypeId,
+                phoneVerified: account.phoneVerified,
+                vehicles: [formatDriverVehicle(vehicle)],
                 photo: driver.photo,
+                verificationStatus: driver.verificationStatus,
                 role: 'driver',
             },
+            roles: getAccountRoles(account),
         });
     } catch (error: any) {
         console.error('Driver signup error:', error);
+        if (account && !account.driver_id) {
+            await Account.deleteOne({ _id: account._id }).catch(() => undefined);
+            if (driver) await Driver.deleteOne({ _id: driver._id }).catch(() => undefined);
+        }
         if (photoPublicId) {
             try {
                 await deleteFromCloudinary(photoPublicId);
@@ -225,6 +453,10 @@ export const signupDriver = async (req: Request, res: Response): Promise<void> =
                 console.error('Error cleaning up Cloudinary image:', deleteError);
             }
         }
+        if (isDuplicateKeyError(error)) {
+            res.status(400).json({ errors: [{ msg: 'البريد الإلكتروني أو رقم الهاتف أو رقم المركبة موجود بالفعل', path: 'email or phoneNumber or vehicleNumber' }] });
+            return;
+        }
         res.status(500).json({
             errors: [{ msg: 'خطأ في إنشاء السائق', error: error.message }],
         });
@@ -247,25 +479,20 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response): Prom
 
         const { fullName, email, phoneNumber }: UserUpdateData = req.body;
 
-        const updateData: UserUpdateData = {};
-        if (fullName) updateData.fullName = fullName;
-        if (email) updateData.email = email;
-        if (phoneNumber) updateData.phoneNumber = phoneNumber;
-
-        if (email || phoneNumber) {
-            const existingUser = await User.findOne({
-                $or: [
-                    ...(email ? [{ email, _id: { $ne: id } }] : []),
-                    ...(phoneNumber ? [{ phoneNumber, _id: { $ne: id } }] : []),
-                ],
-            });
-            if (existingUser) {
-                res.status(400).json({ message: 'البريد الإلكتروني أو رقم الهاتف مستخدم بالفعل' });
-                return;
-            }
+        const account = await findAccountByProfile(id, 'router');
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
+            return;
+        }
+
+        if (await isIdentityTaken({ email, phoneNumber }, account._id)) {
+            res.status(400).json({ message: IDENTITY_TAKEN_MESSAGE });
+            return;
         }
 
-        const user = await User.findByIdAndUpdate(id, updateData, { new: true });
+        await updateAccountIdentity(account, { fullName, email, phoneNumber });
+
+        const user = await User.findById(id);
         if (!user) {
             res.status(404).json({ message: 'المستخدم غير موجود' });
             return;
@@ -278,10 +505,15 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response): Prom
                 fullName: user.fullName,
                 email: user.email,
                 phoneNumber: user.phoneNumber,
+                phoneVerified: account.phoneVerified,
                 role: 'router'
             }
         });
     } catch (error: any) {
+        if (isDuplicateKeyError(error)) {
+            res.status(400).json({ message: IDENTITY_TAKEN_MESSAGE });
+            return;
+        }
         res.status(500).json({
             message: 'خطأ في تحديث المستخدم',
             error: error.message
@@ -291,9 +523,7 @@ export const updateUser = async (req: AuthenticatedRequest, res: Response): Prom
 
 export const updateDriver = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     let photoPublicId = '';
-    let vehicleTypeChanged = false;
-    let oldVehicleCategory = '';
-    
+
     try {
         const errors = validationResult(req);
         if (!errors.isEmpty()) {
@@ -307,62 +537,20 @@ export const updateDriver = async (req: AuthenticatedRequest, res: Response): Pr
             return;
         }
 
-        const { fullName, email, phoneNumber, vehicleNumber, vehicleTypeId }: DriverUpdateData = req.body;
+        const { fullName, email, phoneNumber }: UserUpdateData = req.body;
 
-        // Use proper typing for populated vehicleType
-        const currentDriver = await Driver.findById(id).populate<{ vehicleType: VehicleType }>('vehicleType');
-        if (!currentDriver) {
+        const account = await findAccountByProfile(id, 'driver');
+        if (!account) {
             res.status(404).json({ message: 'السائق غير موجود' });
             return;
         }
 
-        const updateData: any = {};
-        if (fullName) updateData.fullName = fullName;
-        if (email) updateData.email = email;
-        if (phoneNumber) updateData.phoneNumber = phoneNumber;
-        if (vehicleNumber) updateData.vehicleNumber = vehicleNumber;
-        
-        if (vehicleTypeId) {
-            if (!mongoose.Types.ObjectId.isValid(vehicleTypeId)) {
-                res.status(400).json({ message: 'معرف نوع المركبة غير صالح' });
-                return;
-            }
-
-            const vehicleType = await Vehicle.findById(vehicleTypeId);
-            if (!vehicleType) {
-                res.status(400).json({ message: 'نوع المركبة غير موجود' });
-                return;
-            }
-
-            // Cast to any to access the category property
-            if ((currentDriver as any).vehicleType._id.toString() !== vehicleTypeId) {
-                vehicleTypeChanged = true;
-                oldVehicleCategory = (currentDriver as any).vehicleType.category;
-                updateData.vehicleType = vehicleTypeId;
-            }
-        }
-
-        if (email || phoneNumber || vehicleNumber) {
-            const existingUser = await User.findOne({
-                $or: [
-                    ...(email ? [{ email }] : []),
-                    ...(phoneNumber ? [{ phoneNumber }] : []),
-                    ...(vehicleNumber ? [{ vehicleNumber }] : []),
-                ],
-            });
-            const existingDriver = await Driver.findOne({
-                $or: [
-                    ...(email ? [{ email, _id: { $ne: id } }] : []),
-                    ...(phoneNumber ? [{ phoneNumber, _id: { $ne: id } }] : []),
-                    ...(vehicleNumber ? [{ vehicleNumber, _id: { $ne: id } }] : []),
-                ],
-            });
-            if (existingUser || existingDriver) {
-                res.status(400).json({ message: 'البريد الإلكتروني أو رقم الهاتف أو رقم المركبة مستخدم بالفعل' });
-                return;
-            }
+        if (await isIdentityTaken({ email, phoneNumber }, account._id)) {
+            res.status(400).json({ message: IDENTITY_TAKEN_MESSAGE });
+            return;
         }
 
+        const updateData: any = {};
         if (req.file) {
             try {
                 const uploadResult = await uploadToCloudinary(req.file);
@@ -397,27 +585,15 @@ export const updateDriver = async (req: AuthenticatedRequest, res: Response): Pr
             }
         }
 
-        const updatedDriver = await Driver.findByIdAndUpdate(id, updateData, { new: true }).populate<{ vehicleType: VehicleType }>('vehicleType');
+        await updateAccountIdentity(account, { fullName, email, phoneNumber });
+
+        const updatedDriver = await Driver.findByIdAndUpdate(id, updateData, { new: true });
         if (!updatedDriver) {
-            if (photoPublicId) {
-                try {
-                    await deleteFromCloudinary(photoPublicId);
-                } catch (deleteError) {
-                    console.error('Error cleaning up new Cloudinary image:', deleteError);
-                }
-            }
             res.status(404).json({ message: 'السائق غير موجود' });
             return;
         }
 
-        // Add proper null check for req.io
-        if (req.io && vehicleTypeChanged) {
-            req.io.to(`driver-${id}`).emit('vehicle-type-updated', {
-                message: 'تم تحديث نوع المركبة، سيتم عرض الطلبات المناسبة فقط'
-            });
-            
-            req.io.to(`driver-${id}`).emit('refresh-orders');
-        }
+        const vehicles = await listVehicles(personalVehicleFilter(id));
 
         res.json({
             message: 'تم تحديث السائق بنجاح',
@@ -426,8 +602,8 @@ export const updateDriver = async (req: AuthenticatedRequest, res: Response): Pr
                 fullName: updatedDriver.fullName,
                 email: updatedDriver.email,
                 phoneNumber: updatedDriver.phoneNumber,
-                vehicleNumber: updatedDriver.vehicleNumber,
-                vehicleType: updatedDriver.vehicleType,
+                phoneVerified: account.phoneVerified,
+                vehicles: vehicles.map(formatDriverVehicle),
                 photo: updatedDriver.photo,
                 role: 'driver'
             }
@@ -441,6 +617,10 @@ export const updateDriver = async (req: AuthenticatedRequest, res: Response): Pr
                 console.error('Error cleaning up Cloudinary image:', deleteError);
             }
         }
+        if (isDuplicateKeyError(error)) {
+            res.status(400).json({ message: IDENTITY_TAKEN_MESSAGE });
+            return;
+        }
         res.status(500).json({
             message: 'خطأ في تحديث السائق',
             error: error.message
@@ -448,6 +628,92 @@ export const updateDriver = async (req: AuthenticatedRequest, res: Response): Pr
     }
 };
 
+const toLoginUser = (user: any, role: AccountRole, account: IAccount, vehicles: IDriverVehicle[] = []) => {
+    if (role === 'router') {
+        return {
+            id: user._id,
+            fullName: user.fullName,
+            email: user.email,
+            phoneNumber: user.phoneNumber,
+            phoneVerified: account.phoneVerified,
+            role
+        };
+    }
+
+    if (role === 'dispatcher') {
+        const dispatcher = user as IDispatcher;
+        return {
+            id: dispatcher._id,
+            fullName: dispatcher.fullName,
+            email: dispatcher.email,
+            phoneNumber: dispatcher.phoneNumber,
+            phoneVerified: account.phoneVerified,
+            companyId: dispatcher.company_id,
+            companyRole: dispatcher.companyRole,
+            role
+        };
+    }
+
+    const driver = user as IDriver;
+    return {
+        id: driver._id,
+        fullName: driver.fullName,
+        email: driver.email,
+        phoneNumber: driver.phoneNumber,
+        phoneVerified: account.phoneVerified,
+        vehicles: vehicles.map(formatDriverVehicle),
+        photo: driver.photo,
+        verificationStatus: driver.verificationStatus,
+        role
+    };
+};
+
+/**
+ * Opens a session on one of the account's profiles and answers with the same payload for
+ * every way of signing in (password, phone code, switching profiles).
+ */
+const signInToProfile = async (
+    req: Request,
+    res: Response,
+    account: IAccount,
+    requestedRole?: AccountRole
+): Promise<void> => {
+    const role = resolveLoginRole(account, requestedRole);
+    const profile = role ? await loadProfile(account, role) : null;
+    if (!role || !profile) {
+        res.status(404).json({
+            message: requestedRole ? 'لا يوجد لديك ملف بهذا الدور' : 'المستخدم غير موجود',
+            roles: getAccountRoles(account)
+        });
+        return;
+    }
+
+    if (profile.isSuspended) {
+        res.status(403).json({ message: 'تم إيقاف حسابك، يرجى التواصل مع الدعم', reason: profile.suspensionReason });
+        return;
+    }
+
+    account.last_role = role;
+    account.lastLoginAt = new Date();
+    await account.save();
+
+    const { token, refreshToken, refreshTokenExpiresAt } = await issueSession({
+        id: profile._id.toString(),
+        role,
+        fullName: profile.fullName
+    }, req);
+    const vehicles = role === 'driver' ? await listVehicles(personalVehicleFilter(profile._id)) : [];
+
+    res.json({
+        message: 'تسجيل الدخول ناجح',
+        token,
+        refreshToken,
+        refreshTokenExpiresAt,
+        user: toLoginUser(profile, role, account, vehicles),
+        roles: getAccountRoles(account)
+    });
+};
+
 export const login = async (req: Request, res: Response): Promise<void> => {
     try {
         const errors = validationResult(req);
@@ -458,62 +724,27 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
         const { email, password, role }: LoginData = req.body;
 
-        let user;
-        if (role === 'router') {
-            user = await User.findOne({ email });
-        } else if (role === 'driver') {
-            user = await Driver.findOne({ email });
-        } else {
-            res.status(400).json({ message: 'الدور المحدد غير صالح' });
+        const account = await findAccountByContact({ email });
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
             return;
         }
 
-        if (!user) {
-            res.status(404).json({ message: 'المستخدم غير موجود' });
+        if (account.passwordResetRequired) {
+            res.status(403).json({
+                message: 'يجب تعيين كلمة مرور جديدة عبر خيار "نسيت كلمة المرور" قبل تسجيل الدخول',
+                passwordResetRequired: true
+            });
             return;
         }
 
-        const isPasswordValid = await bcrypt.compare(password, user.password);
+        const isPasswordValid = await bcrypt.compare(password, account.password);
         if (!isPasswordValid) {
             res.status(401).json({ message: 'بيانات الاعتماد غير صالحة' });
             return;
         }
 
-        const token = generateToken({
-            id: user._id.toString(),
-            role,
-            fullName: user.fullName
-        });
-
-        if (role === 'router') {
-            res.json({
-                message: 'تسجيل الدخول ناجح',
-                token,
-                user: {
-                    id: user._id,
-                    fullName: user.fullName,
-                    email: user.email,
-                    phoneNumber: user.phoneNumber,
-                    role
-                }
-            });
-        } else {
-            const driver = user as IDriver;
-            res.json({
-                message: 'تسجيل الدخول ناجح',
-                token,
-                user: {
-                    id: driver._id,
-                    fullName: driver.fullName,
-                    email: driver.email,
-                    phoneNumber: driver.phoneNumber,
-                    vehicleNumber: driver.vehicleNumber,
-                    vehicleType: driver.vehicleType,
-                    photo: driver.photo,
-                    role
-                }
-            });
-        }
+        await signInToProfile(req, res, account, role);
     } catch (error: any) {
         res.status(500).json({
             message: 'خطأ أثناء تسجيل الدخول',
@@ -532,29 +763,50 @@ export const changePassword = async (req: AuthenticatedRequest, res: Response):
 
         const { currentPassword, newPassword }: ChangePasswordData = req.body;
         const { id, role } = req.user!;
-
-        let user;
-        if (role === 'router') {
-            user = await User.findById(id);
-        } else {
-            user = await Driver.findById(id);
+        if (!isAccountRole(role)) {
+            res.status(403).json({ message: 'غير مصرح: يمكن للراوتر والسائقين فقط تغيير كلمة المرور هنا' });
+            return;
         }
 
-        if (!user) {
+        const account = await findAccountByProfile(id, role);
+        if (!account) {
             res.status(404).json({ message: 'المستخدم غير موجود' });
             return;
         }
 
-        const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+        const isPasswordValid = await bcrypt.compare(currentPassword, account.password);
         if (!isPasswordValid) {
             res.status(401).json({ message: 'كلمة المرور الحالية غير صحيحة' });
             return;
         }
 
-        user.password = await bcrypt.hash(newPassword, 12);
-        await user.save();
+        account.password = await bcrypt.hash(newPassword, 12);
+        account.passwordResetRequired = undefined;
+        await account.save();
+
+        // The password guards every profile of the account, so all of their sessions end.
+        await revokeAccountSessions(account, 'password_changed');
+        const { token, refreshToken, refreshTokenExpiresAt } = await issueSession({
+            id,
+            role,
+            fullName: account.fullName
+        }, req);
+
+        if (req.io) {
+            for (const accountRole of getAccountRoles(account)) {
+                const profileId = getProfileId(account, accountRole);
+                closeRoomSockets(req.io, personalRoom({ id: String(profileId), role: accountRole, fullName: account.fullName }), 'session-revoked', {
+                    message: 'تم تغيير كلمة المرور، يرجى تسجيل الدخول مرة أخرى'
+                });
+            }
+        }
 
-        res.json({ message: 'تم تحديث كلمة المرور بنجاح' });
+        res.json({
+            message: 'تم تحديث كلمة المرور بنجاح',
+            token,
+            refreshToken,
+            refreshTokenExpiresAt,
+        });
     } catch (error: any) {
         res.status(500).json({
             message: 'خطأ في تغيير كلمة المرور',
@@ -571,8 +823,9 @@ export const getUserById = async (req: AuthenticatedRequest, res: Response): Pro
             return;
         }
 
-        const user = await User.findById(id).select('-password');
-        if (!user) {
+        const user = await User.findById(id);
+        const account = await findAccountByProfile(id, 'router');
+        if (!user || !account) {
             res.status(404).json({ message: 'المستخدم غير موجود' });
             return;
         }
@@ -584,8 +837,10 @@ export const getUserById = async (req: AuthenticatedRequest, res: Response): Pro
                 fullName: user.fullName,
                 email: user.email,
                 phoneNumber: user.phoneNumber,
+                phoneVerified: account.phoneVerified,
                 role: 'router'
-            }
+            },
+            roles: getAccountRoles(account)
         });
     } catch (error: any) {
         res.status(500).json({
@@ -603,9 +858,10 @@ export const getDriverById = async (req: AuthenticatedRequest, res: Response): P
             return;
         }
 
-        const driver = await Driver.findById(id).populate('vehicleType').select('-password');
+        const driver = await Driver.findById(id);
+        const account = await findAccountByProfile(id, 'driver');
 
-        if (!driver) {
+        if (!driver || !account) {
             res.status(404).json({ message: 'السائق غير موجود' });
             return;
         }
@@ -617,12 +873,17 @@ export const getDriverById = async (req: AuthenticatedRequest, res: Response): P
                 fullName: driver.fullName,
                 email: driver.email,
                 phoneNumber: driver.phoneNumber,
-                vehicleNumber: driver.vehicleNumber,
-                vehicleType: driver.vehicleType,
-                vehicleTypeId: driver.vehicleType,
+                phoneVerified: account.phoneVerified,
+                vehicles: (await listVehicles(personalVehicleFilter(id))).map(formatDriverVehicle),
                 photo: driver.photo,
+                currentLocation: driver.currentLocation,
+                homeLocation: driver.homeLocation,
+                verificationStatus: driver.verificationStatus,
+                verificationRejectionReason: driver.verificationRejectionReason,
+                documents: documentSummary(driver),
                 role: 'driver'
-            }
+            },
+            roles: getAccountRoles(account)
         });
     } catch (error: any) {
         res.status(500).json({
@@ -659,7 +920,7 @@ export const getUserGeneralById = async (req: AuthenticatedRequest, res: Respons
                 }
             });
         } else if (role === 'driver') {
-            const driver = await Driver.findById(id).populate('vehicleType').select('-password');
+            const driver = await Driver.findById(id).select('-password');
             if (!driver) {
                 res.status(404).json({ message: 'السائق غير موجود' });
                 return;
@@ -672,9 +933,9 @@ export const getUserGeneralById = async (req: AuthenticatedRequest, res: Respons
                     fullName: driver.fullName,
                     email: driver.email,
                     phoneNumber: driver.phoneNumber,
-                    vehicleNumber: driver.vehicleNumber,
-                    vehicleType: driver.vehicleType,
-                    vehicleTypeId: driver.vehicleType,
+                    vehicles: (await listVehicles(personalVehicleFilter(id)))
+                        .filter((vehicle) => vehicle.isActive)
+                        .map(formatDriverVehicle),
                     photo: driver.photo,
                     role: 'driver'
                 }
@@ -688,4 +949,755 @@ export const getUserGeneralById = async (req: AuthenticatedRequest, res: Respons
             error: error.message
         });
     }
-};
\ No newline at end of file
+};
+
+export const updateDriverLocation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        if (role !== 'driver') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للسائقين فقط تحديث موقعهم' });
+            return;
+        }
+
+        const { coordinates, kind = 'current' }: { coordinates: [number, number]; kind?: 'current' | 'home' } = req.body;
+        const point = toPoint(coordinates[0], coordinates[1]);
+
+        const updateData = kind === 'home'
+            ? { homeLocation: point }
+            : { currentLocation: point, locationUpdatedAt: new Date() };
+
+        const driver = await Driver.findByIdAndUpdate(id, updateData, { new: true });
+        if (!driver) {
+            res.status(404).json({ message: 'السائق غير موجود' });
+            return;
+        }
+
+        if (req.io) {
+            req.io.to(`driver-${id}`).emit('refresh-orders');
+        }
+
+        res.json({
+            message: 'تم تحديث الموقع بنجاح',
+            location: {
+                currentLocation: driver.currentLocation,
+                locationUpdatedAt: driver.locationUpdatedAt,
+                homeLocation: driver.homeLocation,
+            }
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في تحديث الموقع',
+            error: error.message
+        });
+    }
+};
+
+// Drivers only see which documents are on file; the files themselves are opened by admins through signed links.
+const documentSummary = (driver: IDriver) =>
+    Object.fromEntries(DRIVER_DOCUMENT_TYPES
+        .filter((type) => driver.documents?.[type])
+        .map((type) => [type, { uploadedAt: driver.documents[type]!.uploadedAt }]));
+
+export const uploadDriverDocuments = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const uploadedDocuments: IDriverDocument[] = [];
+    try {
+        const { id, role } = req.user!;
+        if (role !== 'driver') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للسائقين فقط رفع المستندات' });
+            return;
+        }
+
+        const files = (req.files || {}) as Record<string, Express.Multer.File[]>;
+        const providedTypes = DRIVER_DOCUMENT_TYPES.filter((type) => files[type]?.[0]);
+        if (providedTypes.length === 0) {
+            res.status(400).json({ message: 'يجب رفع مستند واحد على الأقل (الرخصة أو التسجيل أو التأمين)' });
+            return;
+        }
+
+        const driver = await Driver.findById(id);
+        if (!driver) {
+            res.status(404).json({ message: 'السائق غير موجود' });
+            return;
+        }
+
+        const replacedDocuments: IDriverDocument[] = [];
+        for (const type of providedTypes) {
+            let uploadResult;
+            try {
+                uploadResult = await uploadToCloudinary(files[type][0], DRIVER_DOCUMENTS_FOLDER);
+            } catch (uploadError) {
+                console.error('Cloudinary upload error:', uploadError);
+                throw new Error('فشل في رفع المستندات');
+            }
+            const document: IDriverDocument = {
+                url: uploadResult.secure_url,
+                publicId: uploadResult.public_id,
+                deliveryType: 'authenticated',
+                resourceType: uploadResult.resource_type,
+                format: uploadResult.format,
+                uploadedAt: new Date(),
+            };
+            uploadedDocuments.push(document);
+
+            const previous = driver.documents?.[type];
+            if (previous?.publicId) {
+                replacedDocuments.push(previous);
+            }
+            driver.set(`documents.${type}`, document);
+        }
+
+        const missingDocuments = DRIVER_DOCUMENT_TYPES.filter((type: DriverDocumentType) => !driver.documents?.[type]?.url);
+        if (missingDocuments.length === 0) {
+            driver.verificationStatus = 'pending';
+            driver.verificationSubmittedAt = new Date();
+            driver.verificationRejectionReason = undefined;
+        }
+
+        await driver.save();
+
+        for (const document of replacedDocuments) {
+            try {
+                await deleteStoredDocument(document);
+            } catch (deleteError) {
+                console.error('Error cleaning up old Cloudinary document:', deleteError);
+            }
+        }
+
+        res.json({
+            message: missingDocuments.length === 0
+                ? 'تم رفع المستندات بنجاح وهي قيد المراجعة'
+                : 'تم رفع المستندات بنجاح',
+            verificationStatus: driver.verificationStatus,
+            documents: documentSummary(driver),
+            missingDocuments,
+        });
+    } catch (error: any) {
+        console.error('Driver documents upload error:', error);
+        for (const document of uploadedDocuments) {
+            try {
+                await deleteStoredDocument(document);
+            } catch (deleteError) {
+                console.error('Error cleaning up Cloudinary document:', deleteError);
+            }
+        }
+        res.status(500).json({
+            message: 'خطأ في رفع المستندات',
+            error: error.message
+        });
+    }
+};
+
+const resolveSessionSubject = async (session: ISession): Promise<SessionSubject | null> => {
+    if (session.role === 'admin') {
+        const admin = await Admin.findById(session.subject_id);
+        return admin && admin.isActive
+            ? { id: admin._id.toString(), role: 'admin', fullName: admin.fullName }
+            : null;
+    }
+
+    const account = session.role === 'router'
+        ? await User.findById(session.subject_id)
+        : session.role === 'driver'
+            ? await Driver.findById(session.subject_id)
+            : await Dispatcher.findById(session.subject_id);
+    return account && !account.isSuspended
+        ? { id: account._id.toString(), role: session.role, fullName: account.fullName }
+        : null;
+};
+
+export const refreshSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { refreshToken: presentedToken }: { refreshToken: string } = req.body;
+        const { token, refreshToken, refreshTokenExpiresAt } = await rotateSession(presentedToken, req, resolveSessionSubject);
+
+        res.json({
+            message: 'تم تحديث الجلسة بنجاح',
+            token,
+            refreshToken,
+            refreshTokenExpiresAt,
+        });
+    } catch (error: any) {
+        res.status(error.status || 500).json({
+            message: error.status ? error.message : 'خطأ في تحديث الجلسة',
+            error: error.status ? undefined : error.message
+        });
+    }
+};
+
+export const logout = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, sid } = req.user!;
+        const { refreshToken }: { refreshToken?: string } = req.body || {};
+
+        const revokedSessionIds: string[] = [];
+        if (refreshToken) {
+            const session = await revokeSessionByToken(refreshToken, id, 'logout');
+            if (session) revokedSessionIds.push(session._id.toString());
+        }
+        if (sid && await revokeSessionById(sid, id, 'logout')) {
+            revokedSessionIds.push(sid);
+        }
+
+        if (req.io) {
+            for (const sessionId of revokedSessionIds) {
+                closeRoomSockets(req.io, sessionRoom(sessionId), 'session-revoked', { message: 'تم تسجيل الخروج' });
+            }
+        }
+
+        res.json({ message: 'تم تسجيل الخروج بنجاح' });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ أثناء تسجيل الخروج',
+            error: error.message
+        });
+    }
+};
+
+export const logoutAllDevices = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, role } = req.user!;
+        const revokedCount = await revokeAllSessions(id, role as SessionRole, 'logout_all');
+
+        if (req.io) {
+            closeRoomSockets(req.io, personalRoom(req.user as JwtPayload), 'session-revoked', {
+                message: 'تم تسجيل الخروج من جميع الأجهزة'
+            });
+        }
+
+        res.json({
+            message: 'تم تسجيل الخروج من جميع الأجهزة بنجاح',
+            revokedSessions: revokedCount,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ أثناء تسجيل الخروج من جميع الأجهزة',
+            error: error.message
+        });
+    }
+};
+
+export const getActiveSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, role, sid } = req.user!;
+        const sessions = await listActiveSessions(id, role as SessionRole);
+
+        res.json({
+            message: 'تم استرجاع الجلسات بنجاح',
+            sessions: sessions.map((session) => ({
+                id: session._id,
+                userAgent: session.user_agent,
+                ip: session.ip,
+                createdAt: session.createdAt,
+                lastUsedAt: session.last_used_at,
+                expiresAt: session.expires_at,
+                current: session._id.toString() === sid,
+            })),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الجلسات',
+            error: error.message
+        });
+    }
+};
+
+interface AccountLookup {
+    email?: string;
+    phoneNumber?: string;
+}
+
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { email, phoneNumber, channel }: AccountLookup & { channel?: 'email' | 'sms' } = req.body;
+        const account = await findAccountByContact({ email, phoneNumber });
+
+        // Same response whether or not the account exists, so the endpoint cannot be used to probe accounts.
+        const genericResponse = { message: 'إذا كان الحساب موجودًا، فقد تم إرسال رمز إعادة تعيين كلمة المرور' };
+
+        if (!account) {
+            res.json(genericResponse);
+            return;
+        }
+
+        const deliveryChannel = channel || (email ? 'email' : 'sms');
+        await issueVerificationCode({
+            subjectId: account._id,
+            purpose: 'password_reset',
+            channel: deliveryChannel,
+            destination: deliveryChannel === 'email' ? account.email : account.phoneNumber,
+            subject: 'إعادة تعيين كلمة المرور',
+            buildBody: (code, ttlMinutes) =>
+                `رمز إعادة تعيين كلمة المرور الخاص بك هو ${code}. صالح لمدة ${ttlMinutes} دقائق. إذا لم تطلب ذلك، تجاهل هذه الرسالة.`,
+            ip: req.ip,
+            hideThrottling: true,
+        });
+
+        res.json(genericResponse);
+    } catch (error: any) {
+        res.status(error.status || 500).json({
+            message: error.status ? error.message : 'خطأ في طلب إعادة تعيين كلمة المرور',
+            error: error.status ? undefined : error.message
+        });
+    }
+};
+
+export const resetPassword = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { email, phoneNumber, code, newPassword }: AccountLookup & { code: string; newPassword: string } = req.body;
+        const account = await findAccountByContact({ email, phoneNumber });
+
+        const isValid = account && await verifyCode({ subjectId: account._id, purpose: 'password_reset' }, code);
+        if (!account || !isValid) {
+            res.status(400).json({ message: 'رمز التحقق غير صالح أو منتهي الصلاحية' });
+            return;
+        }
+
+        account.password = await bcrypt.hash(newPassword, 12);
+        account.passwordResetRequired = undefined;
+        await account.save();
+        await revokeAccountSessions(account, 'password_reset');
+
+        if (req.io) {
+            for (const accountRole of getAccountRoles(account)) {
+                const profileId = getProfileId(account, accountRole);
+                closeRoomSockets(req.io, personalRoom({ id: String(profileId), role: accountRole, fullName: account.fullName }), 'session-revoked', {
+                    message: 'تمت إعادة تعيين كلمة المرور، يرجى تسجيل الدخول مرة أخرى'
+                });
+            }
+        }
+
+        res.json({ message: 'تم إعادة تعيين كلمة المرور بنجاح، يرجى تسجيل الدخول' });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إعادة تعيين كلمة المرور',
+            error: error.message
+        });
+    }
+};
+
+export const sendPhoneVerification = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, role } = req.user!;
+        if (!isAccountRole(role)) {
+            res.status(403).json({ message: 'غير مصرح: يمكن للراوتر والسائقين فقط تأكيد رقم الهاتف' });
+            return;
+        }
+
+        const account = await findAccountByProfile(id, role);
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
+            return;
+        }
+
+        if (account.phoneVerified) {
+            res.status(400).json({ message: 'تم تأكيد رقم الهاتف بالفعل' });
+            return;
+        }
+
+        await sendPhoneVerificationCode(account, req.ip);
+
+        res.json({ message: 'تم إرسال رمز التحقق إلى رقم هاتفك' });
+    } catch (error: any) {
+        res.status(error.status || 500).json({
+            message: error.status ? error.message : 'خطأ في إرسال رمز التحقق',
+            error: error.status ? undefined : error.message
+        });
+    }
+};
+
+export const verifyPhone = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        if (!isAccountRole(role)) {
+            res.status(403).json({ message: 'غير مصرح: يمكن للراوتر والسائقين فقط تأكيد رقم الهاتف' });
+            return;
+        }
+
+        const account = await findAccountByProfile(id, role);
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
+            return;
+        }
+
+        const isValid = await verifyCode({
+            subjectId: account._id,
+            purpose: 'phone_verification',
+            destination: account.phoneNumber,
+        }, req.body.code);
+        if (!isValid) {
+            res.status(400).json({ message: 'رمز التحقق غير صالح أو منتهي الصلاحية' });
+            return;
+        }
+
+        account.phoneVerified = true;
+        account.phoneVerifiedAt = new Date();
+        await account.save();
+
+        res.json({
+            message: 'تم تأكيد رقم الهاتف بنجاح',
+            phoneNumber: account.phoneNumber,
+            phoneVerified: account.phoneVerified,
+            phoneVerifiedAt: account.phoneVerifiedAt
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في تأكيد رقم الهاتف',
+            error: error.message
+        });
+    }
+};
+
+export const requestPhoneLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { phoneNumber }: AccountLookup = req.body;
+        const account = await findAccountByContact({ phoneNumber });
+
+        const genericResponse = { message: 'إذا كان الرقم مسجلًا، فقد تم إرسال رمز تسجيل الدخول' };
+
+        if (!account) {
+            res.json(genericResponse);
+            return;
+        }
+
+        await issueVerificationCode({
+            subjectId: account._id,
+            purpose: 'phone_login',
+            channel: 'sms',
+            destination: account.phoneNumber,
+            subject: 'تسجيل الدخول',
+            buildBody: (code, ttlMinutes) =>
+                `رمز تسجيل الدخول الخاص بك هو ${code}. صالح لمدة ${ttlMinutes} دقائق. لا تشارك هذا الرمز مع أي شخص.`,
+            ip: req.ip,
+            hideThrottling: true,
+        });
+
+        res.json(genericResponse);
+    } catch (error: any) {
+        res.status(error.status || 500).json({
+            message: error.status ? error.message : 'خطأ في إرسال رمز تسجيل الدخول',
+            error: error.status ? undefined : error.message
+        });
+    }
+};
+
+export const loginWithPhone = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { phoneNumber, role, code }: AccountLookup & { role?: AccountRole; code: string } = req.body;
+        const account = await findAccountByContact({ phoneNumber });
+
+        const isValid = account && await verifyCode({ subjectId: account._id, purpose: 'phone_login', destination: account.phoneNumber }, code);
+        if (!account || !isValid) {
+            res.status(400).json({ message: 'رمز التحقق غير صالح أو منتهي الصلاحية' });
+            return;
+        }
+
+        // Receiving the code proves the number belongs to the account holder.
+        if (!account.phoneVerified) {
+            account.phoneVerified = true;
+            account.phoneVerifiedAt = new Date();
+        }
+
+        await signInToProfile(req, res, account, role);
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ أثناء تسجيل الدخول',
+            error: error.message
+        });
+    }
+};
+
+export const getAccount = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, role } = req.user!;
+        if (!isAccountRole(role)) {
+            res.status(403).json({ message: 'غير مصرح: الحسابات المشتركة متاحة للراوتر والسائقين فقط' });
+            return;
+        }
+
+        const account = await findAccountByProfile(id, role);
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
+            return;
+        }
+
+        res.json({
+            message: 'تم استرجاع الحساب بنجاح',
+            account: {
+                id: account._id,
+                fullName: account.fullName,
+                email: account.email,
+                phoneNumber: account.phoneNumber,
+                phoneVerified: account.phoneVerified,
+                routerId: account.router_id,
+                driverId: account.driver_id,
+                roles: getAccountRoles(account),
+                activeRole: role
+            }
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الحساب',
+            error: error.message
+        });
+    }
+};
+
+export const switchRole = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role, sid } = req.user!;
+        const { role: targetRole }: { role: AccountRole } = req.body;
+        if (!isAccountRole(role)) {
+            res.status(403).json({ message: 'غير مصرح: الحسابات المشتركة متاحة للراوتر والسائقين فقط' });
+            return;
+        }
+
+        if (targetRole === role) {
+            res.status(400).json({ message: 'أنت تستخدم هذا الدور بالفعل' });
+            return;
+        }
+
+        const account = await findAccountByProfile(id, role);
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
+            return;
+        }
+
+        // The session of the profile being left is closed; the other profile gets its own.
+        if (sid) {
+            await revokeSessionById(sid, id, 'role_switched');
+            if (req.io) {
+                closeRoomSockets(req.io, sessionRoom(sid), 'session-revoked', { message: 'تم تبديل الدور' });
+            }
+        }
+
+        await signInToProfile(req, res, account, targetRole);
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في تبديل الدور',
+            error: error.message
+        });
+    }
+};
+
+export const addRouterProfile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, role } = req.user!;
+        if (!isAccountRole(role) || role === 'router') {
+            res.status(403).json({ message: 'غير مصرح: لا يمكنك إضافة ملف راوتر من هذا الحساب' });
+            return;
+        }
+
+        const account = await findAccountByProfile(id, role);
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
+            return;
+        }
+
+        if (account.router_id) {
+            res.status(400).json({ message: 'لديك ملف راوتر بالفعل' });
+            return;
+        }
+
+        const user = await User.create({
+            fullName: account.fullName,
+            email: account.email,
+            phoneNumber: account.phoneNumber,
+            account_id: account._id
+        });
+        await linkProfile(account, 'router', user._id);
+
+        res.status(201).json({
+            message: 'تم إنشاء ملف الراوتر بنجاح',
+            user: toLoginUser(user, 'router', account),
+            roles: getAccountRoles(account)
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إنشاء ملف الراوتر',
+            error: error.message
+        });
+    }
+};
+
+export const addDriverProfile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    let photoPublicId = '';
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        if (!isAccountRole(role) || role === 'driver') {
+            res.status(403).json({ message: 'غير مصرح: لا يمكنك إضافة ملف سائق من هذا الحساب' });
+            return;
+        }
+
+        const account = await findAccountByProfile(id, role);
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
+            return;
+        }
+
+        if (account.driver_id) {
+            res.status(400).json({ message: 'لديك ملف سائق بالفعل' });
+            return;
+        }
+
+        const { vehicleNumber, vehicleTypeId }: DriverProfileData = req.body;
+
+        if (await DriverVehicle.exists({ plateNumber: vehicleNumber })) {
+            res.status(400).json({ message: 'رقم المركبة مستخدم بالفعل' });
+            return;
+        }
+
+        const vehicleType = await Vehicle.findById(vehicleTypeId);
+        if (!vehicleType) {
+            res.status(400).json({ message: 'نوع المركبة غير موجود' });
+            return;
+        }
+
+        let photo = '';
+        if (req.file) {
+            const uploadResult = await uploadToCloudinary(req.file);
+            photo = uploadResult.secure_url;
+            photoPublicId = uploadResult.public_id;
+        }
+
+        const driver = await Driver.create({
+            fullName: account.fullName,
+            email: account.email,
+            phoneNumber: account.phoneNumber,
+            account_id: account._id,
+            photo,
+            photoPublicId,
+        });
+        let vehicle: IDriverVehicle;
+        try {
+            vehicle = await DriverVehicle.create({
+                driver_id: driver._id,
+                plateNumber: vehicleNumber,
+                vehicleType: vehicleTypeId,
+            });
+        } catch (vehicleError) {
+            await Driver.deleteOne({ _id: driver._id });
+            throw vehicleError;
+        }
+        await linkProfile(account, 'driver', driver._id);
+
+        res.status(201).json({
+            message: 'تم إنشاء ملف السائق بنجاح',
+            driver: toLoginUser(driver, 'driver', account, [vehicle]),
+            roles: getAccountRoles(account)
+        });
+    } catch (error: any) {
+        console.error('Add driver profile error:', error);
+        if (photoPublicId) {
+            try {
+                await deleteFromCloudinary(photoPublicId);
+            } catch (deleteError) {
+                console.error('Error cleaning up Cloudinary image:', deleteError);
+            }
+        }
+        res.status(500).json({
+            message: 'خطأ في إنشاء ملف السائق',
+            error: error.message
+        });
+    }
+};
+
+export const addCompanyProfile = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        if (!isAccountRole(role) || role === 'dispatcher') {
+            res.status(403).json({ message: 'غير مصرح: لا يمكنك إنشاء شركة من هذا الحساب' });
+            return;
+        }
+
+        const account = await findAccountByProfile(id, role);
+        if (!account) {
+            res.status(404).json({ message: 'المستخدم غير موجود' });
+            return;
+        }
+
+        if (account.dispatcher_id) {
+            res.status(400).json({ message: 'لديك ملف شركة بالفعل' });
+            return;
+        }
+
+        const { companyName, companyPhoneNumber }: CompanySignupData = req.body;
+        const { company, dispatcher } = await createCompanyWithOwner(account, { companyName, companyPhoneNumber });
+
+        res.status(201).json({
+            message: 'تم إنشاء الشركة بنجاح',
+            user: toLoginUser(dispatcher, 'dispatcher', account),
+            company: {
+                id: company._id,
+                name: company.name,
+                email: company.email,
+                phoneNumber: company.phoneNumber
+            },
+            roles: getAccountRoles(account)
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إنشاء الشركة',
+            error: error.message
+        });
+    }
+};
@@ -0,0 +1,869 @@
+import { Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Account, { IAccount } from '../models/Account';
+import { ICompany } from '../models/Company';
+import CompanyInvitation, { CompanyInvitationRole, ICompanyInvitation } from '../models/CompanyInvitation';
+import Dispatcher from '../models/Dispatcher';
+import Driver from '../models/Driver';
+import DriverVehicle from '../models/DriverVehicle';
+import Notification from '../models/Notification';
+import Offer, { OfferStatus } from '../models/Offer';
+import Order, { ORDER_STATUSES, OrderStatus } from '../models/Order';
+import Vehicle from '../models/Vehicle';
+import { findAccountByContact, findAccountByProfile, isAccountRole, linkProfile } from '../utils/account';
+import { DispatcherContext, findDispatcherContext } from '../utils/company';
+import { buildOrderMatchForVehicles, companyVehicleFilter, formatDriverVehicle, listVehicles } from '../utils/driverVehicle';
+import { IN_PROGRESS_ORDER_STATUSES, OPEN_ORDER_STATUSES } from '../utils/orderLifecycle';
+import { revokeAllSessions } from '../utils/session';
+import { closeRoomSockets } from '../middleware/socketAuth';
+import { sendMessage } from '../utils/messaging';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+    io?: SocketIOServer;
+}
+
+interface CompanyVehicleData {
+    plateNumber?: string;
+    vehicleTypeId?: string;
+    capacityKg?: number;
+    driver_id?: string | null;
+    isActive?: boolean;
+}
+
+export const validateCompanyMember = [
+    body('email').trim().toLowerCase().isEmail().withMessage('عنوان البريد الإلكتروني غير صالح'),
+];
+
+export const validateCompanyVehicleCreate = [
+    body('plateNumber').trim().notEmpty().withMessage('رقم اللوحة مطلوب'),
+    body('vehicleTypeId').isMongoId().withMessage('معرف نوع المركبة غير صالح'),
+    body('capacityKg').optional().isFloat({ min: 0 }).withMessage('يجب أن تكون الحمولة رقمًا موجبًا').toFloat(),
+    body('driver_id').optional({ values: 'null' }).isMongoId().withMessage('معرف السائق غير صالح'),
+];
+
+export const validateCompanyVehicleUpdate = [
+    body('plateNumber').optional().trim().notEmpty().withMessage('لا يمكن أن يكون رقم اللوحة فارغًا'),
+    body('vehicleTypeId').optional().isMongoId().withMessage('معرف نوع المركبة غير صالح'),
+    body('capacityKg').optional().isFloat({ min: 0 }).withMessage('يجب أن تكون الحمولة رقمًا موجبًا').toFloat(),
+    body('driver_id').optional({ values: 'null' }).isMongoId().withMessage('معرف السائق غير صالح'),
+    body('isActive').optional().isBoolean().withMessage('قيمة التفعيل غير صالحة').toBoolean(),
+];
+
+export const validateCompanyListQuery = [
+    query('status').optional().isString(),
+    query('page').optional().isInt({ min: 1 }).withMessage('رقم الصفحة غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('يجب أن يكون الحد بين 1 و 100'),
+];
+
+export const validateDriverAssignment = [
+    body('driver_id').isMongoId().withMessage('معرف السائق غير صالح'),
+];
+
+/**
+ * Loads the dispatcher and company behind the request, answering 403 itself when the caller
+ * is not an active dispatcher (or not the owner when `ownerOnly` is set).
+ */
+const requireCompany = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    ownerOnly = false
+): Promise<DispatcherContext | null> => {
+    const { id, role } = req.user!;
+    const context = role === 'dispatcher' ? await findDispatcherContext(id) : null;
+    if (!context) {
+        res.status(403).json({ message: 'غير مصرح: يمكن لمرسلي الشركات فقط الوصول إلى هذه البيانات' });
+        return null;
+    }
+
+    if (ownerOnly && context.dispatcher.companyRole !== 'owner') {
+        res.status(403).json({ message: 'غير مصرح: يمكن لمالك الشركة فقط تنفيذ هذا الإجراء' });
+        return null;
+    }
+
+    return context;
+};
+
+const parseStatuses = <T extends string>(value: unknown, allowed: readonly T[]): T[] | undefined => {
+    if (typeof value !== 'string' || !value) return undefined;
+    return value.split(',').filter((status): status is T => allowed.includes(status as T));
+};
+
+export const getMyCompany = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const context = await requireCompany(req, res);
+        if (!context) return;
+        const { company } = context;
+
+        const vehicles = await listVehicles(companyVehicleFilter(company._id));
+        const drivers = await Driver.find({ company_id: company._id })
+            .select('fullName phoneNumber photo verificationStatus isSuspended ratingAverage ratingCount');
+        const dispatchers = await Dispatcher.find({ company_id: company._id })
+            .select('fullName email phoneNumber companyRole isSuspended createdAt');
+
+        res.json({
+            message: 'تم استرجاع الشركة بنجاح',
+            company: {
+                id: company._id,
+                name: company.name,
+                email: company.email,
+                phoneNumber: company.phoneNumber,
+                owner_id: company.owner_id,
+                vehicles: vehicles.map(formatDriverVehicle),
+                createdAt: company.createdAt,
+            },
+            drivers,
+            dispatchers,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الشركة',
+            error: error.message,
+        });
+    }
+};
+
+const INVITATION_TTL_DAYS = 7;
+
+const INVITATION_ROLE_LABELS: Record<CompanyInvitationRole, string> = {
+    dispatcher: 'مرسل',
+    driver: 'سائق',
+};
+
+const formatInvitation = (invitation: ICompanyInvitation) => ({
+    id: invitation._id,
+    company_id: invitation.company_id,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitation.status,
+    expires_at: invitation.expires_at,
+    respondedAt: invitation.respondedAt,
+    createdAt: invitation.createdAt,
+});
+
+// The invitation goes to the address whether or not it is registered, so the answer never reveals who has an account.
+const notifyInvitation = async (req: AuthenticatedRequest, invitation: ICompanyInvitation, company: ICompany): Promise<void> => {
+    const title = 'دعوة للانضمام إلى شركة';
+    const message = `دعتك شركة ${company.name} للانضمام إليها بصفة ${INVITATION_ROLE_LABELS[invitation.role]}`;
+
+    try {
+        await sendMessage({
+            channel: 'email',
+            to: invitation.email,
+            subject: title,
+            body: `${message}. سجّل الدخول إلى حسابك لقبول الدعوة أو رفضها قبل انتهاء صلاحيتها.`,
+        });
+    } catch (error) {
+        console.error('Company invitation email error:', error);
+    }
+
+    const account = await findAccountByContact({ email: invitation.email });
+    const recipient = account?.driver_id
+        ? { driver_id: account.driver_id }
+        : account?.router_id
+            ? { user_id: account.router_id }
+            : null;
+    if (!recipient) return;
+
+    await Notification.create({
+        ...recipient,
+        type: 'company_invitation',
+        title,
+        message,
+        is_read: false,
+        metadata: { invitation_id: invitation._id, company_id: company._id, role: invitation.role },
+    });
+
+    if (req.io) {
+        const room = 'driver_id' in recipient ? `driver-${recipient.driver_id}` : `user-${recipient.user_id}`;
+        req.io.to(room).emit('company-invitation', { ...formatInvitation(invitation), company: { id: company._id, name: company.name } });
+        req.io.to(room).emit('new-notification', { title, message });
+    }
+};
+
+const inviteCompanyMember = (role: CompanyInvitationRole) =>
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const context = await requireCompany(req, res, true);
+            if (!context) return;
+
+            const email = String(req.body.email).toLowerCase();
+            if (email === context.dispatcher.email && role === 'dispatcher') {
+                res.status(400).json({ message: 'لا يمكنك دعوة نفسك' });
+                return;
+            }
+
+            const invitation = await CompanyInvitation.findOneAndUpdate(
+                { company_id: context.company._id, email, role, status: 'Pending' },
+                {
+                    $set: {
+                        invited_by: context.dispatcher._id,
+                        expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+                    },
+                },
+                { upsert: true, new: true, setDefaultsOnInsert: true }
+            );
+
+            await notifyInvitation(req, invitation, context.company);
+
+            res.status(201).json({
+                message: 'تم إرسال الدعوة، وستتم الإضافة بعد قبولها',
+                invitation: formatInvitation(invitation),
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                message: 'خطأ في إرسال الدعوة',
+                error: error.message,
+            });
+        }
+    };
+
+export const inviteCompanyDispatcher = inviteCompanyMember('dispatcher');
+export const inviteCompanyDriver = inviteCompanyMember('driver');
+
+export const getCompanyInvitations = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const context = await requireCompany(req, res, true);
+        if (!context) return;
+
+        const invitations = await CompanyInvitation.find({ company_id: context.company._id })
+            .sort({ createdAt: -1 })
+            .limit(100);
+
+        res.json({
+            message: 'تم استرجاع الدعوات بنجاح',
+            invitations: invitations.map(formatInvitation),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الدعوات',
+            error: error.message,
+        });
+    }
+};
+
+export const cancelCompanyInvitation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const context = await requireCompany(req, res, true);
+        if (!context) return;
+
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            res.status(400).json({ message: 'معرف الدعوة غير صالح' });
+            return;
+        }
+
+        const invitation = await CompanyInvitation.findOneAndUpdate(
+            { _id: req.params.id, company_id: context.company._id, status: 'Pending' },
+            { $set: { status: 'Cancelled', respondedAt: new Date() } },
+            { new: true }
+        );
+        if (!invitation) {
+            res.status(404).json({ message: 'الدعوة غير موجودة أو تمت الإجابة عليها' });
+            return;
+        }
+
+        res.json({
+            message: 'تم إلغاء الدعوة بنجاح',
+            invitation: formatInvitation(invitation),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إلغاء الدعوة',
+            error: error.message,
+        });
+    }
+};
+
+export const removeCompanyDispatcher = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const context = await requireCompany(req, res, true);
+        if (!context) return;
+
+        const dispatcherId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(dispatcherId)) {
+            res.status(400).json({ message: 'معرف المرسل غير صالح' });
+            return;
+        }
+
+        const dispatcher = await Dispatcher.findOne({ _id: dispatcherId, company_id: context.company._id });
+        if (!dispatcher) {
+            res.status(404).json({ message: 'المرسل غير موجود' });
+            return;
+        }
+
+        if (dispatcher.companyRole === 'owner') {
+            res.status(400).json({ message: 'لا يمكن إزالة مالك الشركة' });
+            return;
+        }
+
+        await dispatcher.deleteOne();
+        await Account.updateOne({ _id: dispatcher.account_id }, { $unset: { dispatcher_id: 1 } });
+        await revokeAllSessions(dispatcher._id, 'dispatcher', 'removed_from_company');
+
+        if (req.io) {
+            closeRoomSockets(req.io, `dispatcher-${dispatcher._id}`, 'session-revoked', {
+                message: 'تمت إزالتك من الشركة',
+            });
+        }
+
+        res.json({ message: 'تمت إزالة المرسل من الشركة بنجاح' });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إزالة المرسل',
+            error: error.message,
+        });
+    }
+};
+
+export const removeCompanyDriver = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const context = await requireCompany(req, res, true);
+        if (!context) return;
+        const { company } = context;
+
+        const driverId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(driverId)) {
+            res.status(400).json({ message: 'معرف السائق غير صالح' });
+            return;
+        }
+
+        const activeOrder = await Order.exists({
+            company_id: company._id,
+            driver_id: driverId,
+            status: { $in: IN_PROGRESS_ORDER_STATUSES },
+        });
+        if (activeOrder) {
+            res.status(400).json({ message: 'لا يمكن إزالة سائق لديه طلب قيد التنفيذ لصالح الشركة' });
+            return;
+        }
+
+        const driver = await Driver.findOneAndUpdate(
+            { _id: driverId, company_id: company._id },
+            { $unset: { company_id: 1 } },
+            { new: true }
+        );
+        if (!driver) {
+            res.status(404).json({ message: 'السائق غير موجود في هذه الشركة' });
+            return;
+        }
+
+        await DriverVehicle.updateMany(
+            { company_id: company._id, driver_id: driver._id },
+            { $unset: { driver_id: 1 } }
+        );
+
+        res.json({ message: 'تمت إزالة السائق من الشركة بنجاح' });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إزالة السائق',
+            error: error.message,
+        });
+    }
+};
+
+const checkCompanyVehicleData = async (company: ICompany, data: CompanyVehicleData): Promise<string | null> => {
+    if (data.vehicleTypeId && !(await Vehicle.exists({ _id: data.vehicleTypeId }))) {
+        return 'نوع المركبة غير موجود';
+    }
+    if (data.driver_id && !(await Driver.exists({ _id: data.driver_id, company_id: company._id }))) {
+        return 'السائق غير موجود في هذه الشركة';
+    }
+    return null;
+};
+
+const findInvitedAccount = async (req: AuthenticatedRequest, res: Response): Promise<IAccount | null> => {
+    const { id, role } = req.user!;
+    const account = isAccountRole(role) ? await findAccountByProfile(id, role) : null;
+    if (!account) {
+        res.status(403).json({ message: 'غير مصرح: الدعوات متاحة لأصحاب الحسابات فقط' });
+        return null;
+    }
+    return account;
+};
+
+const openInvitationFilter = (account: IAccount) => ({
+    email: account.email,
+    status: 'Pending',
+    expires_at: { $gt: new Date() },
+});
+
+export const getMyInvitations = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const account = await findInvitedAccount(req, res);
+        if (!account) return;
+
+        const invitations = await CompanyInvitation.find(openInvitationFilter(account))
+            .populate('company_id', 'name')
+            .sort({ createdAt: -1 });
+
+        res.json({
+            message: 'تم استرجاع الدعوات بنجاح',
+            invitations: invitations.map((invitation) => {
+                const company = invitation.company_id as unknown as ICompany;
+                return {
+                    ...formatInvitation(invitation),
+                    company_id: company._id,
+                    company: { id: company._id, name: company.name },
+                };
+            }),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الدعوات',
+            error: error.message,
+        });
+    }
+};
+
+// Joins the company the way the invitation says; answers itself and returns false when the account cannot.
+const joinCompany = async (res: Response, account: IAccount, invitation: ICompanyInvitation): Promise<boolean> => {
+    if (invitation.role === 'dispatcher') {
+        if (account.dispatcher_id) {
+            res.status(400).json({ message: 'هذا الحساب مرتبط بشركة بالفعل' });
+            return false;
+        }
+
+        const dispatcher = await Dispatcher.create({
+            account_id: account._id,
+            company_id: invitation.company_id,
+            companyRole: 'dispatcher',
+            fullName: account.fullName,
+            email: account.email,
+            phoneNumber: account.phoneNumber,
+        });
+        await linkProfile(account, 'dispatcher', dispatcher._id);
+        return true;
+    }
+
+    if (!account.driver_id) {
+        res.status(400).json({ message: 'يجب أن يكون لديك ملف سائق لقبول هذه الدعوة' });
+        return false;
+    }
+
+    const driver = await Driver.findOneAndUpdate(
+        { _id: account.driver_id, company_id: { $exists: false } },
+        { $set: { company_id: invitation.company_id } }
+    );
+    if (!driver) {
+        res.status(400).json({ message: 'أنت مرتبط بشركة بالفعل' });
+        return false;
+    }
+    return true;
+};
+
+const respondToInvitation = (accept: boolean) =>
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            const account = await findInvitedAccount(req, res);
+            if (!account) return;
+
+            if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+                res.status(400).json({ message: 'معرف الدعوة غير صالح' });
+                return;
+            }
+
+            // Claiming the invitation first means a double submit cannot join twice.
+            const invitation = await CompanyInvitation.findOneAndUpdate(
+                { _id: req.params.id, ...openInvitationFilter(account) },
+                { $set: { status: accept ? 'Accepted' : 'Declined', account_id: account._id, respondedAt: new Date() } },
+                { new: true }
+            );
+            if (!invitation) {
+                res.status(404).json({ message: 'الدعوة غير موجودة أو منتهية الصلاحية' });
+                return;
+            }
+
+            if (accept && !(await joinCompany(res, account, invitation))) {
+                await CompanyInvitation.updateOne(
+                    { _id: invitation._id },
+                    { $set: { status: 'Pending' }, $unset: { account_id: 1, respondedAt: 1 } }
+                );
+                return;
+            }
+
+            const title = accept ? 'تم قبول دعوة الشركة' : 'تم رفض دعوة الشركة';
+            const message = `${accept ? 'قبل' : 'رفض'} ${account.fullName} الانضمام بصفة ${INVITATION_ROLE_LABELS[invitation.role]}`;
+            await Notification.create({
+                company_id: invitation.company_id,
+                type: 'company_invitation',
+                title,
+                message,
+                is_read: false,
+                metadata: { invitation_id: invitation._id, role: invitation.role, status: invitation.status },
+            });
+            if (req.io) {
+                req.io.to(`company-${invitation.company_id}`).emit('company-invitation-answered', formatInvitation(invitation));
+                req.io.to(`company-${invitation.company_id}`).emit('new-notification', { title, message });
+            }
+
+            res.json({
+                message: accept ? 'تم قبول الدعوة والانضمام إلى الشركة بنجاح' : 'تم رفض الدعوة',
+                invitation: formatInvitation(invitation),
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                message: 'خطأ في الرد على الدعوة',
+                error: error.message,
+            });
+        }
+    };
+
+export const acceptCompanyInvitation = respondToInvitation(true);
+export const declineCompanyInvitation = respondToInvitation(false);
+
+export const addCompanyVehicle = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const context = await requireCompany(req, res, true);
+        if (!context) return;
+        const { company } = context;
+
+        const data: CompanyVehicleData = req.body;
+        const invalid = await checkCompanyVehicleData(company, data);
+        if (invalid) {
+            res.status(400).json({ message: invalid });
+            return;
+        }
+
+        const vehicle = await DriverVehicle.create({
+            company_id: company._id,
+            driver_id: data.driver_id || undefined,
+            plateNumber: data.plateNumber,
+            vehicleType: data.vehicleTypeId,
+            capacityKg: data.capacityKg,
+            isActive: true,
+        });
+
+        res.status(201).json({
+            message: 'تمت إضافة المركبة بنجاح',
+            vehicle: formatDriverVehicle(vehicle),
+        });
+    } catch (error: any) {
+        if (error.code === 11000) {
+            res.status(400).json({ message: 'رقم اللوحة مستخدم بالفعل' });
+            return;
+        }
+        res.status(500).json({
+            message: 'خطأ في إضافة المركبة',
+            error: error.message,
+        });
+    }
+};
+
+export const updateCompanyVehicle = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const context = await requireCompany(req, res, true);
+        if (!context) return;
+        const { company } = context;
+
+        const vehicle = mongoose.Types.ObjectId.isValid(req.params.vehicleId)
+            ? await DriverVehicle.findOne({ _id: req.params.vehicleId, company_id: company._id })
+            : null;
+        if (!vehicle) {
+            res.status(404).json({ message: 'المركبة غير موجودة' });
+            return;
+        }
+
+        const data: CompanyVehicleData = req.body;
+        const invalid = await checkCompanyVehicleData(company, data);
+        if (invalid) {
+            res.status(400).json({ message: invalid });
+            return;
+        }
+
+        if (data.plateNumber) vehicle.plateNumber = data.plateNumber;
+        if (data.vehicleTypeId) vehicle.vehicleType = new mongoose.Types.ObjectId(data.vehicleTypeId);
+        if (data.capacityKg !== undefined) vehicle.capacityKg = data.capacityKg;
+        if (data.driver_id !== undefined) {
+            vehicle.driver_id = data.driver_id ? new mongoose.Types.ObjectId(data.driver_id) : undefined;
+        }
+        if (data.isActive !== undefined) vehicle.isActive = data.isActive;
+        await vehicle.save();
+
+        res.json({
+            message: 'تم تحديث المركبة بنجاح',
+            vehicle: formatDriverVehicle(vehicle),
+        });
+    } catch (error: any) {
+        if (error.code === 11000) {
+            res.status(400).json({ message: 'رقم اللوحة مستخدم بالفعل' });
+            return;
+        }
+        res.status(500).json({
+            message: 'خطأ في تحديث المركبة',
+            error: error.message,
+        });
+    }
+};
+
+export const getCompanyAvailableOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const context = await requireCompany(req, res);
+        if (!context) return;
+
+        const { page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+        const vehicleMatch = await buildOrderMatchForVehicles(companyVehicleFilter(context.company._id));
+
+        const filter = {
+            status: { $in: OPEN_ORDER_STATUSES },
+            ...vehicleMatch,
+            date_time_transport: { $gt: new Date() },
+        };
+        const orders = await Order.find(filter)
+            .sort({ date_time_transport: 1 })
+            .limit(Number(limit))
+            .skip((Number(page) - 1) * Number(limit))
+            .populate('vehicle_type')
+            .populate('customer_id', 'fullName ratingAverage ratingCount');
+        const total = await Order.countDocuments(filter);
+
+        const companyOffers = await Offer.find({
+            company_id: context.company._id,
+            order_id: { $in: orders.map((order) => order._id) },
+        }).select('order_id status price');
+
+        res.json({
+            message: 'تم استرجاع الطلبات المتاحة بنجاح',
+            orders: orders.map((order) => ({
+                ...order.toObject(),
+                id: order._id,
+                company_offer: companyOffers.find((offer) => offer.order_id.toString() === order._id.toString()),
+            })),
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+            currentPage: Number(page),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الطلبات المتاحة',
+            error: error.message,
+        });
+    }
+};
+
+export const getCompanyOffers = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const context = await requireCompany(req, res);
+        if (!context) return;
+
+        const { page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+        const statuses = parseStatuses<OfferStatus>(req.query.status, [
+            'Accepted', 'Rejected', 'Pending', 'Expired', 'Offered', 'Countered', 'Withdrawn',
+        ]);
+        const filter = {
+            company_id: context.company._id,
+            ...(statuses ? { status: { $in: statuses } } : {}),
+        };
+
+        const offers = await Offer.find(filter)
+            .sort({ updatedAt: -1 })
+            .limit(Number(limit))
+            .skip((Number(page) - 1) * Number(limit))
+            .populate({
+                path: 'order_id',
+                populate: { path: 'customer_id', select: 'fullName ratingAverage ratingCount' },
+            })
+            .populate('dispatcher_id', 'fullName')
+            .populate('driver_id', 'fullName phoneNumber');
+        const total = await Offer.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع عروض الشركة بنجاح',
+            offers: offers.map((offer) => ({
+                id: offer._id,
+                order_id: offer.order_id,
+                dispatcher_id: offer.dispatcher_id,
+                driver_id: offer.driver_id,
+                price: offer.price,
+                notes: offer.notes,
+                status: offer.status,
+                negotiation: offer.negotiation,
+                expires_at: offer.expires_at,
+                createdAt: offer.createdAt,
+                updatedAt: offer.updatedAt,
+            })),
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+            currentPage: Number(page),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع عروض الشركة',
+            error: error.message,
+        });
+    }
+};
+
+export const getCompanyOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const context = await requireCompany(req, res);
+        if (!context) return;
+
+        const { page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+        const statuses = parseStatuses<OrderStatus>(req.query.status, ORDER_STATUSES) || IN_PROGRESS_ORDER_STATUSES;
+        const filter = { company_id: context.company._id, status: { $in: statuses } };
+
+        const orders = await Order.find(filter)
+            .sort({ date_time_transport: 1 })
+            .limit(Number(limit))
+            .skip((Number(page) - 1) * Number(limit))
+            .populate('vehicle_type')
+            .populate('customer_id', 'fullName phoneNumber ratingAverage ratingCount')
+            .populate('driver_id', 'fullName phoneNumber');
+        const total = await Order.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع طلبات الشركة بنجاح',
+            orders: orders.map((order) => ({
+                ...order.toObject(),
+                id: order._id,
+                needs_driver: !order.driver_id,
+            })),
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+            currentPage: Number(page),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع طلبات الشركة',
+            error: error.message,
+        });
+    }
+};
+
+export const assignOrderDriver = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const context = await requireCompany(req, res);
+        if (!context) return;
+        const { company } = context;
+
+        const orderId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            res.status(400).json({ message: 'معرف الطلب غير صالح' });
+            return;
+        }
+
+        const driver = await Driver.findOne({ _id: req.body.driver_id, company_id: company._id });
+        if (!driver) {
+            res.status(404).json({ message: 'السائق غير موجود في هذه الشركة' });
+            return;
+        }
+
+        if (driver.isSuspended || driver.verificationStatus !== 'approved') {
+            res.status(400).json({ message: 'يجب أن يكون السائق موثقًا وغير موقوف لتعيينه على طلب' });
+            return;
+        }
+
+        // Reassignment is possible until the load is picked up.
+        const order = await Order.findOneAndUpdate(
+            { _id: orderId, company_id: company._id, status: 'Active' },
+            { $set: { driver_id: driver._id } }
+        );
+        if (!order) {
+            res.status(404).json({ message: 'الطلب غير موجود أو لا يمكن تعيين سائق له في حالته الحالية' });
+            return;
+        }
+
+        const previousDriverId = order.driver_id;
+        await Offer.updateOne(
+            { order_id: order._id, company_id: company._id, status: 'Accepted' },
+            { $set: { driver_id: driver._id } }
+        );
+
+        const title = 'تم تعيين سائق للطلب';
+        await Notification.insertMany([
+            {
+                driver_id: driver._id,
+                order_id: order._id,
+                type: 'driver_assigned',
+                title: 'تم تعيينك على طلب',
+                message: `عينتك شركة ${company.name} على طلب نقل`,
+                is_read: false,
+            },
+            {
+                user_id: order.customer_id,
+                order_id: order._id,
+                type: 'driver_assigned',
+                title,
+                message: `عينت شركة ${company.name} السائق ${driver.fullName} لطلبك`,
+                is_read: false,
+                metadata: { driver_id: driver._id },
+            },
+        ]);
+
+        const updatedOrder = await Order.findById(order._id)
+            .populate('vehicle_type')
+            .populate('driver_id', 'fullName phoneNumber photo');
+
+        if (req.io) {
+            const payload = { message: title, order: updatedOrder };
+            req.io.to(`driver-${driver._id}`).emit('order-assigned', payload);
+            req.io.to(`user-${order.customer_id}`).emit('order-driver-assigned', payload);
+            req.io.to(`company-${company._id}`).emit('order-driver-assigned', payload);
+            req.io.to(`order-${order._id}`).emit('order-driver-assigned', payload);
+            if (previousDriverId && previousDriverId.toString() !== driver._id.toString()) {
+                req.io.to(`driver-${previousDriverId}`).emit('order-unassigned', {
+                    message: 'تم تعيين سائق آخر على الطلب',
+                    order_id: order._id,
+                });
+            }
+        }
+
+        res.json({
+            message: 'تم تعيين السائق بنجاح',
+            order: updatedOrder,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في تعيين السائق',
+            error: error.message,
+        });
+    }
+};
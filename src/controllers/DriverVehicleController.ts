@@ -0,0 +1,258 @@
+import { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import DriverVehicle, { IDriverVehicle } from '../models/DriverVehicle';
+import Offer, { OPEN_OFFER_STATUSES } from '../models/Offer';
+import Order from '../models/Order';
+import Vehicle from '../models/Vehicle';
+import { deleteFromCloudinary, uploadToCloudinary } from '../utils/cloudinary';
+import { formatDriverVehicle, listVehicles, personalVehicleFilter } from '../utils/driverVehicle';
+import { IN_PROGRESS_ORDER_STATUSES } from '../utils/orderLifecycle';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+    io?: SocketIOServer;
+}
+
+interface DriverVehicleData {
+    plateNumber?: string;
+    vehicleTypeId?: string;
+    capacityKg?: number;
+    isActive?: boolean;
+}
+
+const DRIVER_VEHICLES_FOLDER = 'driver-vehicles';
+export const MAX_VEHICLE_PHOTOS = 6;
+
+export const validateDriverVehicleCreate = [
+    body('plateNumber').trim().notEmpty().withMessage('رقم اللوحة مطلوب'),
+    body('vehicleTypeId').isMongoId().withMessage('معرف نوع المركبة غير صالح'),
+    body('capacityKg').optional().isFloat({ min: 0 }).withMessage('يجب أن تكون الحمولة رقمًا موجبًا').toFloat(),
+];
+
+export const validateDriverVehicleUpdate = [
+    body('plateNumber').optional().trim().notEmpty().withMessage('لا يمكن أن يكون رقم اللوحة فارغًا'),
+    body('vehicleTypeId').optional().isMongoId().withMessage('معرف نوع المركبة غير صالح'),
+    body('capacityKg').optional().isFloat({ min: 0 }).withMessage('يجب أن تكون الحمولة رقمًا موجبًا').toFloat(),
+    body('isActive').optional().isBoolean().withMessage('قيمة التفعيل غير صالحة').toBoolean(),
+];
+
+const uploadedFiles = (req: Request): Express.Multer.File[] =>
+    Array.isArray(req.files) ? req.files : [];
+
+const uploadVehiclePhotos = async (files: Express.Multer.File[]) => {
+    const photos: { url: string; publicId: string; uploadedAt: Date }[] = [];
+    try {
+        for (const file of files) {
+            const uploadResult = await uploadToCloudinary(file, DRIVER_VEHICLES_FOLDER);
+            photos.push({ url: uploadResult.secure_url, publicId: uploadResult.public_id, uploadedAt: new Date() });
+        }
+        return photos;
+    } catch (error) {
+        await deleteVehiclePhotos(photos);
+        throw error;
+    }
+};
+
+const deleteVehiclePhotos = async (photos: { publicId: string }[]): Promise<void> => {
+    for (const photo of photos) {
+        try {
+            await deleteFromCloudinary(photo.publicId);
+        } catch (deleteError) {
+            console.error('Error cleaning up vehicle photo:', deleteError);
+        }
+    }
+};
+
+const findOwnVehicle = (req: AuthenticatedRequest): Promise<IDriverVehicle | null> | null => {
+    const vehicleId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(vehicleId)) return null;
+    return DriverVehicle.findOne({ _id: vehicleId, ...personalVehicleFilter(req.user!.id) });
+};
+
+export const getMyVehicles = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const vehicles = await listVehicles(personalVehicleFilter(req.user!.id));
+
+        res.json({
+            message: 'تم استرجاع المركبات بنجاح',
+            vehicles: vehicles.map(formatDriverVehicle),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع المركبات',
+            error: error.message,
+        });
+    }
+};
+
+export const addDriverVehicle = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    let photos: { url: string; publicId: string; uploadedAt: Date }[] = [];
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { plateNumber, vehicleTypeId, capacityKg }: DriverVehicleData = req.body;
+
+        if (await DriverVehicle.exists({ plateNumber })) {
+            res.status(400).json({ message: 'رقم اللوحة مستخدم بالفعل' });
+            return;
+        }
+
+        if (!(await Vehicle.exists({ _id: vehicleTypeId }))) {
+            res.status(400).json({ message: 'نوع المركبة غير موجود' });
+            return;
+        }
+
+        photos = await uploadVehiclePhotos(uploadedFiles(req));
+
+        const vehicle = await DriverVehicle.create({
+            driver_id: req.user!.id,
+            plateNumber,
+            vehicleType: vehicleTypeId,
+            capacityKg,
+            photos,
+        });
+        await vehicle.populate('vehicleType');
+
+        res.status(201).json({
+            message: 'تمت إضافة المركبة بنجاح',
+            vehicle: formatDriverVehicle(vehicle),
+        });
+    } catch (error: any) {
+        console.error('Add driver vehicle error:', error);
+        await deleteVehiclePhotos(photos);
+        if (error.code === 11000) {
+            res.status(400).json({ message: 'رقم اللوحة مستخدم بالفعل' });
+            return;
+        }
+        res.status(500).json({
+            message: 'خطأ في إضافة المركبة',
+            error: error.message,
+        });
+    }
+};
+
+export const updateDriverVehicle = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    let photos: { url: string; publicId: string; uploadedAt: Date }[] = [];
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const vehicle = await findOwnVehicle(req);
+        if (!vehicle) {
+            res.status(404).json({ message: 'المركبة غير موجودة' });
+            return;
+        }
+
+        const { plateNumber, vehicleTypeId, capacityKg, isActive }: DriverVehicleData = req.body;
+
+        if (plateNumber && plateNumber !== vehicle.plateNumber
+            && await DriverVehicle.exists({ plateNumber, _id: { $ne: vehicle._id } })) {
+            res.status(400).json({ message: 'رقم اللوحة مستخدم بالفعل' });
+            return;
+        }
+
+        if (vehicleTypeId && !(await Vehicle.exists({ _id: vehicleTypeId }))) {
+            res.status(400).json({ message: 'نوع المركبة غير موجود' });
+            return;
+        }
+
+        const files = uploadedFiles(req);
+        if (vehicle.photos.length + files.length > MAX_VEHICLE_PHOTOS) {
+            res.status(400).json({ message: `يمكن رفع ${MAX_VEHICLE_PHOTOS} صور كحد أقصى للمركبة` });
+            return;
+        }
+        photos = await uploadVehiclePhotos(files);
+
+        if (plateNumber) vehicle.plateNumber = plateNumber;
+        if (vehicleTypeId) vehicle.vehicleType = new mongoose.Types.ObjectId(vehicleTypeId);
+        if (capacityKg !== undefined) vehicle.capacityKg = capacityKg;
+        if (isActive !== undefined) vehicle.isActive = isActive;
+        photos.forEach((photo) => vehicle.photos.push(photo));
+        await vehicle.save();
+        await vehicle.populate('vehicleType');
+
+        res.json({
+            message: 'تم تحديث المركبة بنجاح',
+            vehicle: formatDriverVehicle(vehicle),
+        });
+    } catch (error: any) {
+        console.error('Update driver vehicle error:', error);
+        await deleteVehiclePhotos(photos);
+        if (error.code === 11000) {
+            res.status(400).json({ message: 'رقم اللوحة مستخدم بالفعل' });
+            return;
+        }
+        res.status(500).json({
+            message: 'خطأ في تحديث المركبة',
+            error: error.message,
+        });
+    }
+};
+
+export const deleteDriverVehiclePhoto = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const vehicle = await findOwnVehicle(req);
+        const photo = vehicle && mongoose.Types.ObjectId.isValid(req.params.photoId)
+            ? vehicle.photos.id(req.params.photoId)
+            : null;
+        if (!vehicle || !photo) {
+            res.status(404).json({ message: 'الصورة غير موجودة' });
+            return;
+        }
+
+        const { publicId } = photo;
+        vehicle.photos.pull(photo._id);
+        await vehicle.save();
+        await deleteVehiclePhotos([{ publicId }]);
+
+        res.json({
+            message: 'تم حذف الصورة بنجاح',
+            vehicle: formatDriverVehicle(vehicle),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في حذف الصورة',
+            error: error.message,
+        });
+    }
+};
+
+export const deleteDriverVehicle = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const vehicle = await findOwnVehicle(req);
+        if (!vehicle) {
+            res.status(404).json({ message: 'المركبة غير موجودة' });
+            return;
+        }
+
+        const inUse = await Offer.exists({ vehicle_id: vehicle._id, status: { $in: OPEN_OFFER_STATUSES } })
+            || await Order.exists({ vehicle_id: vehicle._id, status: { $in: IN_PROGRESS_ORDER_STATUSES } });
+        if (inUse) {
+            res.status(400).json({ message: 'لا يمكن حذف مركبة مرتبطة بعرض مفتوح أو طلب قيد التنفيذ، يمكنك إيقافها بدلًا من ذلك' });
+            return;
+        }
+
+        await vehicle.deleteOne();
+        await deleteVehiclePhotos(vehicle.photos);
+
+        res.json({ message: 'تم حذف المركبة بنجاح' });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في حذف المركبة',
+            error: error.message,
+        });
+    }
+};
@@ -0,0 +1,346 @@
+import { Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import DriverVehicle from '../models/DriverVehicle';
+import Notification from '../models/Notification';
+import Offer from '../models/Offer';
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import Payout, { PAYOUT_STATUSES } from '../models/Payout';
+import { PRICING_CURRENCY } from '../utils/pricing';
+import { approvePayout, availablePaymentsFilter, rejectPayout, requestDriverPayout } from '../utils/payouts';
+import { SCHEDULE_TIMEZONE } from '../utils/recurrence';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+    io?: SocketIOServer;
+}
+
+const EARNINGS_PERIODS = ['day', 'week', 'month'] as const;
+const EARNINGS_TIMEZONE = process.env.EARNINGS_TIMEZONE || SCHEDULE_TIMEZONE;
+const TOP_ROUTES_LIMIT = 20;
+
+export const validateEarningsQuery = [
+    query('period').optional().isIn(EARNINGS_PERIODS).withMessage('الفترة يجب أن تكون day أو week أو month'),
+    query('from').optional().isISO8601().withMessage('تاريخ البداية غير صالح'),
+    query('to').optional().isISO8601().withMessage('تاريخ النهاية غير صالح'),
+];
+
+export const validatePayoutRequest = [
+    body('payment_ids').optional().isArray({ min: 1 }).withMessage('يجب أن تكون المدفوعات مصفوفة غير فارغة'),
+    body('payment_ids.*').isMongoId().withMessage('معرف الدفعة غير صالح'),
+];
+
+export const validatePayoutSearch = [
+    query('status').optional().isIn(PAYOUT_STATUSES).withMessage('حالة طلب السحب غير صالحة'),
+    query('page').optional().isInt({ min: 1 }).withMessage('رقم الصفحة غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('يجب أن يكون الحد بين 1 و 100'),
+];
+
+export const validatePayoutReview = [
+    body('note').optional().trim().isLength({ max: 500 }).withMessage('يجب ألا تتجاوز الملاحظة 500 حرف'),
+];
+
+export const validatePayoutReject = [
+    body('reason')
+        .trim()
+        .notEmpty()
+        .withMessage('سبب الرفض مطلوب')
+        .isLength({ max: 500 })
+        .withMessage('يجب ألا يتجاوز سبب الرفض 500 حرف'),
+];
+
+// A payment being settled is still in escrow until the provider answers.
+const isHeld = { $in: ['$status', ['Held', 'Settling']] };
+const isCaptured = { $eq: ['$status', 'Captured'] };
+
+// Totals shared by every grouping: what the driver keeps is the payee amount after commission.
+const earningTotals = {
+    accepted: { $sum: 1 },
+    completed: { $sum: { $cond: [isCaptured, 1, 0] } },
+    gross: { $sum: '$amount' },
+    commission: { $sum: '$commission_amount' },
+    net: { $sum: '$payee_amount' },
+    pending: { $sum: { $cond: [isHeld, '$payee_amount', 0] } },
+    earned: { $sum: { $cond: [isCaptured, '$payee_amount', 0] } },
+};
+
+const roundTotals = <T extends Record<string, any>>(entry: T) => Object.fromEntries(
+    Object.entries(entry).map(([key, value]) => [key, typeof value === 'number' ? Math.round(value * 100) / 100 : value])
+) as T;
+
+/**
+ * Accepted offers count once their payment is held and completed ones once it is captured.
+ * Totals follow the requested date range; the balance always covers everything to date.
+ */
+export const getMyEarnings = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        if (role !== 'driver') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للسائقين فقط الوصول إلى أرباحهم' });
+            return;
+        }
+
+        const period = (req.query.period as typeof EARNINGS_PERIODS[number]) || 'month';
+        const range = req.query as Record<string, string | undefined>;
+        const from = range.from ? new Date(range.from) : undefined;
+        const to = range.to ? new Date(range.to) : undefined;
+        const driverId = new mongoose.Types.ObjectId(id);
+        const match = {
+            driver_id: driverId,
+            company_id: { $exists: false },
+            status: { $in: ['Held', 'Settling', 'Captured'] },
+            ...(from || to ? { heldAt: { ...(from ? { $gte: from } : {}), ...(to ? { $lte: to } : {}) } } : {}),
+        };
+
+        const [result] = await Payment.aggregate([
+            { $match: match },
+            {
+                $facet: {
+                    summary: [{ $group: { _id: null, ...earningTotals } }],
+                    periods: [
+                        {
+                            $group: {
+                                _id: { $dateTrunc: { date: '$heldAt', unit: period, timezone: EARNINGS_TIMEZONE, startOfWeek: 'sunday' } },
+                                ...earningTotals,
+                            },
+                        },
+                        { $sort: { _id: 1 } },
+                    ],
+                    by_vehicle: [
+                        { $lookup: { from: Offer.collection.name, localField: 'offer_id', foreignField: '_id', as: 'offer' } },
+                        { $group: { _id: { $first: '$offer.vehicle_id' }, ...earningTotals } },
+                        { $sort: { net: -1 } },
+                    ],
+                    by_route: [
+                        { $lookup: { from: Order.collection.name, localField: 'order_id', foreignField: '_id', as: 'order' } },
+                        {
+                            $group: {
+                                _id: { from_location: { $first: '$order.from_location' }, to_location: { $first: '$order.to_location' } },
+                                ...earningTotals,
+                            },
+                        },
+                        { $sort: { net: -1 } },
+                        { $limit: TOP_ROUTES_LIMIT },
+                    ],
+                },
+            },
+        ]);
+
+        const [balance] = await Payment.aggregate([
+            { $match: { driver_id: driverId, company_id: { $exists: false }, status: { $in: ['Held', 'Settling', 'Captured'] } } },
+            {
+                $group: {
+                    _id: null,
+                    in_escrow: { $sum: { $cond: [isHeld, '$payee_amount', 0] } },
+                    available: { $sum: { $cond: [{ $and: [isCaptured, { $not: [{ $ifNull: ['$payout_id', false] }] }] }, '$payee_amount', 0] } },
+                    requested: {
+                        $sum: {
+                            $cond: [
+                                { $and: [{ $ifNull: ['$payout_id', false] }, { $not: [{ $ifNull: ['$paidOutAt', false] }] }] },
+                                '$payee_amount',
+                                0,
+                            ],
+                        },
+                    },
+                    paid: { $sum: { $cond: [{ $ifNull: ['$paidOutAt', false] }, '$payee_amount', 0] } },
+                },
+            },
+        ]);
+
+        const vehicles = await DriverVehicle.find({ _id: { $in: result.by_vehicle.map((entry: any) => entry._id).filter(Boolean) } })
+            .select('plateNumber vehicleType')
+            .populate('vehicleType', 'type category');
+        const vehiclesById = new Map(vehicles.map((vehicle) => [vehicle._id.toString(), vehicle]));
+
+        const { _id: _summaryId, ...summary } = result.summary[0] || {
+            _id: null, accepted: 0, completed: 0, gross: 0, commission: 0, net: 0, pending: 0, earned: 0,
+        };
+        const { _id: _balanceId, ...balanceTotals } = balance || { _id: null, in_escrow: 0, available: 0, requested: 0, paid: 0 };
+
+        res.json({
+            message: 'تم استرجاع الأرباح بنجاح',
+            currency: PRICING_CURRENCY,
+            period,
+            from: from || null,
+            to: to || null,
+            summary: roundTotals(summary),
+            balance: {
+                ...roundTotals(balanceTotals),
+                // Escrow and requested amounts are still on their way; paid has left the platform.
+                pending: Math.round((balanceTotals.in_escrow + balanceTotals.available + balanceTotals.requested) * 100) / 100,
+            },
+            periods: result.periods.map(({ _id, ...totals }: any) => ({ period_start: _id, ...roundTotals(totals) })),
+            by_vehicle: result.by_vehicle.map(({ _id, ...totals }: any) => ({
+                vehicle_id: _id || null,
+                vehicle: _id ? vehiclesById.get(_id.toString()) || null : null,
+                ...roundTotals(totals),
+            })),
+            by_route: result.by_route.map(({ _id, ...totals }: any) => ({ ..._id, ...roundTotals(totals) })),
+        });
+    } catch (error: any) {
+        console.error('Get earnings error:', error);
+        res.status(500).json({
+            message: 'خطأ في استرجاع الأرباح',
+            error: error.message,
+        });
+    }
+};
+
+export const getMyPayouts = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, role } = req.user!;
+        if (role !== 'driver') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للسائقين فقط الوصول إلى طلبات السحب' });
+            return;
+        }
+
+        const payouts = await Payout.find({ driver_id: id }).sort({ createdAt: -1 });
+        const available = await Payment.find(availablePaymentsFilter(id))
+            .select('order_id offer_id payee_amount capturedAt')
+            .sort({ capturedAt: 1 });
+
+        res.json({
+            message: 'تم استرجاع طلبات السحب بنجاح',
+            payouts,
+            available_payments: available,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع طلبات السحب',
+            error: error.message,
+        });
+    }
+};
+
+export const requestPayout = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        if (role !== 'driver') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للسائقين فقط طلب سحب الأرباح' });
+            return;
+        }
+
+        const payout = await requestDriverPayout(id, req.body.payment_ids);
+
+        res.status(201).json({
+            message: 'تم إرسال طلب السحب بنجاح',
+            payout,
+        });
+    } catch (error: any) {
+        console.error('Request payout error:', error);
+        res.status(error.status || 500).json({
+            message: error.status ? error.message : 'خطأ في إرسال طلب السحب',
+            error: error.status ? undefined : error.message,
+        });
+    }
+};
+
+export const listPayouts = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { status, page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+        const filter: any = status ? { status } : {};
+
+        const payouts = await Payout.find(filter)
+            .populate('driver_id', 'fullName phoneNumber')
+            .sort({ createdAt: status === 'Requested' ? 1 : -1 })
+            .limit(Number(limit))
+            .skip((Number(page) - 1) * Number(limit));
+        const total = await Payout.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع طلبات السحب بنجاح',
+            payouts,
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+            currentPage: Number(page),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع طلبات السحب',
+            error: error.message,
+        });
+    }
+};
+
+const reviewPayout = (decision: 'approve' | 'reject') =>
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const payoutId = req.params.id;
+            if (!mongoose.Types.ObjectId.isValid(payoutId)) {
+                res.status(400).json({ message: 'معرف طلب السحب غير صالح' });
+                return;
+            }
+
+            const payout = await Payout.findById(payoutId);
+            if (!payout) {
+                res.status(404).json({ message: 'طلب السحب غير موجود' });
+                return;
+            }
+
+            const updated = decision === 'approve'
+                ? await approvePayout(payout, req.user!.id, req.body.note)
+                : await rejectPayout(payout, req.user!.id, req.body.reason);
+
+            const title = decision === 'approve' ? 'تم تحويل أرباحك' : 'تم رفض طلب السحب';
+            const message = decision === 'approve'
+                ? `تم تحويل مبلغ ${updated.amount} ${updated.currency} إلى حسابك`
+                : `تم رفض طلب سحب مبلغ ${updated.amount} ${updated.currency}: ${updated.rejection_reason}`;
+            await Notification.create({
+                driver_id: updated.driver_id,
+                type: decision === 'approve' ? 'payout_paid' : 'payout_rejected',
+                title,
+                message,
+                is_read: false,
+                metadata: { payout_id: updated._id, order_ids: updated.items.map((item) => item.order_id) },
+            });
+
+            if (req.io) {
+                req.io.to(`driver-${updated.driver_id}`).emit('payout-updated', { message, payout: updated });
+                req.io.to(`driver-${updated.driver_id}`).emit('new-notification', { title, message });
+            }
+
+            res.json({
+                message: decision === 'approve' ? 'تمت الموافقة على طلب السحب وتحويل المبلغ' : 'تم رفض طلب السحب',
+                payout: updated,
+            });
+        } catch (error: any) {
+            console.error('Review payout error:', error);
+            res.status(error.status || 500).json({
+                message: error.status ? error.message : 'خطأ في مراجعة طلب السحب',
+                error: error.status ? undefined : error.message,
+            });
+        }
+    };
+
+export const approvePayoutRequest = reviewPayout('approve');
+export const rejectPayoutRequest = reviewPayout('reject');
@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Invoice from '../models/Invoice';
+import Order, { IOrder } from '../models/Order';
+import { issueInvoice } from '../utils/invoice';
+import { isOrderParticipant } from '../utils/orderAccess';
+import {
+    DOCUMENT_LANGUAGES,
+    DocumentLanguage,
+    loadOrderDocumentData,
+    renderDeliveryReceiptPdf,
+    renderInvoicePdf,
+} from '../utils/orderDocuments';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+}
+
+export const validateDocumentQuery = [
+    query('lang').optional().isIn(DOCUMENT_LANGUAGES).withMessage('لغة المستند غير مدعومة'),
+];
+
+// Documents are limited to the order's parties and admins; anyone else gets the same 404 as a missing order.
+const findDocumentOrder = async (req: AuthenticatedRequest, res: Response): Promise<IOrder | null> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return null;
+    }
+
+    const { id, role } = req.user!;
+    const orderId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(orderId)) {
+        res.status(400).json({ message: 'معرف الطلب غير صالح' });
+        return null;
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order || (role !== 'admin' && !(await isOrderParticipant(order, id, role)))) {
+        res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+        return null;
+    }
+    return order;
+};
+
+const sendPdf = (res: Response, fileName: string, pdf: Buffer): void => {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(pdf);
+};
+
+export const downloadInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const order = await findDocumentOrder(req, res);
+        if (!order) return;
+
+        if (order.status !== 'Completed') {
+            res.status(400).json({ message: 'لا تصدر الفاتورة إلا بعد إكمال الطلب' });
+            return;
+        }
+
+        const data = await loadOrderDocumentData(order);
+        if (!data) {
+            res.status(400).json({ message: 'لا يوجد عرض مقبول لهذا الطلب' });
+            return;
+        }
+
+        const language = (req.query.lang as DocumentLanguage | undefined) ?? 'ar';
+        const invoice = await issueInvoice(order);
+        const pdf = await renderInvoicePdf(data, invoice, language);
+        sendPdf(res, `${invoice.number}-${language}.pdf`, pdf);
+    } catch (error: any) {
+        console.error('Download invoice error:', error);
+        res.status(error.status || 500).json({
+            message: error.status ? error.message : 'خطأ في إنشاء الفاتورة',
+            error: error.message,
+        });
+    }
+};
+
+export const downloadDeliveryReceipt = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const order = await findDocumentOrder(req, res);
+        if (!order) return;
+
+        if (order.status !== 'Delivered' && order.status !== 'Completed') {
+            res.status(400).json({ message: 'لا يصدر إيصال التسليم إلا بعد تسليم الشحنة' });
+            return;
+        }
+
+        const data = await loadOrderDocumentData(order);
+        if (!data) {
+            res.status(400).json({ message: 'لا يوجد عرض مقبول لهذا الطلب' });
+            return;
+        }
+
+        const language = (req.query.lang as DocumentLanguage | undefined) ?? 'ar';
+        const invoice = await Invoice.findOne({ order_id: order._id, number: { $exists: true } });
+        const pdf = await renderDeliveryReceiptPdf(data, invoice, language);
+        sendPdf(res, `receipt-${order._id}-${language}.pdf`, pdf);
+    } catch (error: any) {
+        console.error('Download delivery receipt error:', error);
+        res.status(500).json({
+            message: 'خطأ في إنشاء إيصال التسليم',
+            error: error.message,
+        });
+    }
+};
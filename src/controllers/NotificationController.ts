@@ -1,7 +1,14 @@
 import { Response } from 'express';
+import Dispatcher from '../models/Dispatcher';
 import Notification from '../models/Notification';
 import { AuthRequest } from '../types';
 
+// Dispatchers share the notifications addressed to their company.
+const dispatcherCompanyId = async (dispatcherId: string) => {
+  const dispatcher = await Dispatcher.findById(dispatcherId).select('company_id');
+  return dispatcher?.company_id;
+};
+
 export const getNotifications = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { page = 1, limit = 20, unreadOnly = false } = req.query;
@@ -15,6 +22,13 @@ export const getNotifications = async (req: AuthRequest, res: Response): Promise
     } else if (req.user?.role === 'driver') {
       query.driver_id = req.user.id;
       console.log('Querying for driver notifications with driver_id:', req.user.id);
+    } else if (req.user?.role === 'dispatcher') {
+      query.company_id = await dispatcherCompanyId(req.user.id);
+      if (!query.company_id) {
+        res.status(403).json({ message: 'غير مصرح: دور المستخدم غير صالح' });
+        return;
+      }
+      console.log('Querying for company notifications with company_id:', query.company_id);
     } else {
       console.log('Invalid user role:', req.user?.role);
       res.status(403).json({ message: 'غير مصرح: دور المستخدم غير صالح' });
@@ -34,7 +48,7 @@ export const getNotifications = async (req: AuthRequest, res: Response): Promise
       .skip((Number(page) - 1) * Number(limit))
       .populate('order_id', 'from_location to_location status')
       .populate('user_id', 'fullName phoneNumber')
-      .populate('driver_id', 'fullName vehicleNumber');
+      .populate('driver_id', 'fullName');
 
     console.log('Notifications found:', notifications);
 
@@ -85,6 +99,8 @@ export const markAllAsRead = async (req: AuthRequest, res: Response): Promise<vo
       query.user_id = req.user.id;
     } else if (req.user?.role === 'driver') {
       query.driver_id = req.user.id;
+    } else if (req.user?.role === 'dispatcher') {
+      query.company_id = (await dispatcherCompanyId(req.user.id)) || null;
     }
 
     await Notification.updateMany(
@@ -125,6 +141,8 @@ export const getUnreadCount = async (req: AuthRequest, res: Response): Promise<v
       query.user_id = req.user.id;
     } else if (req.user?.role === 'driver') {
       query.driver_id = req.user.id;
+    } else if (req.user?.role === 'dispatcher') {
+      query.company_id = (await dispatcherCompanyId(req.user.id)) || null;
     }
 
     const unreadCount = await Notification.countDocuments({ ...query, is_read: false });
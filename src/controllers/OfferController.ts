@@ -1,11 +1,18 @@
 import { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import mongoose from 'mongoose';
-import Offer, { IOffer } from '../models/Offer';
+import Offer, { IOffer, OPEN_OFFER_STATUSES } from '../models/Offer';
 import Order from '../models/Order';
 import { Server as SocketIOServer } from 'socket.io';
 import Notification from '../models/Notification';
-import { IPopulatedDriver } from '../models/Driver';
+import Driver, { IDriver } from '../models/Driver';
+import { ICompany } from '../models/Company';
+import { buildStatusChange, canTransitionFrom, OPEN_ORDER_STATUSES, ORDER_TRANSITIONS } from '../utils/orderLifecycle';
+import { DispatcherContext, findDispatcherContext, hasApprovedCompanyDriver } from '../utils/company';
+import { companyVehicleFilter, personalVehicleFilter, resolveOfferVehicle } from '../utils/driverVehicle';
+import { offerBidderRecipient, offerBidderRoom } from '../utils/offerParty';
+import { formatPayment, holdOfferPayment } from '../utils/payments';
+import { bestValueScores, companyRatings, completedTripCounts, OFFER_SORT_FIELDS, OfferSortField, summarizePrices } from '../utils/offerRanking';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -18,17 +25,77 @@ interface AuthenticatedRequest extends Request {
 
 interface OfferCreateData {
   order_id: string;
+  vehicle_id?: string;
   price: number;
   notes?: string;
+  expires_at?: Date;
 }
 
 export const validateOfferCreate = [
   body('order_id').isMongoId().withMessage('معرف الطلب غير صالح'),
+  body('vehicle_id').optional().isMongoId().withMessage('معرف المركبة غير صالح'),
   body('price').isNumeric().withMessage('يجب أن يكون السعر رقمًا').isFloat({ min: 0 }).withMessage('يجب أن يكون السعر موجبًا'),
   body('notes').optional().trim(),
+  body('expires_at')
+    .optional()
+    .isISO8601()
+    .toDate()
+    .withMessage('تاريخ انتهاء العرض غير صالح')
+    .custom((value: Date) => value.getTime() > Date.now())
+    .withMessage('يجب أن يكون تاريخ انتهاء العرض في المستقبل'),
 ];
 
 
+const offerPayload = (offer: IOffer) => ({
+  id: offer._id.toString(),
+  order_id: offer.order_id.toString(),
+  driver_id: offer.driver_id?.toString(),
+  company_id: offer.company_id?.toString(),
+  vehicle_id: offer.vehicle_id?.toString(),
+  price: offer.price,
+  notes: offer.notes,
+  status: offer.status,
+  negotiation: offer.negotiation,
+  expires_at: offer.expires_at,
+  is_stale: offer.is_stale,
+  createdAt: offer.createdAt,
+  updatedAt: offer.updatedAt,
+});
+
+// Writes a bidder's change only while the offer is still open, so it cannot undo an acceptance that won meanwhile.
+const saveOpenOffer = async (offer: IOffer): Promise<void> => {
+  offer.$where = { status: { $in: OPEN_OFFER_STATUSES } };
+  try {
+    await offer.save();
+  } catch (error: any) {
+    if (error.name === 'DocumentNotFoundError') {
+      throw Object.assign(new Error('لم يعد العرض قيد الانتظار'), { status: 409 });
+    }
+    throw error;
+  }
+};
+
+interface Bidder {
+  role: 'driver' | 'dispatcher';
+  id: string;
+  filter: { driver_id: string } | { company_id: mongoose.Types.ObjectId };
+  context?: DispatcherContext;
+}
+
+// Drivers bid for themselves; dispatchers bid on behalf of their company.
+const resolveBidder = async (user: { id: string; role: string }): Promise<Bidder | null> => {
+  if (user.role === 'driver') {
+    return { role: 'driver', id: user.id, filter: { driver_id: user.id } };
+  }
+  if (user.role === 'dispatcher') {
+    const context = await findDispatcherContext(user.id);
+    return context
+      ? { role: 'dispatcher', id: user.id, filter: { company_id: context.company._id }, context }
+      : null;
+  }
+  return null;
+};
+
 export const createOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -37,13 +104,31 @@ export const createOffer = async (req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
-    const { id, role } = req.user!;
-    if (role !== 'driver') {
-      res.status(403).json({ message: 'غير مصرح: يمكن للسائقين فقط إنشاء العروض' });
+    const bidder = await resolveBidder(req.user!);
+    if (!bidder) {
+      res.status(403).json({ message: 'غير مصرح: يمكن للسائقين والمرسلين فقط إنشاء العروض' });
       return;
     }
+    const { id } = bidder;
+    const company = bidder.context?.company;
 
-    const { order_id, price, notes }: OfferCreateData = req.body;
+    if (company) {
+      if (!(await hasApprovedCompanyDriver(company._id))) {
+        res.status(403).json({ message: 'يجب أن يكون لدى الشركة سائق موثق واحد على الأقل قبل تقديم العروض' });
+        return;
+      }
+    } else {
+      const driver = await Driver.findById(id).select('verificationStatus');
+      if (!driver || driver.verificationStatus !== 'approved') {
+        res.status(403).json({
+          message: 'يجب توثيق حسابك من قبل الإدارة قبل تقديم العروض',
+          verificationStatus: driver?.verificationStatus,
+        });
+        return;
+      }
+    }
+
+    const { order_id, vehicle_id, price, notes, expires_at }: OfferCreateData = req.body;
 
     const order = await Order.findById(order_id);
     if (!order) {
@@ -51,28 +136,77 @@ export const createOffer = async (req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
-    const existingOffer = await Offer.findOne({ order_id, driver_id: id });
-    if (existingOffer) {
+    if (!OPEN_ORDER_STATUSES.includes(order.status)) {
+      res.status(400).json({ message: 'لم يعد هذا الطلب يقبل العروض' });
+      return;
+    }
+
+    const vehicle = await resolveOfferVehicle(
+      company ? companyVehicleFilter(company._id) : personalVehicleFilter(id),
+      order,
+      vehicle_id
+    );
+
+    const existingOffer = await Offer.findOne({ order_id, ...bidder.filter });
+    if (existingOffer && existingOffer.status !== 'Withdrawn') {
       res.status(400).json({ message: 'لديك بالفعل عرض لهذا الطلب' });
       return;
     }
 
-    const offer = await Offer.create({
-      order_id,
-      driver_id: id,
+    const negotiationEntry = {
       price,
-      notes,
-      status: 'Offered',
-    });
+      author: bidder.role,
+      author_id: new mongoose.Types.ObjectId(id),
+      note: notes,
+      createdAt: new Date(),
+    };
 
-    await Order.findByIdAndUpdate(
-      order_id,
-      { $addToSet: { offered_drivers: id } },
-      { new: true }
-    );
+    let offer: IOffer;
+    if (existingOffer) {
+      existingOffer.price = price;
+      existingOffer.notes = notes;
+      existingOffer.status = 'Offered';
+      existingOffer.expires_at = expires_at;
+      existingOffer.vehicle_id = vehicle._id;
+      existingOffer.is_stale = false;
+      existingOffer.stale_since = undefined;
+      if (company) existingOffer.dispatcher_id = new mongoose.Types.ObjectId(id);
+      existingOffer.negotiation.push(negotiationEntry);
+      offer = await existingOffer.save();
+    } else {
+      offer = await Offer.create({
+        order_id,
+        ...(company ? { company_id: company._id, dispatcher_id: id } : { driver_id: id }),
+        vehicle_id: vehicle._id,
+        price,
+        notes,
+        status: 'Offered',
+        negotiation: [negotiationEntry],
+        expires_at,
+      });
+    }
+
+    if (!company) {
+      await Order.findByIdAndUpdate(
+        order_id,
+        { $addToSet: { offered_drivers: id } },
+        { new: true }
+      );
+    }
+
+    if (canTransitionFrom('offer', order.status)) {
+      await Order.updateOne(
+        { _id: order_id, status: order.status },
+        {
+          $set: { status: 'Offered' },
+          $push: { status_history: buildStatusChange('Offered', bidder.role, id) },
+        }
+      );
+    }
 
     const populatedOffer = await Offer.findById(offer._id)
-      .populate<{ driver_id: IPopulatedDriver }>('driver_id', 'fullName')
+      .populate<{ driver_id: IDriver }>('driver_id', 'fullName ratingAverage ratingCount')
+      .populate('vehicle_id', 'plateNumber vehicleType capacityKg')
       .populate('order_id');
 
     if (!populatedOffer) {
@@ -89,9 +223,9 @@ export const createOffer = async (req: AuthenticatedRequest, res: Response): Pro
       is_read: false,
     });
 
-    // Create notification for driver
+    // Create notification for the bidder
     await Notification.create({
-      driver_id: id,
+      ...offerBidderRecipient(offer),
       order_id: order_id,
       type: 'offer_created',
       title: 'تم تقديم العرض',
@@ -100,21 +234,29 @@ export const createOffer = async (req: AuthenticatedRequest, res: Response): Pro
     });
 
     if (req.io) {
-      req.io.to(`user-${order.customer_id}`).emit('new-offer', {
-        message: 'تم استلام عرض جديد لطلبك',
-        offer: {
-          id: offer._id.toString(),
-          order_id: offer.order_id.toString(),
-          driver_id: {
+      const offerSummary = {
+        id: offer._id.toString(),
+        order_id: offer.order_id.toString(),
+        driver_id: populatedOffer.driver_id
+          ? {
             _id: populatedOffer.driver_id._id.toString(),
             fullName: populatedOffer.driver_id.fullName || 'غير محدد',
-          },
-          price: offer.price,
-          notes: offer.notes,
-          status: offer.status,
-          createdAt: offer.createdAt,
-          updatedAt: offer.updatedAt,
-        },
+            ratingAverage: populatedOffer.driver_id.ratingAverage ?? 0,
+            ratingCount: populatedOffer.driver_id.ratingCount ?? 0,
+          }
+          : undefined,
+        company: company ? { _id: company._id.toString(), name: company.name } : undefined,
+        vehicle: populatedOffer.vehicle_id,
+        price: offer.price,
+        notes: offer.notes,
+        status: offer.status,
+        createdAt: offer.createdAt,
+        updatedAt: offer.updatedAt,
+      };
+
+      req.io.to(`user-${order.customer_id}`).emit('new-offer', {
+        message: 'تم استلام عرض جديد لطلبك',
+        offer: offerSummary,
       });
 
       req.io.to(`user-${order.customer_id}`).emit('new-notification', {
@@ -122,24 +264,12 @@ export const createOffer = async (req: AuthenticatedRequest, res: Response): Pro
         message: `لقد تلقيت عرضًا جديدًا بقيمة ${price} ليرا لطلبك`,
       });
 
-      req.io.to(`driver-${id}`).emit('offer-created', {
+      req.io.to(offerBidderRoom(offer)).emit('offer-created', {
         message: 'تم تقديم عرضك بنجاح',
-        offer: {
-          id: offer._id.toString(),
-          order_id: offer.order_id.toString(),
-          driver_id: {
-            _id: populatedOffer.driver_id._id.toString(),
-            fullName: populatedOffer.driver_id.fullName || 'غير محدد',
-          },
-          price: offer.price,
-          notes: offer.notes,
-          status: offer.status,
-          createdAt: offer.createdAt,
-          updatedAt: offer.updatedAt,
-        },
+        offer: offerSummary,
       });
 
-      req.io.to(`driver-${id}`).emit('new-notification', {
+      req.io.to(offerBidderRoom(offer)).emit('new-notification', {
         title: 'تم تقديم العرض',
         message: 'تم تقديم عرضك بنجاح',
       });
@@ -147,22 +277,13 @@ export const createOffer = async (req: AuthenticatedRequest, res: Response): Pro
 
     res.status(201).json({
       message: 'تم إنشاء العرض بنجاح',
-      offer: {
-        id: offer._id.toString(),
-        order_id: offer.order_id.toString(),
-        driver_id: offer.driver_id.toString(),
-        price: offer.price,
-        notes: offer.notes,
-        status: offer.status,
-        createdAt: offer.createdAt,
-        updatedAt: offer.updatedAt,
-      },
+      offer: offerPayload(offer),
     });
   } catch (error: any) {
     console.error('Create offer error:', error);
-    res.status(500).json({
-      message: 'خطأ في إنشاء العرض',
-      error: error.message,
+    res.status(error.status || 500).json({
+      message: error.status ? error.message : 'خطأ في إنشاء العرض',
+      error: error.status ? undefined : error.message,
     });
   }
 };
@@ -175,16 +296,23 @@ export const getDriverOffers = async (req: AuthenticatedRequest, res: Response):
       return;
     }
 
-    const offers = await Offer.find({ driver_id: id }).populate('order_id');
+    const offers = await Offer.find({ driver_id: id }).populate({
+      path: 'order_id',
+      populate: { path: 'customer_id', select: 'fullName ratingAverage ratingCount' },
+    });
 
     res.json({
       message: 'تم استرجاع العروض بنجاح',
       offers: offers.map((offer) => ({
         id: offer._id,
         order_id: offer.order_id,
+        vehicle_id: offer.vehicle_id,
         price: offer.price,
         notes: offer.notes,
         status: offer.status,
+        negotiation: offer.negotiation,
+        expires_at: offer.expires_at,
+        is_stale: offer.is_stale,
         createdAt: offer.createdAt,
         updatedAt: offer.updatedAt,
       })),
@@ -197,8 +325,46 @@ export const getDriverOffers = async (req: AuthenticatedRequest, res: Response):
   }
 };
 
+export const validateOrderOffersQuery = [
+  query('sort').optional().isIn(OFFER_SORT_FIELDS).withMessage('قيمة الترتيب غير صالحة'),
+  query('order').optional().isIn(['asc', 'desc']).withMessage('اتجاه الترتيب غير صالح'),
+  query('min_price').optional().isFloat({ min: 0 }).withMessage('الحد الأدنى للسعر غير صالح'),
+  query('max_price').optional().isFloat({ min: 0 }).withMessage('الحد الأعلى للسعر غير صالح'),
+  query('min_rating').optional().isFloat({ min: 0, max: 5 }).withMessage('الحد الأدنى للتقييم يجب أن يكون بين 0 و 5'),
+  query('min_trips').optional().isInt({ min: 0 }).withMessage('الحد الأدنى لعدد الرحلات غير صالح'),
+  query('vehicle_type').optional().isMongoId().withMessage('معرف نوع المركبة غير صالح'),
+  query('max_age_hours').optional().isFloat({ gt: 0 }).withMessage('الحد الأقصى لعمر العرض غير صالح'),
+];
+
+// Lower is better only for price and age; every other sort puts the best first by default.
+const DEFAULT_SORT_ORDER: Record<OfferSortField, 'asc' | 'desc'> = {
+  best_value: 'desc',
+  price: 'asc',
+  rating: 'desc',
+  trips: 'desc',
+  age: 'asc',
+};
+
+// What a router may see about a driver before choosing them: no contact details or documents.
+const publicDriverProfile = (driver: IDriver, completedTrips: number) => ({
+  id: driver._id,
+  fullName: driver.fullName,
+  photo: driver.photo,
+  ratingAverage: driver.ratingAverage ?? 0,
+  ratingCount: driver.ratingCount ?? 0,
+  completed_trips: completedTrips,
+  is_verified: driver.verificationStatus === 'approved',
+  member_since: driver.createdAt,
+});
+
 export const getOrderOffers = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const { id, role } = req.user!;
     if (role !== 'router') {
       res.status(403).json({ message: 'غير مصرح: يمكن للراوتر فقط الوصول إلى عروض طلباتهم' });
@@ -217,7 +383,60 @@ export const getOrderOffers = async (req: AuthenticatedRequest, res: Response):
       return;
     }
 
-    const offers = await Offer.find({ order_id: orderId }).populate('driver_id');
+    const offers = await Offer.find({ order_id: orderId })
+      .populate('driver_id', 'fullName photo ratingAverage ratingCount verificationStatus createdAt')
+      .populate('company_id', 'name')
+      .populate({ path: 'vehicle_id', select: 'plateNumber vehicleType capacityKg photos', populate: { path: 'vehicleType' } });
+
+    const drivers = offers.map((offer) => offer.driver_id as IDriver | undefined).filter((driver): driver is IDriver => !!driver);
+    const companies = offers.map((offer) => offer.company_id as unknown as ICompany | undefined).filter((company): company is ICompany => !!company);
+    const [driverTrips, companyTrips, ratingsByCompany] = await Promise.all([
+      completedTripCounts('driver_id', drivers.map((driver) => driver._id)),
+      completedTripCounts('company_id', companies.map((company) => company._id)),
+      companyRatings(companies.map((company) => company._id)),
+    ]);
+
+    const now = Date.now();
+    const entries = offers.map((offer) => {
+      const driver = offer.driver_id as IDriver | undefined;
+      const company = offer.company_id as unknown as ICompany | undefined;
+      const vehicle = offer.vehicle_id as unknown as { vehicleType?: { _id: mongoose.Types.ObjectId } } | undefined;
+      const companyRating = company && ratingsByCompany.get(company._id.toString());
+      return {
+        offer,
+        driver,
+        company,
+        rating: driver ? driver.ratingAverage ?? 0 : companyRating?.average ?? 0,
+        ratingCount: driver ? driver.ratingCount ?? 0 : companyRating?.count ?? 0,
+        completedTrips: (driver ? driverTrips.get(driver._id.toString()) : company && companyTrips.get(company._id.toString())) ?? 0,
+        vehicleTypeId: vehicle?.vehicleType?._id?.toString(),
+        ageHours: (now - offer.createdAt.getTime()) / (60 * 60 * 1000),
+        price: offer.price,
+      };
+    });
+
+    const { min_price, max_price, min_rating, min_trips, vehicle_type, max_age_hours } = req.query as Record<string, string | undefined>;
+    const filtered = entries.filter((entry) =>
+      (min_price === undefined || entry.price >= Number(min_price))
+      && (max_price === undefined || entry.price <= Number(max_price))
+      && (min_rating === undefined || entry.rating >= Number(min_rating))
+      && (min_trips === undefined || entry.completedTrips >= Number(min_trips))
+      && (vehicle_type === undefined || entry.vehicleTypeId === vehicle_type)
+      && (max_age_hours === undefined || entry.ageHours <= Number(max_age_hours)));
+
+    const scores = bestValueScores(filtered);
+    const ranked = filtered.map((entry, index) => ({ ...entry, bestValueScore: scores[index] }));
+
+    const sort: OfferSortField = (req.query.sort as OfferSortField) || 'best_value';
+    const direction = ((req.query.order as string) || DEFAULT_SORT_ORDER[sort]) === 'asc' ? 1 : -1;
+    const sortKey = ({
+      best_value: 'bestValueScore',
+      price: 'price',
+      rating: 'rating',
+      trips: 'completedTrips',
+      age: 'ageHours',
+    } as const)[sort];
+    ranked.sort((a, b) => (a[sortKey] - b[sortKey]) * direction);
 
     if (req.io && req.headers['socket-id']) {
       req.io.to(req.headers['socket-id']).emit('subscribe-order-offers', orderId);
@@ -225,14 +444,35 @@ export const getOrderOffers = async (req: AuthenticatedRequest, res: Response):
 
     res.json({
       message: 'تم استرجاع العروض بنجاح',
-      offers: offers.map((offer) => ({
-        id: offer._id,
-        driver_id: offer.driver_id,
-        price: offer.price,
-        notes: offer.notes,
-        status: offer.status,
-        createdAt: offer.createdAt,
-        updatedAt: offer.updatedAt,
+      price_estimate: order.price_estimate,
+      summary: {
+        ...summarizePrices(ranked.map((entry) => entry.price)),
+        total: offers.length,
+      },
+      sort,
+      order: direction === 1 ? 'asc' : 'desc',
+      offers: ranked.map((entry) => ({
+        id: entry.offer._id,
+        driver_id: entry.driver?._id,
+        driver: entry.driver ? publicDriverProfile(entry.driver, entry.completedTrips) : undefined,
+        company: entry.company
+          ? { id: entry.company._id, name: entry.company.name, completed_trips: entry.completedTrips }
+          : undefined,
+        vehicle: entry.offer.vehicle_id,
+        driver_rating: {
+          average: entry.rating,
+          count: entry.ratingCount,
+        },
+        completed_trips: entry.completedTrips,
+        best_value_score: entry.bestValueScore,
+        price: entry.price,
+        notes: entry.offer.notes,
+        status: entry.offer.status,
+        negotiation: entry.offer.negotiation,
+        expires_at: entry.offer.expires_at,
+        is_stale: entry.offer.is_stale,
+        createdAt: entry.offer.createdAt,
+        updatedAt: entry.offer.updatedAt,
       })),
     });
   } catch (error: any) {
@@ -274,42 +514,95 @@ export const acceptOffer = async (req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
-    offer.status = 'Accepted';
-    await offer.save();
+    if (offer.expires_at && offer.expires_at.getTime() <= Date.now()) {
+      res.status(400).json({ message: 'انتهت صلاحية هذا العرض' });
+      return;
+    }
+
+    if (offer.is_stale) {
+      res.status(400).json({ message: 'تم تعديل الطلب بعد تقديم هذا العرض، يجب على مقدم العرض تأكيده من جديد قبل قبوله' });
+      return;
+    }
+
+    if (!canTransitionFrom('accept', order.status)) {
+      res.status(400).json({ message: 'لا يمكن قبول العرض لأن الطلب لم يعد مفتوحًا' });
+      return;
+    }
+
+    // Claim the order first so two acceptances cannot both reach the payment provider.
+    const claimedOrder = await Order.findOneAndUpdate(
+      { _id: order._id, status: { $in: ORDER_TRANSITIONS.accept.from } },
+      { $set: { status: 'Active' } },
+      { new: true }
+    );
+    if (!claimedOrder) {
+      res.status(409).json({ message: 'لا يمكن قبول العرض لأن الطلب لم يعد مفتوحًا' });
+      return;
+    }
+    // A declined hold or a lost claim leaves the order open for another offer.
+    const releaseOrder = () => Order.updateOne({ _id: order._id, status: 'Active' }, { $set: { status: order.status } });
+
+    // The offer is claimed too, so the price held is the one accepted even if the bidder revises or withdraws meanwhile.
+    const acceptedOffer = await Offer.findOneAndUpdate(
+      { _id: offer._id, status: 'Offered', is_stale: false, expires_at: { $not: { $lte: new Date() } } },
+      { $set: { status: 'Accepted' } },
+      { new: true }
+    );
+    if (!acceptedOffer) {
+      await releaseOrder();
+      res.status(409).json({ message: 'لا يمكن قبول العرض لأنه ليس قيد الانتظار' });
+      return;
+    }
+
+    // Nothing changes hands until the provider has agreed to hold the offer's price.
+    const payment = await holdOfferPayment(acceptedOffer, claimedOrder).catch(async (error) => {
+      await Offer.updateOne({ _id: acceptedOffer._id, status: 'Accepted' }, { $set: { status: 'Offered' } });
+      await releaseOrder();
+      throw error;
+    });
+
+    const rejectedOffers = await Offer.find({
+      order_id: acceptedOffer.order_id,
+      _id: { $ne: acceptedOffer._id },
+      status: { $in: OPEN_OFFER_STATUSES },
+    });
 
     await Offer.updateMany(
-      { order_id: offer.order_id, _id: { $ne: offer._id } },
+      { _id: { $in: rejectedOffers.map((rejectedOffer) => rejectedOffer._id) } },
       { $set: { status: 'Rejected' } }
     );
 
-    await Order.findByIdAndUpdate(offer.order_id, { status: 'Active' });
+    await Order.findByIdAndUpdate(acceptedOffer.order_id, {
+      $set: {
+        ...(acceptedOffer.driver_id ? { driver_id: acceptedOffer.driver_id } : {}),
+        ...(acceptedOffer.company_id ? { company_id: acceptedOffer.company_id } : {}),
+        ...(acceptedOffer.vehicle_id ? { vehicle_id: acceptedOffer.vehicle_id } : {}),
+      },
+      $push: { status_history: buildStatusChange('Active', 'router', id) },
+    });
 
-    const populatedOffer = await Offer.findById(offer._id)
+    const populatedOffer = await Offer.findById(acceptedOffer._id)
       .populate('driver_id')
+      .populate('vehicle_id')
       .populate('order_id');
 
-    const updatedOrder = await Order.findById(offer.order_id)
+    const updatedOrder = await Order.findById(acceptedOffer.order_id)
       .populate('vehicle_type')
       .populate({ path: 'customer_id', select: '-password' });
 
     await Notification.create({
-      driver_id: offer.driver_id,
-      order_id: offer.order_id,
+      ...offerBidderRecipient(acceptedOffer),
+      order_id: acceptedOffer.order_id,
       type: 'offer_accepted',
       title: 'تم قبول العرض',
       message: 'تم قبول عرضك!',
       is_read: false,
     });
 
-    const rejectedOffers = await Offer.find({
-      order_id: offer.order_id,
-      _id: { $ne: offer._id },
-    });
-
     for (const rejectedOffer of rejectedOffers) {
       await Notification.create({
-        driver_id: rejectedOffer.driver_id,
-        order_id: offer.order_id,
+        ...offerBidderRecipient(rejectedOffer),
+        order_id: acceptedOffer.order_id,
         type: 'offer_rejected',
         title: 'لم يتم اختيار العرض',
         message: 'لم يتم اختيار عرضك لهذا الطلب',
@@ -318,7 +611,7 @@ export const acceptOffer = async (req: AuthenticatedRequest, res: Response): Pro
     }
 
     if (req.io) {
-      req.io.to(`driver-${offer.driver_id}`).emit('offer-accepted', {
+      req.io.to(offerBidderRoom(acceptedOffer)).emit('offer-accepted', {
         message: 'تم قبول عرضك',
         offer: populatedOffer,
       });
@@ -329,7 +622,7 @@ export const acceptOffer = async (req: AuthenticatedRequest, res: Response): Pro
       });
 
       // Emit order-updated event
-      req.io.to(`driver-${offer.driver_id}`).emit('order-updated', {
+      req.io.to(offerBidderRoom(acceptedOffer)).emit('order-updated', {
         message: 'Order status updated to Active',
         order: updatedOrder,
       });
@@ -339,13 +632,13 @@ export const acceptOffer = async (req: AuthenticatedRequest, res: Response): Pro
       });
 
       rejectedOffers.forEach((rejectedOffer) => {
-        req.io?.to(`driver-${rejectedOffer.driver_id}`).emit('offer-rejected', {
+        req.io?.to(offerBidderRoom(rejectedOffer)).emit('offer-rejected', {
           message: 'لم يتم اختيار عرضك',
           order_id: rejectedOffer.order_id,
         });
       });
 
-      req.io.to(`driver-${offer.driver_id}`).emit('new-notification', {
+      req.io.to(offerBidderRoom(acceptedOffer)).emit('new-notification', {
         title: 'تم قبول العرض',
         message: 'تم قبول عرضك!',
       });
@@ -356,7 +649,7 @@ export const acceptOffer = async (req: AuthenticatedRequest, res: Response): Pro
       });
 
       rejectedOffers.forEach((rejectedOffer) => {
-        req.io?.to(`driver-${rejectedOffer.driver_id}`).emit('new-notification', {
+        req.io?.to(offerBidderRoom(rejectedOffer)).emit('new-notification', {
           title: 'لم يتم اختيار العرض',
           message: 'لم يتم اختيار عرضك لهذا الطلب',
         });
@@ -366,20 +659,424 @@ export const acceptOffer = async (req: AuthenticatedRequest, res: Response): Pro
     res.json({
       message: 'تم قبول العرض بنجاح',
       offer: {
-        id: offer._id,
-        order_id: offer.order_id,
-        driver_id: offer.driver_id,
-        price: offer.price,
-        notes: offer.notes,
-        status: offer.status,
-        createdAt: offer.createdAt,
-        updatedAt: offer.updatedAt,
+        id: acceptedOffer._id,
+        order_id: acceptedOffer.order_id,
+        driver_id: acceptedOffer.driver_id,
+        company_id: acceptedOffer.company_id,
+        price: acceptedOffer.price,
+        notes: acceptedOffer.notes,
+        status: acceptedOffer.status,
+        negotiation: acceptedOffer.negotiation,
+        expires_at: acceptedOffer.expires_at,
+        createdAt: acceptedOffer.createdAt,
+        updatedAt: acceptedOffer.updatedAt,
       },
+      payment: formatPayment(payment),
+    });
+  } catch (error: any) {
+    console.error('Accept offer error:', error);
+    res.status(error.status || 500).json({
+      message: error.status ? error.message : 'خطأ في قبول العرض',
+      error: error.status ? undefined : error.message,
+    });
+  }
+};
+export const validateOfferRevise = [
+  body('vehicle_id').optional().isMongoId().withMessage('معرف المركبة غير صالح'),
+  body('price').isNumeric().withMessage('يجب أن يكون السعر رقمًا').isFloat({ min: 0 }).withMessage('يجب أن يكون السعر موجبًا'),
+  body('notes').optional().trim(),
+];
+
+export const validateOfferCounter = [
+  body('price').isNumeric().withMessage('يجب أن يكون السعر رقمًا').isFloat({ min: 0 }).withMessage('يجب أن يكون السعر موجبًا'),
+  body('note').optional().trim().isLength({ max: 500 }).withMessage('يجب ألا تتجاوز الملاحظة 500 حرف'),
+];
+
+
+export const withdrawOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const bidder = await resolveBidder(req.user!);
+    if (!bidder) {
+      res.status(403).json({ message: 'غير مصرح: يمكن للسائقين والمرسلين فقط سحب العروض' });
+      return;
+    }
+    const { id } = bidder;
+
+    const offerId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(offerId)) {
+      res.status(400).json({ message: 'معرف العرض غير صالح' });
+      return;
+    }
+
+    const offer = await Offer.findOne({ _id: offerId, ...bidder.filter });
+    if (!offer) {
+      res.status(404).json({ message: 'العرض غير موجود' });
+      return;
+    }
+
+    if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+      res.status(400).json({ message: 'لا يمكن سحب العرض لأنه ليس قيد الانتظار' });
+      return;
+    }
+
+    offer.status = 'Withdrawn';
+    await saveOpenOffer(offer);
+
+    const order = offer.driver_id
+      ? await Order.findByIdAndUpdate(
+        offer.order_id,
+        { $pull: { offered_drivers: offer.driver_id } },
+        { new: true }
+      )
+      : await Order.findById(offer.order_id);
+
+    if (order && canTransitionFrom('reopen', order.status)) {
+      const remainingOffers = await Offer.countDocuments({
+        order_id: order._id,
+        status: { $in: OPEN_OFFER_STATUSES },
+      });
+      if (remainingOffers === 0) {
+        await Order.updateOne(
+          { _id: order._id, status: order.status },
+          {
+            $set: { status: 'Pending' },
+            $push: { status_history: buildStatusChange('Pending', bidder.role, id, 'تم سحب آخر عرض على الطلب') },
+          }
+        );
+      }
+    }
+
+    if (order) {
+      await Notification.create({
+        user_id: order.customer_id,
+        order_id: order._id,
+        type: 'offer_withdrawn',
+        title: 'تم سحب عرض',
+        message: `قام ${req.user!.fullName || 'السائق'} بسحب عرضه على طلبك`,
+        is_read: false,
+      });
+
+      if (req.io) {
+        req.io.to(`user-${order.customer_id}`).emit('offer-withdrawn', {
+          message: 'تم سحب عرض على طلبك',
+          offer: offerPayload(offer),
+        });
+        req.io.to(`order-offers-${order._id}`).emit('offer-withdrawn', {
+          message: 'تم سحب عرض على طلبك',
+          offer: offerPayload(offer),
+        });
+        req.io.to(`user-${order.customer_id}`).emit('new-notification', {
+          title: 'تم سحب عرض',
+          message: `قام ${req.user!.fullName || 'السائق'} بسحب عرضه على طلبك`,
+        });
+      }
+    }
+
+    res.json({
+      message: 'تم سحب العرض بنجاح',
+      offer: offerPayload(offer),
     });
   } catch (error: any) {
+    console.error('Withdraw offer error:', error);
+    res.status(error.status || 500).json({
+      message: error.status ? error.message : 'خطأ في سحب العرض',
+      error: error.status ? undefined : error.message,
+    });
+  }
+};
+
+export const reviseOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const bidder = await resolveBidder(req.user!);
+    if (!bidder) {
+      res.status(403).json({ message: 'غير مصرح: يمكن للسائقين والمرسلين فقط تعديل العروض' });
+      return;
+    }
+    const { id } = bidder;
+
+    const offerId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(offerId)) {
+      res.status(400).json({ message: 'معرف العرض غير صالح' });
+      return;
+    }
+
+    const offer = await Offer.findOne({ _id: offerId, ...bidder.filter });
+    if (!offer) {
+      res.status(404).json({ message: 'العرض غير موجود' });
+      return;
+    }
+
+    if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+      res.status(400).json({ message: 'لا يمكن تعديل العرض لأنه ليس قيد الانتظار' });
+      return;
+    }
+
+    const order = await Order.findById(offer.order_id);
+    if (!order || !OPEN_ORDER_STATUSES.includes(order.status)) {
+      res.status(400).json({ message: 'لم يعد هذا الطلب يقبل العروض' });
+      return;
+    }
+
+    const { price, notes, vehicle_id }: { price: number; notes?: string; vehicle_id?: string } = req.body;
+
+    // Revising a stale offer confirms it against the changed order, so the vehicle has to fit it again.
+    if (offer.is_stale || vehicle_id) {
+      const vehicle = await resolveOfferVehicle(
+        'company_id' in bidder.filter ? companyVehicleFilter(bidder.filter.company_id) : personalVehicleFilter(id),
+        order,
+        vehicle_id || offer.vehicle_id?.toString()
+      );
+      offer.vehicle_id = vehicle._id;
+    }
+
+    offer.price = price;
+    if (notes !== undefined) offer.notes = notes;
+    offer.status = 'Offered';
+    offer.is_stale = false;
+    offer.stale_since = undefined;
+    offer.negotiation.push({
+      price,
+      author: bidder.role,
+      author_id: new mongoose.Types.ObjectId(id),
+      note: notes,
+      createdAt: new Date(),
+    });
+    await saveOpenOffer(offer);
+
+    await Notification.create({
+      user_id: order.customer_id,
+      order_id: order._id,
+      type: 'offer_revised',
+      title: 'تم تعديل عرض',
+      message: `تم تعديل عرض على طلبك إلى ${price} ليرا`,
+      is_read: false,
+    });
+
+    if (req.io) {
+      req.io.to(`user-${order.customer_id}`).emit('offer-revised', {
+        message: 'تم تعديل عرض على طلبك',
+        offer: offerPayload(offer),
+      });
+      req.io.to(`order-offers-${order._id}`).emit('offer-revised', {
+        message: 'تم تعديل عرض على طلبك',
+        offer: offerPayload(offer),
+      });
+      req.io.to(`user-${order.customer_id}`).emit('new-notification', {
+        title: 'تم تعديل عرض',
+        message: `تم تعديل عرض على طلبك إلى ${price} ليرا`,
+      });
+    }
+
+    res.json({
+      message: 'تم تعديل العرض بنجاح',
+      offer: offerPayload(offer),
+    });
+  } catch (error: any) {
+    console.error('Revise offer error:', error);
+    res.status(error.status || 500).json({
+      message: error.status ? error.message : 'خطأ في تعديل العرض',
+      error: error.status ? undefined : error.message,
+    });
+  }
+};
+
+export const counterOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, role } = req.user!;
+    if (role !== 'router') {
+      res.status(403).json({ message: 'غير مصرح: يمكن للراوتر فقط تقديم عرض مضاد' });
+      return;
+    }
+
+    const offerId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(offerId)) {
+      res.status(400).json({ message: 'معرف العرض غير صالح' });
+      return;
+    }
+
+    const offer = await Offer.findById(offerId);
+    if (!offer) {
+      res.status(404).json({ message: 'العرض غير موجود' });
+      return;
+    }
+
+    const order = await Order.findOne({ _id: offer.order_id, customer_id: id });
+    if (!order) {
+      res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+      return;
+    }
+
+    if (offer.status !== 'Offered') {
+      res.status(400).json({ message: 'لا يمكن تقديم عرض مضاد إلا على عرض قيد الانتظار' });
+      return;
+    }
+
+    if (!OPEN_ORDER_STATUSES.includes(order.status)) {
+      res.status(400).json({ message: 'لم يعد هذا الطلب يقبل العروض' });
+      return;
+    }
+
+    const { price, note }: { price: number; note?: string } = req.body;
+
+    offer.status = 'Countered';
+    offer.negotiation.push({
+      price,
+      author: 'router',
+      author_id: new mongoose.Types.ObjectId(id),
+      note,
+      createdAt: new Date(),
+    });
+    await offer.save();
+
+    await Notification.create({
+      ...offerBidderRecipient(offer),
+      order_id: order._id,
+      type: 'offer_countered',
+      title: 'تم استلام عرض مضاد',
+      message: `اقترح صاحب الطلب سعرًا جديدًا بقيمة ${price} ليرا`,
+      is_read: false,
+      metadata: { price, note },
+    });
+
+    if (req.io) {
+      req.io.to(offerBidderRoom(offer)).emit('offer-countered', {
+        message: 'تم استلام عرض مضاد على عرضك',
+        offer: offerPayload(offer),
+      });
+      req.io.to(`order-offers-${order._id}`).emit('offer-countered', {
+        message: 'تم إرسال عرض مضاد',
+        offer: offerPayload(offer),
+      });
+      req.io.to(offerBidderRoom(offer)).emit('new-notification', {
+        title: 'تم استلام عرض مضاد',
+        message: `اقترح صاحب الطلب سعرًا جديدًا بقيمة ${price} ليرا`,
+      });
+    }
+
+    res.json({
+      message: 'تم إرسال العرض المضاد بنجاح',
+      offer: offerPayload(offer),
+    });
+  } catch (error: any) {
+    console.error('Counter offer error:', error);
+    res.status(500).json({
+      message: 'خطأ في إرسال العرض المضاد',
+      error: error.message,
+    });
+  }
+};
+
+export const validateOfferReject = [
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('يجب ألا يتجاوز السبب 500 حرف'),
+];
+
+export const rejectOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, role } = req.user!;
+    if (role !== 'router') {
+      res.status(403).json({ message: 'غير مصرح: يمكن للراوتر فقط رفض العروض' });
+      return;
+    }
+
+    const offerId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(offerId)) {
+      res.status(400).json({ message: 'معرف العرض غير صالح' });
+      return;
+    }
+
+    const offer = await Offer.findById(offerId);
+    if (!offer) {
+      res.status(404).json({ message: 'العرض غير موجود' });
+      return;
+    }
+
+    const order = await Order.findOne({ _id: offer.order_id, customer_id: id });
+    if (!order) {
+      res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+      return;
+    }
+
+    if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+      res.status(400).json({ message: 'لا يمكن رفض العرض لأنه ليس قيد الانتظار' });
+      return;
+    }
+
+    const { reason }: { reason?: string } = req.body;
+
+    offer.status = 'Rejected';
+    await offer.save();
+
+    if (canTransitionFrom('reopen', order.status)) {
+      const remainingOffers = await Offer.countDocuments({
+        order_id: order._id,
+        status: { $in: OPEN_OFFER_STATUSES },
+      });
+      if (remainingOffers === 0) {
+        await Order.updateOne(
+          { _id: order._id, status: order.status },
+          {
+            $set: { status: 'Pending' },
+            $push: { status_history: buildStatusChange('Pending', 'router', id, 'تم رفض جميع العروض على الطلب') },
+          }
+        );
+      }
+    }
+
+    const message = reason ? `تم رفض عرضك لهذا الطلب: ${reason}` : 'تم رفض عرضك لهذا الطلب';
+
+    await Notification.create({
+      ...offerBidderRecipient(offer),
+      order_id: order._id,
+      type: 'offer_rejected',
+      title: 'تم رفض العرض',
+      message,
+      is_read: false,
+      metadata: { reason },
+    });
+
+    if (req.io) {
+      req.io.to(offerBidderRoom(offer)).emit('offer-rejected', {
+        message,
+        order_id: order._id,
+        offer: offerPayload(offer),
+      });
+      req.io.to(`order-offers-${order._id}`).emit('offer-rejected', {
+        message: 'تم رفض العرض',
+        offer: offerPayload(offer),
+      });
+      req.io.to(offerBidderRoom(offer)).emit('new-notification', {
+        title: 'تم رفض العرض',
+        message,
+      });
+    }
+
+    res.json({
+      message: 'تم رفض العرض بنجاح',
+      offer: offerPayload(offer),
+    });
+  } catch (error: any) {
+    console.error('Reject offer error:', error);
     res.status(500).json({
-      message: 'خطأ في قبول العرض',
+      message: 'خطأ في رفض العرض',
       error: error.message,
     });
   }
-};
\ No newline at end of file
+};
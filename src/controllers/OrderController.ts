@@ -1,12 +1,36 @@
 import { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import mongoose from 'mongoose';
-import Order from '../models/Order';
-import Vehicle from '../models/Vehicle';
+import Order, { CARGO_CATEGORIES, WEIGHT_UNITS } from '../models/Order';
+import Vehicle, { VEHICLE_FEATURES, VehicleFeature } from '../models/Vehicle';
 import Driver from '../models/Driver';
 import { Server as SocketIOServer } from 'socket.io';
 import Notification from '../models/Notification';
+import Offer, { IOffer, OPEN_OFFER_STATUSES } from '../models/Offer';
+import { IPayment } from '../models/Payment';
 import { VehicleType } from '../types';
+import { IGeoPoint } from '../models/GeoPoint';
+import { distanceKm, isValidLngLat, toPoint } from '../utils/geo';
+import { getAssignedDriverId } from '../utils/orderAccess';
+import { buildOrderMatchForVehicles, personalVehicleFilter } from '../utils/driverVehicle';
+import { announceNewOrder } from '../utils/orderBroadcast';
+import { buildCargo, CargoInput, fitsLimits, mergeCargoInput, requiredVehicleFeatures, sameCargo, toWeightKg } from '../utils/cargo';
+import { deleteFromCloudinary, uploadToCloudinary } from '../utils/cloudinary';
+import { estimatePrice } from '../utils/pricing';
+import { captureOrderPayment, formatPayment, refundOrderPayment } from '../utils/payments';
+import { issueInvoice } from '../utils/invoice';
+import { IInvoice } from '../models/Invoice';
+import { offerBidderRecipient, offerBidderRoom } from '../utils/offerParty';
+import {
+    buildStatusChange,
+    canActorTransition,
+    canTransitionFrom,
+    ORDER_STATUS_MESSAGES,
+    ORDER_TRANSITIONS,
+    OrderAction,
+    OrderActorRole,
+    OPEN_ORDER_STATUSES,
+} from '../utils/orderLifecycle';
 
 interface AuthenticatedRequest extends Request {
     user?: {
@@ -17,29 +41,155 @@ interface AuthenticatedRequest extends Request {
     io?: SocketIOServer;
 }
 
+const DEFAULT_DRIVER_FEED_RADIUS_KM = Number(process.env.DRIVER_FEED_RADIUS_KM) || 50;
+const MAX_DRIVER_FEED_RADIUS_KM = 500;
+
 interface OrderCreateData {
     from_location: string;
     to_location: string;
+    from_point: IGeoPoint;
+    to_point: IGeoPoint;
     vehicle_type: string;
-    weight_or_volume: string;
+    allow_larger_vehicles?: boolean;
+    required_features?: VehicleFeature[];
+    cargo: CargoInput;
     date_time_transport: Date;
     notes?: string;
-    type: string;
 }
 
-export const validateOrderCreate = [
+// Everything about an order except when it is transported; order templates share these rules.
+export const validateOrderDetails = [
     body('from_location').trim().notEmpty().withMessage('الموقع الابتدائي مطلوب'),
     body('to_location').trim().notEmpty().withMessage('الموقع النهائي مطلوب'),
+    body('from_point.type').optional().equals('Point').withMessage('نوع نقطة الانطلاق يجب أن يكون Point'),
+    body('from_point.coordinates')
+        .custom(isValidLngLat)
+        .withMessage('إحداثيات نقطة الانطلاق غير صالحة، يجب أن تكون [خط الطول, خط العرض]'),
+    body('to_point.type').optional().equals('Point').withMessage('نوع نقطة الوصول يجب أن يكون Point'),
+    body('to_point.coordinates')
+        .custom(isValidLngLat)
+        .withMessage('إحداثيات نقطة الوصول غير صالحة، يجب أن تكون [خط الطول, خط العرض]'),
     body('vehicle_type').isMongoId().withMessage('معرف نوع المركبة غير صالح'),
-    body('weight_or_volume').trim().notEmpty().withMessage('الوزن أو الحجم مطلوب'),
+    body('allow_larger_vehicles').optional().isBoolean().withMessage('قيمة السماح بمركبات أكبر غير صالحة').toBoolean(),
+    body('required_features').optional().isArray().withMessage('يجب أن تكون الميزات المطلوبة مصفوفة'),
+    body('required_features.*').isIn(VEHICLE_FEATURES).withMessage('ميزة المركبة غير صالحة'),
+    body('cargo.weight').isFloat({ gt: 0 }).withMessage('يجب أن يكون وزن الحمولة رقمًا أكبر من صفر').toFloat(),
+    body('cargo.weight_unit').isIn(WEIGHT_UNITS).withMessage('وحدة الوزن غير صالحة'),
+    body('cargo.dimensions')
+        .optional()
+        .custom((dimensions) => ['length_m', 'width_m', 'height_m']
+            .every((key) => typeof dimensions?.[key] === 'number' && dimensions[key] > 0))
+        .withMessage('يجب أن تتضمن الأبعاد الطول والعرض والارتفاع بالمتر كأرقام موجبة'),
+    body('cargo.volume_m3').optional().isFloat({ gt: 0 }).withMessage('يجب أن يكون الحجم رقمًا أكبر من صفر').toFloat(),
+    body('cargo.pieces').optional().isInt({ min: 1 }).withMessage('يجب أن يكون عدد القطع عددًا صحيحًا موجبًا').toInt(),
+    body('cargo.category').isIn(CARGO_CATEGORIES).withMessage('فئة الحمولة غير صالحة'),
+    body('cargo.is_fragile').optional().isBoolean().withMessage('قيمة قابلية الكسر غير صالحة').toBoolean(),
+    body('cargo.is_hazmat').optional().isBoolean().withMessage('قيمة المواد الخطرة غير صالحة').toBoolean(),
+    body('cargo.is_refrigerated').optional().isBoolean().withMessage('قيمة التبريد غير صالحة').toBoolean(),
+    body('notes').optional().trim(),
+];
+
+export const validateOrderCreate = [
+    ...validateOrderDetails,
     body('date_time_transport')
         .isISO8601()
         .toDate()
         .withMessage('تاريخ ووقت النقل غير صالح'),
-    body('type').trim().notEmpty().withMessage('نوع الطلب مطلوب'),
+];
+
+export const validateOrderUpdate = [
+    body('from_location').optional().trim().notEmpty().withMessage('لا يمكن أن يكون الموقع الابتدائي فارغًا'),
+    body('to_location').optional().trim().notEmpty().withMessage('لا يمكن أن يكون الموقع النهائي فارغًا'),
+    body('from_point.coordinates')
+        .optional()
+        .custom(isValidLngLat)
+        .withMessage('إحداثيات نقطة الانطلاق غير صالحة، يجب أن تكون [خط الطول, خط العرض]'),
+    body('to_point.coordinates')
+        .optional()
+        .custom(isValidLngLat)
+        .withMessage('إحداثيات نقطة الوصول غير صالحة، يجب أن تكون [خط الطول, خط العرض]'),
+    body('vehicle_type').optional().isMongoId().withMessage('معرف نوع المركبة غير صالح'),
+    body('allow_larger_vehicles').optional().isBoolean().withMessage('قيمة السماح بمركبات أكبر غير صالحة').toBoolean(),
+    body('required_features').optional().isArray().withMessage('يجب أن تكون الميزات المطلوبة مصفوفة'),
+    body('required_features.*').isIn(VEHICLE_FEATURES).withMessage('ميزة المركبة غير صالحة'),
+    body('cargo.weight').optional().isFloat({ gt: 0 }).withMessage('يجب أن يكون وزن الحمولة رقمًا أكبر من صفر').toFloat(),
+    body('cargo.weight_unit').optional().isIn(WEIGHT_UNITS).withMessage('وحدة الوزن غير صالحة'),
+    body('cargo.dimensions')
+        .optional()
+        .custom((dimensions) => ['length_m', 'width_m', 'height_m']
+            .every((key) => typeof dimensions?.[key] === 'number' && dimensions[key] > 0))
+        .withMessage('يجب أن تتضمن الأبعاد الطول والعرض والارتفاع بالمتر كأرقام موجبة'),
+    body('cargo.volume_m3').optional().isFloat({ gt: 0 }).withMessage('يجب أن يكون الحجم رقمًا أكبر من صفر').toFloat(),
+    body('cargo.pieces').optional().isInt({ min: 1 }).withMessage('يجب أن يكون عدد القطع عددًا صحيحًا موجبًا').toInt(),
+    body('cargo.category').optional().isIn(CARGO_CATEGORIES).withMessage('فئة الحمولة غير صالحة'),
+    body('cargo.is_fragile').optional().isBoolean().withMessage('قيمة قابلية الكسر غير صالحة').toBoolean(),
+    body('cargo.is_hazmat').optional().isBoolean().withMessage('قيمة المواد الخطرة غير صالحة').toBoolean(),
+    body('cargo.is_refrigerated').optional().isBoolean().withMessage('قيمة التبريد غير صالحة').toBoolean(),
+    body('date_time_transport')
+        .optional()
+        .isISO8601()
+        .toDate()
+        .withMessage('تاريخ ووقت النقل غير صالح')
+        .custom((value: Date) => value.getTime() > Date.now())
+        .withMessage('يجب أن يكون موعد النقل في المستقبل'),
     body('notes').optional().trim(),
 ];
 
+export const validateOrderCancel = [
+    body('reason')
+        .trim()
+        .notEmpty()
+        .withMessage('سبب الإلغاء مطلوب')
+        .isLength({ max: 500 })
+        .withMessage('يجب ألا يتجاوز سبب الإلغاء 500 حرف'),
+];
+
+export const validateOrderEstimate = [
+    body('from_point.coordinates')
+        .custom(isValidLngLat)
+        .withMessage('إحداثيات نقطة الانطلاق غير صالحة، يجب أن تكون [خط الطول, خط العرض]'),
+    body('to_point.coordinates')
+        .custom(isValidLngLat)
+        .withMessage('إحداثيات نقطة الوصول غير صالحة، يجب أن تكون [خط الطول, خط العرض]'),
+    body('vehicle_type').isMongoId().withMessage('معرف نوع المركبة غير صالح'),
+    body('cargo.weight').optional().isFloat({ gt: 0 }).withMessage('يجب أن يكون وزن الحمولة رقمًا أكبر من صفر').toFloat(),
+    body('cargo.weight_unit')
+        .if(body('cargo.weight').exists())
+        .isIn(WEIGHT_UNITS)
+        .withMessage('وحدة الوزن غير صالحة'),
+    body('date_time_transport')
+        .isISO8601()
+        .toDate()
+        .withMessage('تاريخ ووقت النقل غير صالح'),
+];
+
+const formatOrder = (order: any) => ({
+    id: order._id,
+    customer: order.customer_id,
+    driver_id: order.driver_id,
+    company_id: order.company_id,
+    vehicle_id: order.vehicle_id,
+    from_location: order.from_location,
+    to_location: order.to_location,
+    from_point: order.from_point,
+    to_point: order.to_point,
+    distance_km: distanceKm(order.from_point, order.to_point),
+    vehicle_type: order.vehicle_type,
+    allow_larger_vehicles: order.allow_larger_vehicles,
+    required_features: order.required_features,
+    cargo: order.cargo,
+    weight_or_volume: order.weight_or_volume,
+    date_time_transport: order.date_time_transport,
+    notes: order.notes,
+    price_estimate: order.price_estimate,
+    type: order.type,
+    status: order.status,
+    status_history: order.status_history,
+    cancellation: order.cancellation,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+});
+
 export const createOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const errors = validationResult(req);
@@ -57,11 +207,14 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
         const {
             from_location,
             to_location,
+            from_point,
+            to_point,
             vehicle_type,
-            weight_or_volume,
+            allow_larger_vehicles = false,
+            required_features,
+            cargo: cargoInput,
             date_time_transport,
             notes,
-            type,
         }: OrderCreateData = req.body;
 
         console.log('Router ID:', id);
@@ -74,16 +227,41 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
         console.log('Found vehicle:', vehicleType);
         console.log('Vehicle category:', vehicleType.category);
 
+        const cargo = buildCargo(cargoInput);
+        // With larger vehicles allowed, a load too big for the requested type can still find a carrier.
+        if (!allow_larger_vehicles && !fitsLimits(cargo, vehicleType)) {
+            res.status(400).json({
+                message: 'الحمولة تتجاوز سعة نوع المركبة المختار',
+                limits: { maxWeightKg: vehicleType.maxWeightKg, maxVolumeM3: vehicleType.maxVolumeM3 },
+            });
+            return;
+        }
+
+        const origin = toPoint(from_point.coordinates[0], from_point.coordinates[1]);
+        const destination = toPoint(to_point.coordinates[0], to_point.coordinates[1]);
+        const priceEstimate = await estimatePrice({
+            from_point: origin,
+            to_point: destination,
+            vehicle_type: vehicleType._id,
+            cargo,
+            date_time_transport,
+        });
+
         const order = await Order.create({
             customer_id: id,
             from_location,
             to_location,
+            from_point: origin,
+            to_point: destination,
             vehicle_type,
-            weight_or_volume,
+            allow_larger_vehicles,
+            required_features: requiredVehicleFeatures(cargo, required_features),
+            cargo,
             date_time_transport,
             notes,
-            type,
+            price_estimate: priceEstimate ?? undefined,
             status: 'Pending',
+            status_history: [buildStatusChange('Pending', 'router', id)],
         });
         console.log('Created order:', order._id);
 
@@ -97,37 +275,8 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
         });
         console.log('Router notification created for user_id:', id);
 
-        const drivers = await Driver.find()
-            .populate<{ vehicleType: VehicleType }>('vehicleType')
-            .select('_id fullName vehicleNumber')
-            .lean();
-
-        const matchingDrivers = drivers.filter(driver => 
-            driver.vehicleType && 
-            (driver.vehicleType as any).category === vehicleType.category
-        );
-        console.log('Matching drivers (by vehicle category):', matchingDrivers);
-
-        const driverNotifications = matchingDrivers.map(driver => ({
-            driver_id: driver._id,
-            order_id: order._id,
-            type: 'new_order_available',
-            title: 'طلب جديد متاح',
-            message: `طلب جديد يتطابق مع فئة مركبتك متاح: من ${order.from_location} إلى ${order.to_location}`,
-            is_read: false,
-        }));
-        console.log('Driver notifications to create:', driverNotifications);
-
-        if (driverNotifications.length > 0) {
-            try {
-                await Notification.insertMany(driverNotifications);
-                console.log('Notifications created for drivers:', matchingDrivers.map(d => ({ id: d._id, fullName: d.fullName })));
-            } catch (error) {
-                console.error('Error creating driver notifications:', error);
-            }
-        } else {
-            console.log('No driver notifications created (no matching drivers)');
-        }
+        const matchingDriverCount = await announceNewOrder(order, req.io);
+        console.log('Matching drivers notified (by vehicle category):', matchingDriverCount);
 
         const populatedOrder = await Order.findById(order._id)
             .populate('vehicle_type')
@@ -139,29 +288,6 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
         if (req.io) {
             console.log('Socket.IO instance available:', req.io);
             
-            // Emit to all matching drivers with proper null check
-            matchingDrivers.forEach(driver => {
-                req.io!.to(`driver-${driver._id}`).emit('new-order-available', {
-                    order: {
-                        id: order._id,
-                        from_location: order.from_location,
-                        to_location: order.to_location,
-                        vehicle_type: order.vehicle_type,
-                        weight_or_volume: order.weight_or_volume,
-                        date_time_transport: order.date_time_transport,
-                        notes: order.notes,
-                        type: order.type,
-                        status: order.status,
-                    }
-                });
-
-                console.log(`Emitting new-notification to driver-${driver._id}`);
-                req.io!.to(`driver-${driver._id}`).emit('new-notification', {
-                    title: 'طلب جديد متاح',
-                    message: `طلب جديد يتطابق مع فئة مركبتك متاح: من ${order.from_location} إلى ${order.to_location}`
-                });
-            });
-
             req.io.to(`user-${id}`).emit('order-created', {
                 message: 'تم إنشاء طلبك بنجاح',
                 order: populatedOrder
@@ -177,20 +303,7 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
 
         res.status(201).json({
             message: 'تم إنشاء الطلب بنجاح',
-            order: {
-                id: populatedOrder!._id,
-                customer: populatedOrder!.customer_id,
-                from_location: populatedOrder!.from_location,
-                to_location: populatedOrder!.to_location,
-                vehicle_type: populatedOrder!.vehicle_type,
-                weight_or_volume: populatedOrder!.weight_or_volume,
-                date_time_transport: populatedOrder!.date_time_transport,
-                notes: populatedOrder!.notes,
-                type: populatedOrder!.type,
-                status: populatedOrder!.status,
-                createdAt: populatedOrder!.createdAt,
-                updatedAt: populatedOrder!.updatedAt,
-            },
+            order: formatOrder(populatedOrder!),
         });
     } catch (error: any) {
         console.error('Create order error:', error);
@@ -201,6 +314,51 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
     }
 };
 
+// Lets the router see a fair price range before placing the order.
+export const estimateOrderPrice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        if (req.user!.role !== 'router') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للراوتر فقط تقدير سعر الطلبات' });
+            return;
+        }
+
+        const { from_point, to_point, vehicle_type, cargo, date_time_transport } = req.body;
+        if (!(await Vehicle.exists({ _id: vehicle_type }))) {
+            res.status(400).json({ message: 'معرف نوع المركبة غير صالح' });
+            return;
+        }
+
+        const estimate = await estimatePrice({
+            from_point: toPoint(from_point.coordinates[0], from_point.coordinates[1]),
+            to_point: toPoint(to_point.coordinates[0], to_point.coordinates[1]),
+            vehicle_type: new mongoose.Types.ObjectId(vehicle_type),
+            cargo: cargo?.weight ? { weight_kg: toWeightKg(cargo.weight, cargo.weight_unit) } : undefined,
+            date_time_transport,
+        });
+        if (!estimate) {
+            res.status(404).json({ message: 'لا تتوفر بيانات كافية لتقدير سعر هذا النوع من المركبات' });
+            return;
+        }
+
+        res.json({
+            message: 'تم تقدير السعر بنجاح',
+            estimate,
+        });
+    } catch (error: any) {
+        console.error('Estimate order price error:', error);
+        res.status(500).json({
+            message: 'خطأ في تقدير سعر الطلب',
+            error: error.message,
+        });
+    }
+};
+
 export const getRouterOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const { id, role } = req.user!;
@@ -222,20 +380,7 @@ export const getRouterOrders = async (req: AuthenticatedRequest, res: Response):
 
         res.json({
             message: 'تم استرجاع الطلبات بنجاح',
-            orders: orders.map((order) => ({
-                id: order._id,
-                customer: order.customer_id,
-                from_location: order.from_location,
-                to_location: order.to_location,
-                vehicle_type: order.vehicle_type,
-                weight_or_volume: order.weight_or_volume,
-                date_time_transport: order.date_time_transport,
-                notes: order.notes,
-                type: order.type,
-                status: order.status,
-                createdAt: order.createdAt,
-                updatedAt: order.updatedAt,
-            })),
+            orders: orders.map(formatOrder),
         });
     } catch (error: any) {
         res.status(500).json({
@@ -282,20 +427,7 @@ export const getOrderById = async (req: AuthenticatedRequest, res: Response): Pr
 
         res.json({
             message: 'تم استرجاع الطلب بنجاح',
-            order: {
-                id: order._id,
-                customer: order.customer_id,
-                from_location: order.from_location,
-                to_location: order.to_location,
-                vehicle_type: order.vehicle_type,
-                weight_or_volume: order.weight_or_volume,
-                date_time_transport: order.date_time_transport,
-                notes: order.notes,
-                type: order.type,
-                status: order.status,
-                createdAt: order.createdAt,
-                updatedAt: order.updatedAt,
-            },
+            order: formatOrder(order),
         });
     } catch (error: any) {
         res.status(500).json({
@@ -305,43 +437,302 @@ export const getOrderById = async (req: AuthenticatedRequest, res: Response): Pr
     }
 };
 
-export const getDriverOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+interface OrderUpdateData {
+    from_location?: string;
+    to_location?: string;
+    from_point?: IGeoPoint;
+    to_point?: IGeoPoint;
+    vehicle_type?: string;
+    allow_larger_vehicles?: boolean;
+    required_features?: VehicleFeature[];
+    cargo?: Partial<CargoInput>;
+    date_time_transport?: Date;
+    notes?: string;
+}
+
+const samePoint = (a?: IGeoPoint, b?: IGeoPoint) =>
+    !!a && !!b && a.coordinates[0] === b.coordinates[0] && a.coordinates[1] === b.coordinates[1];
+
+// Only notes can change without touching the offers; every other field changes what the drivers bid on.
+export const updateOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
         const { id, role } = req.user!;
-        if (role !== 'driver') {
-            res.status(403).json({ message: 'غير مصرح: يمكن للسائقين فقط الوصول إلى الطلبات' });
+        if (role !== 'router') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للراوتر فقط تعديل الطلبات' });
             return;
         }
 
+        const orderId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            res.status(400).json({ message: 'معرف الطلب غير صالح' });
+            return;
+        }
 
-        const driver = await Driver.findById(id).populate<{ vehicleType: VehicleType }>('vehicleType');
-        if (!driver) {
-            res.status(404).json({ message: 'السائق غير موجود' });
+        const order = await Order.findOne({ _id: orderId, customer_id: id });
+        if (!order) {
+            res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
             return;
         }
 
+        if (!OPEN_ORDER_STATUSES.includes(order.status)) {
+            res.status(400).json({ message: 'لا يمكن تعديل الطلب بعد قبول عرض عليه' });
+            return;
+        }
 
-        const populatedDriver = driver as any;
-        const driverVehicleCategory = populatedDriver.vehicleType.category;
-        
+        const data: OrderUpdateData = req.body;
+        const changedFields: string[] = [];
 
+        if (data.from_location !== undefined && data.from_location !== order.from_location) {
+            order.from_location = data.from_location;
+            changedFields.push('from_location');
+        }
+        if (data.to_location !== undefined && data.to_location !== order.to_location) {
+            order.to_location = data.to_location;
+            changedFields.push('to_location');
+        }
+        if (data.from_point) {
+            const point = toPoint(data.from_point.coordinates[0], data.from_point.coordinates[1]);
+            if (!samePoint(point, order.from_point)) {
+                order.from_point = point;
+                changedFields.push('from_point');
+            }
+        }
+        if (data.to_point) {
+            const point = toPoint(data.to_point.coordinates[0], data.to_point.coordinates[1]);
+            if (!samePoint(point, order.to_point)) {
+                order.to_point = point;
+                changedFields.push('to_point');
+            }
+        }
+        if (data.vehicle_type && data.vehicle_type !== order.vehicle_type.toString()) {
+            if (!(await Vehicle.exists({ _id: data.vehicle_type }))) {
+                res.status(400).json({ message: 'معرف نوع المركبة غير صالح' });
+                return;
+            }
+            order.vehicle_type = new mongoose.Types.ObjectId(data.vehicle_type);
+            changedFields.push('vehicle_type');
+        }
+        if (data.allow_larger_vehicles !== undefined && data.allow_larger_vehicles !== order.allow_larger_vehicles) {
+            order.allow_larger_vehicles = data.allow_larger_vehicles;
+            changedFields.push('allow_larger_vehicles');
+        }
+        if (data.date_time_transport && data.date_time_transport.getTime() !== order.date_time_transport.getTime()) {
+            order.date_time_transport = data.date_time_transport;
+            changedFields.push('date_time_transport');
+        }
 
-        const orders = await Order.find({ 
-            status: 'Pending',
-            offered_drivers: { $ne: id }
-        })
-            .populate<{ vehicle_type: VehicleType }>('vehicle_type')
+        if (data.cargo) {
+            const current = order.cargo;
+            // Orders from before structured cargo have nothing to merge a partial update into.
+            const cargoInput = mergeCargoInput(current, data.cargo);
+            if (!cargoInput) {
+                res.status(400).json({ message: 'يجب إدخال وزن الحمولة ووحدته وفئتها' });
+                return;
+            }
+
+            const cargo = buildCargo(cargoInput);
+            if (!sameCargo(cargo, current)) {
+                order.set('cargo', { ...cargo, photos: current ? current.photos.toObject() : [] });
+                changedFields.push('cargo');
+            }
+        }
+
+        if (data.required_features || changedFields.includes('cargo')) {
+            const features = requiredVehicleFeatures(
+                order.cargo || { is_refrigerated: false, is_hazmat: false },
+                data.required_features ?? order.required_features
+            );
+            if ([...features].sort().join() !== [...order.required_features].sort().join()) {
+                order.required_features = features;
+                changedFields.push('required_features');
+            }
+        }
+
+        if (['vehicle_type', 'cargo', 'allow_larger_vehicles'].some((field) => changedFields.includes(field))
+            && !order.allow_larger_vehicles) {
+            const vehicleType = await Vehicle.findById(order.vehicle_type);
+            if (vehicleType && !fitsLimits(order.cargo, vehicleType)) {
+                res.status(400).json({
+                    message: 'الحمولة تتجاوز سعة نوع المركبة المختار',
+                    limits: { maxWeightKg: vehicleType.maxWeightKg, maxVolumeM3: vehicleType.maxVolumeM3 },
+                });
+                return;
+            }
+        }
+
+        if (data.notes !== undefined) order.notes = data.notes;
+        if (['from_point', 'to_point', 'vehicle_type', 'cargo', 'date_time_transport']
+            .some((field) => changedFields.includes(field))) {
+            const priceEstimate = await estimatePrice(order);
+            order.set('price_estimate', priceEstimate ?? undefined);
+        }
+        await order.save();
+
+        let staleOffers: IOffer[] = [];
+        if (changedFields.length) {
+            staleOffers = await Offer.find({ order_id: order._id, status: { $in: OPEN_OFFER_STATUSES } });
+            await Offer.updateMany(
+                { _id: { $in: staleOffers.map((offer) => offer._id) } },
+                { $set: { is_stale: true, stale_since: new Date() } }
+            );
+
+            const title = 'تم تعديل الطلب';
+            const message = `تم تعديل الطلب من ${order.from_location} إلى ${order.to_location} الذي قدمت عرضًا عليه، يرجى مراجعة التفاصيل وتأكيد عرضك من جديد`;
+            const recipients: { driver_id?: string; company_id?: string }[] = [
+                ...order.offered_drivers.map((driverId) => ({ driver_id: driverId.toString() })),
+                ...staleOffers.filter((offer) => offer.company_id).map(offerBidderRecipient),
+            ];
+            if (recipients.length) {
+                await Notification.insertMany(recipients.map((recipient) => ({
+                    ...recipient,
+                    order_id: order._id,
+                    type: 'order_updated',
+                    title,
+                    message,
+                    is_read: false,
+                    metadata: { changed_fields: changedFields },
+                })));
+            }
+
+            if (req.io) {
+                recipients.forEach((recipient) => {
+                    const room = recipient.driver_id ? `driver-${recipient.driver_id}` : `company-${recipient.company_id}`;
+                    req.io!.to(room).emit('order-updated', {
+                        message,
+                        order_id: order._id,
+                        changed_fields: changedFields,
+                        offers_stale: true,
+                    });
+                    req.io!.to(room).emit('new-notification', { title, message });
+                });
+            }
+        }
+
+        const populatedOrder = await Order.findById(order._id)
+            .populate('vehicle_type')
             .populate({
                 path: 'customer_id',
                 select: '-password'
-            })
-            .lean();
+            });
+
+        if (req.io) {
+            req.io.to(`order-${order._id}`).emit('order-updated', {
+                message: 'تم تعديل الطلب',
+                order: populatedOrder,
+                changed_fields: changedFields,
+            });
+            if (staleOffers.length) {
+                req.io.to(`order-offers-${order._id}`).emit('offers-stale', {
+                    order_id: order._id,
+                    offer_ids: staleOffers.map((offer) => offer._id),
+                });
+            }
+        }
 
+        res.json({
+            message: 'تم تعديل الطلب بنجاح',
+            order: formatOrder(populatedOrder!),
+            changed_fields: changedFields,
+            stale_offers: staleOffers.length,
+        });
+    } catch (error: any) {
+        console.error('Update order error:', error);
+        res.status(500).json({
+            message: 'خطأ في تعديل الطلب',
+            error: error.message,
+        });
+    }
+};
 
-        const filteredOrders = orders.filter((order) => 
-            order.vehicle_type && 
-            (order.vehicle_type as any).category === driverVehicleCategory
-        );
+export const validateDriverOrdersQuery = [
+    query('lng').optional().isFloat({ min: -180, max: 180 }).withMessage('خط الطول غير صالح'),
+    query('lat').optional().isFloat({ min: -90, max: 90 }).withMessage('خط العرض غير صالح'),
+    query('radius_km')
+        .optional()
+        .isFloat({ gt: 0, max: MAX_DRIVER_FEED_RADIUS_KM })
+        .withMessage(`يجب أن يكون نصف القطر بين 0 و ${MAX_DRIVER_FEED_RADIUS_KM} كم`),
+    query('sort').optional().isIn(['distance', 'date']).withMessage('قيمة الترتيب غير صالحة'),
+];
+
+export const getDriverOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        if (role !== 'driver') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للسائقين فقط الوصول إلى الطلبات' });
+            return;
+        }
+
+
+        const driver = await Driver.findById(id);
+        if (!driver) {
+            res.status(404).json({ message: 'السائق غير موجود' });
+            return;
+        }
+
+        // Orders show up if any of the driver's active vehicles can carry them.
+        const vehicleMatch = await buildOrderMatchForVehicles(personalVehicleFilter(id));
+
+        const { lng, lat, radius_km, sort = 'distance' } = req.query as Record<string, string | undefined>;
+        const origin: IGeoPoint | undefined = lng !== undefined && lat !== undefined
+            ? toPoint(Number(lng), Number(lat))
+            : driver.currentLocation?.coordinates?.length
+                ? driver.currentLocation
+                : driver.homeLocation?.coordinates?.length
+                    ? driver.homeLocation
+                    : undefined;
+        const radiusKm = radius_km ? Number(radius_km) : DEFAULT_DRIVER_FEED_RADIUS_KM;
+
+        const match = {
+            status: { $in: OPEN_ORDER_STATUSES },
+            offered_drivers: { $ne: new mongoose.Types.ObjectId(id) },
+            ...vehicleMatch,
+        };
+
+        let orders: any[];
+        if (origin) {
+            orders = await Order.aggregate([
+                {
+                    $geoNear: {
+                        near: origin,
+                        key: 'from_point',
+                        distanceField: 'pickup_distance_m',
+                        maxDistance: radiusKm * 1000,
+                        spherical: true,
+                        query: match,
+                    },
+                },
+                {
+                    $sort: sort === 'date'
+                        ? { date_time_transport: 1, pickup_distance_m: 1 }
+                        : { pickup_distance_m: 1, date_time_transport: 1 },
+                },
+            ]);
+            await Order.populate(orders, [
+                { path: 'vehicle_type' },
+                { path: 'customer_id', select: '-password' },
+            ]);
+        } else {
+            orders = await Order.find(match)
+                .sort({ date_time_transport: 1 })
+                .populate<{ vehicle_type: VehicleType }>('vehicle_type')
+                .populate({
+                    path: 'customer_id',
+                    select: '-password'
+                })
+                .lean();
+        }
 
         if (req.io && req.headers['socket-id']) {
             req.io.to(req.headers['socket-id']).emit('subscribe-driver-orders', id);
@@ -349,19 +740,13 @@ export const getDriverOrders = async (req: AuthenticatedRequest, res: Response):
 
         res.json({
             message: 'تم استرجاع الطلبات بنجاح',
-            orders: filteredOrders.map((order) => ({
-                id: order._id,
-                customer: order.customer_id,
-                from_location: order.from_location,
-                to_location: order.to_location,
-                vehicle_type: order.vehicle_type,
-                weight_or_volume: order.weight_or_volume,
-                date_time_transport: order.date_time_transport,
-                notes: order.notes,
-                type: order.type,
-                status: order.status,
-                createdAt: order.createdAt,
-                updatedAt: order.updatedAt,
+            origin: origin || null,
+            radius_km: origin ? radiusKm : null,
+            orders: orders.map((order) => ({
+                ...formatOrder(order),
+                pickup_distance_km: order.pickup_distance_m !== undefined
+                    ? Math.round(order.pickup_distance_m / 100) / 10
+                    : null,
             })),
         });
     } catch (error: any) {
@@ -371,3 +756,337 @@ export const getDriverOrders = async (req: AuthenticatedRequest, res: Response):
         });
     }
 };
+
+export const validateOrderTransition = [
+    body('note').optional().trim().isLength({ max: 500 }).withMessage('يجب ألا تتجاوز الملاحظة 500 حرف'),
+];
+
+const changeOrderStatus = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    action: OrderAction
+): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        const actorRole = role as OrderActorRole;
+        if (!canActorTransition(action, actorRole)) {
+            res.status(403).json({ message: 'غير مصرح: لا يمكنك تنفيذ هذا الإجراء على الطلب' });
+            return;
+        }
+
+        const orderId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            res.status(400).json({ message: 'معرف الطلب غير صالح' });
+            return;
+        }
+
+        const order = await Order.findById(orderId);
+        if (!order) {
+            res.status(404).json({ message: 'الطلب غير موجود' });
+            return;
+        }
+
+        const driverId = await getAssignedDriverId(order);
+
+        const isOwner = actorRole === 'router' && order.customer_id.toString() === id;
+        const isAssignedDriver = actorRole === 'driver' && !!driverId && driverId.toString() === id;
+        const isAdmin = actorRole === 'admin';
+        if (!isOwner && !isAssignedDriver && !isAdmin) {
+            res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+            return;
+        }
+
+        if (!canTransitionFrom(action, order.status)) {
+            res.status(400).json({
+                message: `لا يمكن تغيير حالة الطلب من ${order.status} إلى ${ORDER_TRANSITIONS[action].to}`,
+            });
+            return;
+        }
+
+        const previousStatus = order.status;
+        const nextStatus = ORDER_TRANSITIONS[action].to;
+        const isCancellation = nextStatus === 'Cancelled';
+        // Cancelling always takes a reason, which also serves as the status history note.
+        const note: string | undefined = isCancellation ? req.body?.reason : req.body?.note;
+        const cancellation = isCancellation
+            ? {
+                reason: note!,
+                cancelled_by: new mongoose.Types.ObjectId(id),
+                cancelled_by_role: actorRole,
+                previous_status: previousStatus,
+                cancelledAt: new Date(),
+            }
+            : undefined;
+
+        const updatedOrder = await Order.findOneAndUpdate(
+            { _id: order._id, status: previousStatus },
+            {
+                $set: {
+                    status: nextStatus,
+                    ...(driverId && !order.driver_id ? { driver_id: driverId } : {}),
+                    ...(cancellation ? { cancellation } : {}),
+                },
+                $push: { status_history: buildStatusChange(nextStatus, actorRole, id, note) },
+            },
+            { new: true }
+        )
+            .populate('vehicle_type')
+            .populate({
+                path: 'customer_id',
+                select: '-password'
+            });
+
+        if (!updatedOrder) {
+            res.status(409).json({ message: 'تم تغيير حالة الطلب بالفعل، يرجى إعادة المحاولة' });
+            return;
+        }
+
+        // The order has already moved, so a provider failure is logged and the settlement job retries the Held payment.
+        let payment: IPayment | null = null;
+        try {
+            if (nextStatus === 'Completed') payment = await captureOrderPayment(order._id);
+            if (isCancellation) payment = await refundOrderPayment(order._id);
+        } catch (paymentError) {
+            console.error('Order payment settlement error:', paymentError);
+        }
+
+        let invoice: IInvoice | undefined;
+        if (nextStatus === 'Completed') {
+            try {
+                invoice = await issueInvoice(updatedOrder);
+            } catch (invoiceError) {
+                console.error('Order invoice error:', invoiceError);
+            }
+        }
+
+        let closedOffers: IOffer[] = [];
+        if (isCancellation) {
+            closedOffers = await Offer.find({ order_id: order._id, status: { $in: OPEN_OFFER_STATUSES } });
+            await Offer.updateMany(
+                { _id: { $in: closedOffers.map((offer) => offer._id) } },
+                { $set: { status: 'Rejected' } }
+            );
+        }
+
+        const notificationType = nextStatus === 'Completed'
+            ? 'order_completed'
+            : nextStatus === 'Cancelled'
+                ? 'order_cancelled'
+                : 'order_updated';
+        const title = ORDER_STATUS_MESSAGES[nextStatus];
+        const message = note ? `${title}: ${note}` : title;
+        const metadata = {
+            previous_status: previousStatus,
+            status: nextStatus,
+            ...(cancellation ? { reason: cancellation.reason, cancelled_by_role: cancellation.cancelled_by_role } : {}),
+        };
+
+        const notifications: any[] = [{
+            user_id: order.customer_id,
+            order_id: order._id,
+            type: notificationType,
+            title,
+            message,
+            is_read: false,
+            metadata,
+        }];
+        if (driverId) {
+            notifications.push({
+                driver_id: driverId,
+                order_id: order._id,
+                type: notificationType,
+                title,
+                message,
+                is_read: false,
+                metadata,
+            });
+        }
+        if (order.company_id) {
+            notifications.push({
+                company_id: order.company_id,
+                order_id: order._id,
+                type: notificationType,
+                title,
+                message,
+                is_read: false,
+                metadata,
+            });
+        }
+        closedOffers.forEach((offer) => {
+            notifications.push({
+                ...offerBidderRecipient(offer),
+                order_id: order._id,
+                type: 'order_cancelled',
+                title,
+                message: `تم إلغاء الطلب الذي قدمت عرضًا عليه: ${note}`,
+                is_read: false,
+            });
+        });
+        await Notification.insertMany(notifications);
+
+        if (req.io) {
+            const payload = {
+                message,
+                order_id: order._id,
+                previous_status: previousStatus,
+                status: nextStatus,
+                cancellation,
+                order: updatedOrder,
+            };
+
+            req.io.to(`user-${order.customer_id}`).emit('order-status-changed', payload);
+            req.io.to(`user-${order.customer_id}`).emit('new-notification', { title, message });
+            if (driverId) {
+                req.io.to(`driver-${driverId}`).emit('order-status-changed', payload);
+                req.io.to(`driver-${driverId}`).emit('new-notification', { title, message });
+            }
+            if (order.company_id) {
+                req.io.to(`company-${order.company_id}`).emit('order-status-changed', payload);
+            }
+            req.io.to(`order-${order._id}`).emit('order-status-changed', payload);
+
+            closedOffers.forEach((offer) => {
+                req.io!.to(offerBidderRoom(offer)).emit('offer-rejected', {
+                    message: `تم إلغاء الطلب الذي قدمت عرضًا عليه: ${note}`,
+                    order_id: order._id,
+                });
+            });
+        }
+
+        res.json({
+            message: 'تم تحديث حالة الطلب بنجاح',
+            order: formatOrder(updatedOrder),
+            ...(payment ? { payment: formatPayment(payment) } : {}),
+            ...(invoice ? { invoice: { number: invoice.number, issuedAt: invoice.issuedAt } } : {}),
+        });
+    } catch (error: any) {
+        console.error('Change order status error:', error);
+        res.status(500).json({
+            message: 'خطأ في تحديث حالة الطلب',
+            error: error.message,
+        });
+    }
+};
+
+export const pickupOrder = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    changeOrderStatus(req, res, 'pickup');
+
+export const startOrder = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    changeOrderStatus(req, res, 'start');
+
+export const deliverOrder = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    changeOrderStatus(req, res, 'deliver');
+
+export const completeOrder = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    changeOrderStatus(req, res, 'complete');
+
+export const cancelOrder = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    changeOrderStatus(req, res, 'cancel');
+
+export const forceCancelOrder = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    changeOrderStatus(req, res, 'forceCancel');
+
+export const MAX_CARGO_PHOTOS = 6;
+const CARGO_PHOTOS_FOLDER = 'cargo-photos';
+
+const findOpenRouterOrder = async (req: AuthenticatedRequest, res: Response) => {
+    const { id, role } = req.user!;
+    if (role !== 'router') {
+        res.status(403).json({ message: 'غير مصرح: يمكن للراوتر فقط تعديل صور الحمولة' });
+        return null;
+    }
+
+    const orderId = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(orderId)) {
+        res.status(400).json({ message: 'معرف الطلب غير صالح' });
+        return null;
+    }
+
+    const order = await Order.findOne({ _id: orderId, customer_id: id });
+    if (!order) {
+        res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+        return null;
+    }
+
+    if (!order.cargo || !OPEN_ORDER_STATUSES.includes(order.status)) {
+        res.status(400).json({ message: 'لا يمكن تعديل صور الحمولة لهذا الطلب' });
+        return null;
+    }
+
+    return order;
+};
+
+export const uploadCargoPhotos = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const uploaded: { url: string; publicId: string; uploadedAt: Date }[] = [];
+    try {
+        const order = await findOpenRouterOrder(req, res);
+        if (!order) return;
+
+        const files = Array.isArray(req.files) ? req.files : [];
+        if (!files.length) {
+            res.status(400).json({ message: 'يرجى رفع صورة واحدة على الأقل' });
+            return;
+        }
+
+        if (order.cargo!.photos.length + files.length > MAX_CARGO_PHOTOS) {
+            res.status(400).json({ message: `يمكن رفع ${MAX_CARGO_PHOTOS} صور كحد أقصى للحمولة` });
+            return;
+        }
+
+        for (const file of files) {
+            const uploadResult = await uploadToCloudinary(file, CARGO_PHOTOS_FOLDER);
+            uploaded.push({ url: uploadResult.secure_url, publicId: uploadResult.public_id, uploadedAt: new Date() });
+        }
+
+        uploaded.forEach((photo) => order.cargo!.photos.push(photo));
+        await order.save();
+
+        res.json({
+            message: 'تم رفع صور الحمولة بنجاح',
+            photos: order.cargo!.photos.map((photo) => ({ id: photo._id, url: photo.url, uploadedAt: photo.uploadedAt })),
+        });
+    } catch (error: any) {
+        console.error('Cargo photo upload error:', error);
+        for (const photo of uploaded) {
+            await deleteFromCloudinary(photo.publicId).catch(() => undefined);
+        }
+        res.status(500).json({
+            message: 'خطأ في رفع صور الحمولة',
+            error: error.message,
+        });
+    }
+};
+
+export const deleteCargoPhoto = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const order = await findOpenRouterOrder(req, res);
+        if (!order) return;
+
+        const photo = mongoose.Types.ObjectId.isValid(req.params.photoId)
+            ? order.cargo!.photos.id(req.params.photoId)
+            : null;
+        if (!photo) {
+            res.status(404).json({ message: 'الصورة غير موجودة' });
+            return;
+        }
+
+        const { publicId } = photo;
+        order.cargo!.photos.pull(photo._id);
+        await order.save();
+        await deleteFromCloudinary(publicId).catch((deleteError) =>
+            console.error('Error deleting cargo photo:', deleteError));
+
+        res.json({ message: 'تم حذف صورة الحمولة بنجاح' });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في حذف صورة الحمولة',
+            error: error.message,
+        });
+    }
+};
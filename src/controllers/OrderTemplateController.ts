@@ -0,0 +1,635 @@
+import { Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Order from '../models/Order';
+import OrderSchedule, { IOrderSchedule } from '../models/OrderSchedule';
+import OrderTemplate, { IOrderTemplate } from '../models/OrderTemplate';
+import Vehicle, { VehicleFeature } from '../models/Vehicle';
+import { IGeoPoint } from '../models/GeoPoint';
+import { buildCargo, CargoInput, fitsLimits, mergeCargoInput, requiredVehicleFeatures } from '../utils/cargo';
+import { toPoint } from '../utils/geo';
+import { OPEN_ORDER_STATUSES } from '../utils/orderLifecycle';
+import { createOrderFromTemplate, pendingOccurrences } from '../utils/orderTemplate';
+import {
+    isValidCronExpression,
+    isValidTimeOfDay,
+    isValidTimeZone,
+    minimumIntervalMinutes,
+    occurrencesBetween,
+    RECURRENCE_FREQUENCIES,
+    RecurrenceFrequency,
+    RecurrenceInput,
+    toCronExpression,
+} from '../utils/recurrence';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+    io?: SocketIOServer;
+}
+
+interface OrderTemplateData {
+    name?: string;
+    from_location?: string;
+    to_location?: string;
+    from_point?: IGeoPoint;
+    to_point?: IGeoPoint;
+    vehicle_type?: string;
+    allow_larger_vehicles?: boolean;
+    required_features?: VehicleFeature[];
+    cargo?: Partial<CargoInput>;
+    notes?: string;
+}
+
+interface OrderScheduleData {
+    template_id?: string;
+    frequency?: RecurrenceFrequency;
+    time_of_day?: string;
+    days_of_week?: number[];
+    cron_expression?: string;
+    timezone?: string;
+    lead_hours?: number;
+    starts_at?: Date | null;
+    ends_at?: Date | null;
+}
+
+const MAX_LEAD_HOURS = 30 * 24;
+const MAX_SCHEDULED_ORDERS_PER_WEEK = 21;
+const MIN_OCCURRENCE_INTERVAL_HOURS = 4;
+const DEFAULT_UPCOMING_DAYS = 14;
+const MAX_UPCOMING_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const validateTemplateName = [
+    body('name').trim().notEmpty().withMessage('اسم القالب مطلوب'),
+];
+
+export const validateTemplateRename = [
+    body('name').optional().trim().notEmpty().withMessage('لا يمكن أن يكون اسم القالب فارغًا'),
+];
+
+export const validateOrderFromTemplate = [
+    body('date_time_transport')
+        .isISO8601()
+        .toDate()
+        .withMessage('تاريخ ووقت النقل غير صالح')
+        .custom((value: Date) => value.getTime() > Date.now())
+        .withMessage('يجب أن يكون موعد النقل في المستقبل'),
+];
+
+const scheduleValidation = [
+    body('time_of_day').optional().custom(isValidTimeOfDay).withMessage('يجب أن يكون الوقت بصيغة HH:mm'),
+    body('days_of_week').optional().isArray({ min: 1 }).withMessage('يجب اختيار يوم واحد على الأقل'),
+    body('days_of_week.*').isInt({ min: 0, max: 6 }).withMessage('يوم الأسبوع غير صالح').toInt(),
+    body('cron_expression').optional().trim().custom(isValidCronExpression).withMessage('تعبير الجدولة غير صالح'),
+    body('timezone').optional().custom(isValidTimeZone).withMessage('المنطقة الزمنية غير صالحة'),
+    body('lead_hours')
+        .optional()
+        .isInt({ min: 1, max: MAX_LEAD_HOURS })
+        .withMessage(`يجب أن تكون مدة الإنشاء المسبق بين 1 و ${MAX_LEAD_HOURS} ساعة`)
+        .toInt(),
+    body('starts_at').optional({ values: 'null' }).isISO8601().withMessage('تاريخ البداية غير صالح').toDate(),
+    body('ends_at').optional({ values: 'null' }).isISO8601().withMessage('تاريخ النهاية غير صالح').toDate(),
+];
+
+export const validateScheduleCreate = [
+    body('template_id').isMongoId().withMessage('معرف القالب غير صالح'),
+    body('frequency').isIn(RECURRENCE_FREQUENCIES).withMessage('نوع التكرار غير صالح'),
+    ...scheduleValidation,
+];
+
+export const validateScheduleUpdate = [
+    body('frequency').optional().isIn(RECURRENCE_FREQUENCIES).withMessage('نوع التكرار غير صالح'),
+    ...scheduleValidation,
+];
+
+export const validateUpcomingQuery = [
+    query('days')
+        .optional()
+        .isInt({ min: 1, max: MAX_UPCOMING_DAYS })
+        .withMessage(`يجب أن يكون عدد الأيام بين 1 و ${MAX_UPCOMING_DAYS}`),
+];
+
+const formatTemplate = (template: IOrderTemplate) => ({
+    id: template._id,
+    name: template.name,
+    from_location: template.from_location,
+    to_location: template.to_location,
+    from_point: template.from_point,
+    to_point: template.to_point,
+    vehicle_type: template.vehicle_type,
+    allow_larger_vehicles: template.allow_larger_vehicles,
+    required_features: template.required_features,
+    cargo: template.cargo,
+    notes: template.notes,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+});
+
+const formatSchedule = (schedule: IOrderSchedule) => {
+    const nextTransportAt = schedule.status === 'active'
+        ? pendingOccurrences(schedule, new Date(Date.now() + MAX_UPCOMING_DAYS * DAY_MS))[0]
+        : undefined;
+    return {
+        id: schedule._id,
+        template: schedule.template_id,
+        frequency: schedule.frequency,
+        time_of_day: schedule.time_of_day,
+        days_of_week: schedule.days_of_week,
+        cron_expression: schedule.cron_expression,
+        timezone: schedule.timezone,
+        lead_hours: schedule.lead_hours,
+        starts_at: schedule.starts_at,
+        ends_at: schedule.ends_at,
+        status: schedule.status,
+        last_generated_for: schedule.last_generated_for,
+        next_transport_at: nextTransportAt || null,
+        createdAt: schedule.createdAt,
+        updatedAt: schedule.updatedAt,
+    };
+};
+
+const findOwnTemplate = async (req: AuthenticatedRequest, res: Response): Promise<IOrderTemplate | null> => {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        res.status(400).json({ message: 'معرف القالب غير صالح' });
+        return null;
+    }
+    const template = await OrderTemplate.findOne({ _id: req.params.id, customer_id: req.user!.id });
+    if (!template) {
+        res.status(404).json({ message: 'القالب غير موجود' });
+        return null;
+    }
+    return template;
+};
+
+const findOwnSchedule = async (req: AuthenticatedRequest, res: Response): Promise<IOrderSchedule | null> => {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        res.status(400).json({ message: 'معرف الجدول غير صالح' });
+        return null;
+    }
+    const schedule = await OrderSchedule.findOne({ _id: req.params.id, customer_id: req.user!.id });
+    if (!schedule) {
+        res.status(404).json({ message: 'الجدول غير موجود' });
+        return null;
+    }
+    return schedule;
+};
+
+// Applies the template fields in `data`, checking the result the same way createOrder checks a new order.
+const applyTemplateData = async (template: IOrderTemplate, data: OrderTemplateData): Promise<string | null> => {
+    if (data.name !== undefined) template.name = data.name;
+    if (data.from_location !== undefined) template.from_location = data.from_location;
+    if (data.to_location !== undefined) template.to_location = data.to_location;
+    if (data.from_point) template.from_point = toPoint(data.from_point.coordinates[0], data.from_point.coordinates[1]);
+    if (data.to_point) template.to_point = toPoint(data.to_point.coordinates[0], data.to_point.coordinates[1]);
+    if (data.vehicle_type) template.vehicle_type = new mongoose.Types.ObjectId(data.vehicle_type);
+    if (data.allow_larger_vehicles !== undefined) template.allow_larger_vehicles = data.allow_larger_vehicles;
+    if (data.notes !== undefined) template.notes = data.notes;
+
+    if (data.cargo) {
+        const cargoInput = mergeCargoInput(template.cargo, data.cargo);
+        if (!cargoInput) return 'يجب إدخال وزن الحمولة ووحدته وفئتها';
+        template.set('cargo', { ...buildCargo(cargoInput), photos: [] });
+    }
+    if (data.cargo || data.required_features) {
+        template.required_features = requiredVehicleFeatures(
+            template.cargo,
+            data.required_features ?? template.required_features
+        );
+    }
+
+    const vehicleType = await Vehicle.findById(template.vehicle_type);
+    if (!vehicleType) return 'معرف نوع المركبة غير صالح';
+    if (!template.allow_larger_vehicles && !fitsLimits(template.cargo, vehicleType)) {
+        return 'الحمولة تتجاوز سعة نوع المركبة المختار';
+    }
+    return null;
+};
+
+export const getMyTemplates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const templates = await OrderTemplate.find({ customer_id: req.user!.id })
+            .sort({ name: 1 })
+            .populate('vehicle_type');
+
+        res.json({
+            message: 'تم استرجاع القوالب بنجاح',
+            templates: templates.map(formatTemplate),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع القوالب',
+            error: error.message,
+        });
+    }
+};
+
+export const createTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const data: OrderTemplateData = req.body;
+        const template = new OrderTemplate({ customer_id: req.user!.id });
+        const invalid = await applyTemplateData(template, data);
+        if (invalid) {
+            res.status(400).json({ message: invalid });
+            return;
+        }
+        await template.save();
+
+        res.status(201).json({
+            message: 'تم حفظ القالب بنجاح',
+            template: formatTemplate(template),
+        });
+    } catch (error: any) {
+        if (error.code === 11000) {
+            res.status(400).json({ message: 'لديك قالب آخر بنفس الاسم' });
+            return;
+        }
+        res.status(500).json({
+            message: 'خطأ في حفظ القالب',
+            error: error.message,
+        });
+    }
+};
+
+export const createTemplateFromOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(req.params.orderId)) {
+            res.status(400).json({ message: 'معرف الطلب غير صالح' });
+            return;
+        }
+
+        const order = await Order.findOne({ _id: req.params.orderId, customer_id: req.user!.id });
+        if (!order) {
+            res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+            return;
+        }
+
+        if (!order.cargo || !order.from_point || !order.to_point) {
+            res.status(400).json({ message: 'لا يمكن حفظ هذا الطلب كقالب لأنه لا يحتوي على بيانات الحمولة والمواقع كاملة' });
+            return;
+        }
+
+        const { photos: _photos, ...cargo } = order.toObject().cargo!;
+        const template = await OrderTemplate.create({
+            customer_id: req.user!.id,
+            name: req.body.name,
+            from_location: order.from_location,
+            to_location: order.to_location,
+            from_point: order.from_point,
+            to_point: order.to_point,
+            vehicle_type: order.vehicle_type,
+            allow_larger_vehicles: order.allow_larger_vehicles,
+            required_features: order.required_features,
+            cargo: { ...cargo, photos: [] },
+            notes: order.notes,
+        });
+
+        res.status(201).json({
+            message: 'تم حفظ القالب بنجاح',
+            template: formatTemplate(template),
+        });
+    } catch (error: any) {
+        if (error.code === 11000) {
+            res.status(400).json({ message: 'لديك قالب آخر بنفس الاسم' });
+            return;
+        }
+        res.status(500).json({
+            message: 'خطأ في حفظ القالب',
+            error: error.message,
+        });
+    }
+};
+
+// Orders already created from the template keep their details.
+export const updateTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const template = await findOwnTemplate(req, res);
+        if (!template) return;
+
+        const invalid = await applyTemplateData(template, req.body);
+        if (invalid) {
+            res.status(400).json({ message: invalid });
+            return;
+        }
+        await template.save();
+
+        res.json({
+            message: 'تم تحديث القالب بنجاح',
+            template: formatTemplate(template),
+        });
+    } catch (error: any) {
+        if (error.code === 11000) {
+            res.status(400).json({ message: 'لديك قالب آخر بنفس الاسم' });
+            return;
+        }
+        res.status(500).json({
+            message: 'خطأ في تحديث القالب',
+            error: error.message,
+        });
+    }
+};
+
+export const deleteTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const template = await findOwnTemplate(req, res);
+        if (!template) return;
+
+        if (await OrderSchedule.exists({ template_id: template._id })) {
+            res.status(400).json({ message: 'لا يمكن حذف قالب مرتبط بجدول، احذف الجدول أولًا' });
+            return;
+        }
+
+        await template.deleteOne();
+
+        res.json({ message: 'تم حذف القالب بنجاح' });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في حذف القالب',
+            error: error.message,
+        });
+    }
+};
+
+export const placeTemplateOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const template = await findOwnTemplate(req, res);
+        if (!template) return;
+
+        const order = await createOrderFromTemplate(template, req.body.date_time_transport, req.io);
+
+        res.status(201).json({
+            message: 'تم إنشاء الطلب بنجاح',
+            order,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إنشاء الطلب',
+            error: error.message,
+        });
+    }
+};
+
+// Checks the merged recurrence of a schedule being created or edited; returns the problem, if any.
+const recurrenceError = (input: RecurrenceInput): string | null => {
+    if (input.frequency !== 'custom' && !input.time_of_day) return 'وقت النقل مطلوب للجداول اليومية والأسبوعية';
+    if (input.frequency === 'weekly' && !input.days_of_week?.length) return 'يجب اختيار يوم واحد على الأقل للجدول الأسبوعي';
+    if (input.frequency === 'custom' && !input.cron_expression) return 'تعبير الجدولة مطلوب للجداول المخصصة';
+
+    // The weekly count alone would let an expression fire every minute on days outside the coming week.
+    const expression = toCronExpression(input);
+    if (minimumIntervalMinutes(expression) < MIN_OCCURRENCE_INTERVAL_HOURS * 60) {
+        return `يجب أن يفصل ${MIN_OCCURRENCE_INTERVAL_HOURS} ساعات على الأقل بين طلبين من الجدول`;
+    }
+
+    const now = new Date();
+    const weekAhead = occurrencesBetween(expression, now, new Date(now.getTime() + 7 * DAY_MS));
+    if (weekAhead.length > MAX_SCHEDULED_ORDERS_PER_WEEK) {
+        return `لا يمكن أن ينشئ الجدول أكثر من ${MAX_SCHEDULED_ORDERS_PER_WEEK} طلبًا في الأسبوع`;
+    }
+    return null;
+};
+
+const applyScheduleData = (schedule: IOrderSchedule, data: OrderScheduleData): string | null => {
+    if (data.frequency) schedule.frequency = data.frequency;
+    if (data.time_of_day !== undefined) schedule.time_of_day = data.time_of_day;
+    if (data.days_of_week) schedule.days_of_week = data.days_of_week;
+    if (data.cron_expression !== undefined) schedule.cron_expression = data.cron_expression;
+    if (data.timezone) schedule.timezone = data.timezone;
+    if (data.lead_hours !== undefined) schedule.lead_hours = data.lead_hours;
+    if (data.starts_at !== undefined) schedule.starts_at = data.starts_at || undefined;
+    if (data.ends_at !== undefined) schedule.ends_at = data.ends_at || undefined;
+
+    if (schedule.starts_at && schedule.ends_at && schedule.ends_at <= schedule.starts_at) {
+        return 'يجب أن يكون تاريخ النهاية بعد تاريخ البداية';
+    }
+
+    const input: RecurrenceInput = {
+        frequency: schedule.frequency,
+        time_of_day: schedule.time_of_day,
+        days_of_week: schedule.days_of_week,
+        cron_expression: schedule.frequency === 'custom' ? schedule.cron_expression : undefined,
+    };
+    const invalid = recurrenceError(input);
+    if (invalid) return invalid;
+
+    schedule.cron_expression = toCronExpression(input);
+    return null;
+};
+
+export const getMySchedules = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const schedules = await OrderSchedule.find({ customer_id: req.user!.id })
+            .sort({ createdAt: -1 })
+            .populate('template_id', 'name from_location to_location');
+
+        res.json({
+            message: 'تم استرجاع الجداول بنجاح',
+            schedules: schedules.map(formatSchedule),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الجداول',
+            error: error.message,
+        });
+    }
+};
+
+export const createSchedule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const data: OrderScheduleData = req.body;
+        if (!(await OrderTemplate.exists({ _id: data.template_id, customer_id: req.user!.id }))) {
+            res.status(404).json({ message: 'القالب غير موجود' });
+            return;
+        }
+
+        const schedule = new OrderSchedule({ customer_id: req.user!.id, template_id: data.template_id });
+        const invalid = applyScheduleData(schedule, data);
+        if (invalid) {
+            res.status(400).json({ message: invalid });
+            return;
+        }
+        await schedule.save();
+
+        res.status(201).json({
+            message: 'تم إنشاء الجدول بنجاح',
+            schedule: formatSchedule(schedule),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في إنشاء الجدول',
+            error: error.message,
+        });
+    }
+};
+
+// Only occurrences not created yet follow the new settings; orders already created stay as they are.
+export const updateSchedule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const schedule = await findOwnSchedule(req, res);
+        if (!schedule) return;
+
+        const invalid = applyScheduleData(schedule, req.body);
+        if (invalid) {
+            res.status(400).json({ message: invalid });
+            return;
+        }
+        await schedule.save();
+
+        res.json({
+            message: 'تم تحديث الجدول بنجاح',
+            schedule: formatSchedule(schedule),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في تحديث الجدول',
+            error: error.message,
+        });
+    }
+};
+
+const setScheduleStatus = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    status: IOrderSchedule['status']
+): Promise<void> => {
+    try {
+        const schedule = await findOwnSchedule(req, res);
+        if (!schedule) return;
+
+        // Occurrences that fell in a pause are skipped rather than created late, since only future ones are generated.
+        schedule.status = status;
+        await schedule.save();
+
+        res.json({
+            message: status === 'active' ? 'تم استئناف الجدول بنجاح' : 'تم إيقاف الجدول مؤقتًا',
+            schedule: formatSchedule(schedule),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في تحديث حالة الجدول',
+            error: error.message,
+        });
+    }
+};
+
+export const pauseSchedule = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    setScheduleStatus(req, res, 'paused');
+
+export const resumeSchedule = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    setScheduleStatus(req, res, 'active');
+
+export const deleteSchedule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const schedule = await findOwnSchedule(req, res);
+        if (!schedule) return;
+
+        await schedule.deleteOne();
+
+        res.json({ message: 'تم حذف الجدول بنجاح، الطلبات التي تم إنشاؤها سابقًا لم تتأثر' });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في حذف الجدول',
+            error: error.message,
+        });
+    }
+};
+
+/**
+ * Open orders the router's schedules have already created, and the transport times they will
+ * create orders for next, within the coming `days`.
+ */
+export const getUpcomingScheduledOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id } = req.user!;
+        const days = req.query.days ? Number(req.query.days) : DEFAULT_UPCOMING_DAYS;
+        const now = new Date();
+        const until = new Date(now.getTime() + days * DAY_MS);
+
+        const generated = await Order.find({
+            customer_id: id,
+            schedule_id: { $exists: true },
+            status: { $in: OPEN_ORDER_STATUSES },
+            date_time_transport: { $gte: now, $lte: until },
+        })
+            .sort({ date_time_transport: 1 })
+            .populate('vehicle_type');
+
+        const schedules = await OrderSchedule.find({ customer_id: id, status: 'active' })
+            .populate('template_id', 'name from_location to_location');
+        const planned = schedules
+            .flatMap((schedule) => pendingOccurrences(schedule, until, now).map((occurrence) => ({
+                schedule_id: schedule._id,
+                template: schedule.template_id,
+                date_time_transport: occurrence,
+                creates_at: new Date(occurrence.getTime() - schedule.lead_hours * 60 * 60 * 1000),
+            })))
+            .sort((a, b) => a.date_time_transport.getTime() - b.date_time_transport.getTime());
+
+        res.json({
+            message: 'تم استرجاع الطلبات المجدولة بنجاح',
+            generated: generated.map((order) => ({
+                id: order._id,
+                schedule_id: order.schedule_id,
+                template_id: order.template_id,
+                from_location: order.from_location,
+                to_location: order.to_location,
+                vehicle_type: order.vehicle_type,
+                cargo: order.cargo,
+                date_time_transport: order.date_time_transport,
+                status: order.status,
+            })),
+            planned,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع الطلبات المجدولة',
+            error: error.message,
+        });
+    }
+};
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import Payment, { PAYMENT_STATUSES } from '../models/Payment';
+import Transaction from '../models/Transaction';
+import { isOrderParticipant } from '../utils/orderAccess';
+import { formatPayment } from '../utils/payments';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+}
+
+export const getOrderPayments = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, role } = req.user!;
+        const orderId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            res.status(400).json({ message: 'معرف الطلب غير صالح' });
+            return;
+        }
+
+        const order = await Order.findById(orderId);
+        if (!order || (role !== 'admin' && !(await isOrderParticipant(order, id, role)))) {
+            res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+            return;
+        }
+
+        const payments = await Payment.find({ order_id: order._id }).sort({ createdAt: -1 });
+
+        res.json({
+            message: 'تم استرجاع المدفوعات بنجاح',
+            payments: payments.map(formatPayment),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع المدفوعات',
+            error: error.message,
+        });
+    }
+};
+
+export const validatePaymentSearch = [
+    query('status').optional().isIn(PAYMENT_STATUSES).withMessage('حالة الدفع غير صالحة'),
+    query('order_id').optional().isMongoId().withMessage('معرف الطلب غير صالح'),
+    query('page').optional().isInt({ min: 1 }).withMessage('رقم الصفحة غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('يجب أن يكون الحد بين 1 و 100'),
+];
+
+export const listPayments = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { status, order_id, page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+        const filter: any = {
+            ...(status ? { status } : {}),
+            ...(order_id ? { order_id } : {}),
+        };
+
+        const payments = await Payment.find(filter)
+            .sort({ createdAt: -1 })
+            .limit(Number(limit))
+            .skip((Number(page) - 1) * Number(limit));
+        const total = await Payment.countDocuments(filter);
+
+        res.json({
+            message: 'تم استرجاع المدفوعات بنجاح',
+            payments,
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+            currentPage: Number(page),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع المدفوعات',
+            error: error.message,
+        });
+    }
+};
+
+export const getPaymentTransactions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const paymentId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(paymentId)) {
+            res.status(400).json({ message: 'معرف الدفعة غير صالح' });
+            return;
+        }
+
+        const payment = await Payment.findById(paymentId);
+        if (!payment) {
+            res.status(404).json({ message: 'الدفعة غير موجودة' });
+            return;
+        }
+
+        const transactions = await Transaction.find({ payment_id: payment._id }).sort({ createdAt: 1 });
+
+        res.json({
+            message: 'تم استرجاع قيود الدفعة بنجاح',
+            payment,
+            transactions,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع قيود الدفعة',
+            error: error.message,
+        });
+    }
+};
+
+// Balance per ledger account as credits minus debits; across all accounts they always sum to zero.
+export const getLedgerBalances = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const balances = await Transaction.aggregate<{ _id: { account: string; currency: string }; debit: number; credit: number }>([
+            { $unwind: '$entries' },
+            {
+                $group: {
+                    _id: { account: '$entries.account', currency: '$currency' },
+                    debit: { $sum: '$entries.debit' },
+                    credit: { $sum: '$entries.credit' },
+                },
+            },
+            { $sort: { '_id.account': 1 } },
+        ]);
+
+        res.json({
+            message: 'تم استرجاع أرصدة الحسابات بنجاح',
+            balances: balances.map((entry) => ({
+                account: entry._id.account,
+                currency: entry._id.currency,
+                debit: entry.debit,
+                credit: entry.credit,
+                balance: Math.round((entry.credit - entry.debit) * 100) / 100,
+            })),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع أرصدة الحسابات',
+            error: error.message,
+        });
+    }
+};
@@ -0,0 +1,243 @@
+import { Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Driver from '../models/Driver';
+import Notification from '../models/Notification';
+import Order from '../models/Order';
+import Review, { ReviewParty } from '../models/Review';
+import User from '../models/Router';
+import { getAssignedDriverId, isOrderParticipant } from '../utils/orderAccess';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+    io?: SocketIOServer;
+}
+
+interface ReviewCreateData {
+    order_id: string;
+    rating: number;
+    comment?: string;
+}
+
+export const validateReviewCreate = [
+    body('order_id').isMongoId().withMessage('معرف الطلب غير صالح'),
+    body('rating').isInt({ min: 1, max: 5 }).withMessage('يجب أن يكون التقييم بين 1 و 5').toInt(),
+    body('comment').optional().trim().isLength({ max: 1000 }).withMessage('يجب ألا يتجاوز التعليق 1000 حرف'),
+];
+
+export const validateReviewList = [
+    query('page').optional().isInt({ min: 1 }).withMessage('رقم الصفحة غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('يجب أن يكون الحد بين 1 و 100'),
+];
+
+const refreshRatingAggregate = async (revieweeId: mongoose.Types.ObjectId, revieweeRole: ReviewParty) => {
+    const [aggregate] = await Review.aggregate([
+        { $match: { reviewee_id: revieweeId, reviewee_role: revieweeRole } },
+        { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } },
+    ]);
+
+    const update = {
+        ratingAverage: aggregate ? Math.round(aggregate.average * 100) / 100 : 0,
+        ratingCount: aggregate ? aggregate.count : 0,
+    };
+
+    if (revieweeRole === 'driver') {
+        await Driver.findByIdAndUpdate(revieweeId, update);
+    } else {
+        await User.findByIdAndUpdate(revieweeId, update);
+    }
+
+    return update;
+};
+
+export const createReview = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        if (role !== 'router' && role !== 'driver') {
+            res.status(403).json({ message: 'غير مصرح: يمكن للراوتر والسائقين فقط إضافة تقييم' });
+            return;
+        }
+
+        const { order_id, rating, comment }: ReviewCreateData = req.body;
+
+        const order = await Order.findById(order_id);
+        if (!order || !(await isOrderParticipant(order, id, role))) {
+            res.status(404).json({ message: 'الطلب غير موجود أو لم تكن طرفًا فيه' });
+            return;
+        }
+
+        if (order.status !== 'Completed') {
+            res.status(400).json({ message: 'لا يمكن التقييم إلا بعد اكتمال الطلب' });
+            return;
+        }
+
+        const driverId = await getAssignedDriverId(order);
+        if (!driverId) {
+            res.status(400).json({ message: 'لا يوجد سائق معين لهذا الطلب' });
+            return;
+        }
+
+        const reviewerRole = role as ReviewParty;
+        const revieweeRole: ReviewParty = reviewerRole === 'router' ? 'driver' : 'router';
+        const revieweeId = revieweeRole === 'driver' ? driverId : order.customer_id;
+
+        const existingReview = await Review.exists({ order_id: order._id, reviewer_role: reviewerRole });
+        if (existingReview) {
+            res.status(400).json({ message: 'لقد قمت بتقييم هذا الطلب بالفعل' });
+            return;
+        }
+
+        let review;
+        try {
+            review = await Review.create({
+                order_id: order._id,
+                reviewer_id: id,
+                reviewer_role: reviewerRole,
+                reviewee_id: revieweeId,
+                reviewee_role: revieweeRole,
+                rating,
+                comment,
+            });
+        } catch (createError: any) {
+            if (createError.code === 11000) {
+                res.status(400).json({ message: 'لقد قمت بتقييم هذا الطلب بالفعل' });
+                return;
+            }
+            throw createError;
+        }
+
+        const aggregate = await refreshRatingAggregate(revieweeId, revieweeRole);
+
+        const title = 'تم استلام تقييم جديد';
+        const message = `حصلت على تقييم ${rating} من 5 على الطلب`;
+        await Notification.create({
+            ...(revieweeRole === 'driver' ? { driver_id: revieweeId } : { user_id: revieweeId }),
+            order_id: order._id,
+            type: 'review_received',
+            title,
+            message,
+            is_read: false,
+            metadata: { review_id: review._id, rating },
+        });
+
+        if (req.io) {
+            const room = revieweeRole === 'driver' ? `driver-${revieweeId}` : `user-${revieweeId}`;
+            req.io.to(room).emit('review-received', {
+                message,
+                review,
+                rating: aggregate,
+            });
+            req.io.to(room).emit('new-notification', { title, message });
+        }
+
+        res.status(201).json({
+            message: 'تم إضافة التقييم بنجاح',
+            review,
+            rating: aggregate,
+        });
+    } catch (error: any) {
+        console.error('Create review error:', error);
+        res.status(500).json({
+            message: 'خطأ في إضافة التقييم',
+            error: error.message,
+        });
+    }
+};
+
+const listReviewsFor = (revieweeRole: ReviewParty) =>
+    async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const revieweeId = req.params.id;
+            if (!mongoose.Types.ObjectId.isValid(revieweeId)) {
+                res.status(400).json({ message: 'المعرف غير صالح' });
+                return;
+            }
+
+            const { page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+            const filter = { reviewee_id: revieweeId, reviewee_role: revieweeRole };
+
+            const reviews = await Review.find(filter)
+                .sort({ createdAt: -1 })
+                .limit(Number(limit))
+                .skip((Number(page) - 1) * Number(limit))
+                .select('order_id reviewer_role rating comment createdAt');
+            const total = await Review.countDocuments(filter);
+
+            const profile = revieweeRole === 'driver'
+                ? await Driver.findById(revieweeId).select('ratingAverage ratingCount')
+                : await User.findById(revieweeId).select('ratingAverage ratingCount');
+
+            if (!profile) {
+                res.status(404).json({ message: revieweeRole === 'driver' ? 'السائق غير موجود' : 'المستخدم غير موجود' });
+                return;
+            }
+
+            res.json({
+                message: 'تم استرجاع التقييمات بنجاح',
+                rating: {
+                    average: profile.ratingAverage,
+                    count: profile.ratingCount,
+                },
+                reviews,
+                total,
+                totalPages: Math.ceil(total / Number(limit)),
+                currentPage: Number(page),
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                message: 'خطأ في استرجاع التقييمات',
+                error: error.message,
+            });
+        }
+    };
+
+export const getDriverReviews = listReviewsFor('driver');
+
+export const getUserReviews = listReviewsFor('router');
+
+export const getOrderReviews = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, role } = req.user!;
+        const orderId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            res.status(400).json({ message: 'معرف الطلب غير صالح' });
+            return;
+        }
+
+        const order = await Order.findById(orderId);
+        if (!order || !(await isOrderParticipant(order, id, role))) {
+            res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+            return;
+        }
+
+        const reviews = await Review.find({ order_id: order._id }).sort({ createdAt: 1 });
+
+        res.json({
+            message: 'تم استرجاع التقييمات بنجاح',
+            reviews,
+            can_review: order.status === 'Completed' && !reviews.some((review) => review.reviewer_role === role),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع التقييمات',
+            error: error.message,
+        });
+    }
+};
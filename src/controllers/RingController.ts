@@ -48,6 +48,11 @@ export const sendRing = async (req: AuthRequest, res: Response): Promise<void> =
                 return;
             }
 
+            if (!acceptedOffer.driver_id) {
+                res.status(400).json({ message: 'No driver has been assigned to this order yet' });
+                return;
+            }
+
             notification = await Notification.create({
                 user_id: req.user.id,
                 driver_id: acceptedOffer.driver_id._id,
@@ -93,7 +98,7 @@ export const getRingHistory = async (req: AuthRequest, res: Response): Promise<v
         const rings = await Notification.find(query)
             .sort({ createdAt: -1 })
             .populate('user_id', 'fullName phoneNumber')
-            .populate('driver_id', 'fullName vehicleNumber')
+            .populate('driver_id', 'fullName')
             .populate('order_id', 'from_location to_location status');
 
         res.json(rings);
@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Order from '../models/Order';
+import TrackingPoint from '../models/TrackingPoint';
+import { isOrderParticipant } from '../utils/orderAccess';
+
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        role: string;
+        fullName: string;
+    };
+}
+
+export const validateTrackingQuery = [
+    query('since').optional().isISO8601().withMessage('تاريخ البداية غير صالح'),
+    query('limit').optional().isInt({ min: 1, max: 5000 }).withMessage('يجب أن يكون الحد بين 1 و 5000'),
+];
+
+export const getOrderTracking = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        const { id, role } = req.user!;
+        const orderId = req.params.id;
+        if (!mongoose.Types.ObjectId.isValid(orderId)) {
+            res.status(400).json({ message: 'معرف الطلب غير صالح' });
+            return;
+        }
+
+        const order = await Order.findById(orderId);
+        if (!order || !(await isOrderParticipant(order, id, role))) {
+            res.status(404).json({ message: 'الطلب غير موجود أو ليس لديك الوصول إلى هذا الطلب' });
+            return;
+        }
+
+        const { since, limit = '1000' } = req.query as Record<string, string | undefined>;
+        const trailQuery: any = { order_id: order._id };
+        if (since) {
+            trailQuery.recordedAt = { $gt: new Date(since) };
+        }
+
+        const trail = await TrackingPoint.find(trailQuery)
+            .sort({ recordedAt: 1 })
+            .limit(Number(limit))
+            .select('location speed heading accuracy recordedAt')
+            .lean();
+
+        const latest = await TrackingPoint.findOne({ order_id: order._id })
+            .sort({ recordedAt: -1 })
+            .select('location speed heading accuracy recordedAt')
+            .lean();
+
+        res.json({
+            message: 'تم استرجاع بيانات التتبع بنجاح',
+            order_id: order._id,
+            status: order.status,
+            latest,
+            trail,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            message: 'خطأ في استرجاع بيانات التتبع',
+            error: error.message,
+        });
+    }
+};
@@ -1,11 +1,18 @@
 import { Request, Response } from 'express';
 import { uploadToCloudinary, deleteFromCloudinary } from '../utils/cloudinary';
+import mongoose from 'mongoose';
 import Vehicle from '../models/Vehicle';
+import VehicleCategory from '../models/VehicleCategory';
+import { VehicleType } from '../types';
+import { ensureCategory, groupVehicleTypes } from '../utils/vehicleCategory';
 
 export const getVehicleTypes = async (req: Request, res: Response): Promise<void> => {
     try {
-        const vehicleTypes = await Vehicle.find().select('category type image');
-        res.json(vehicleTypes);
+        const vehicleTypes = await Vehicle.find()
+            .select('category type maxWeightKg maxVolumeM3 bodyType features image')
+            .lean<VehicleType[]>();
+        const categories = await VehicleCategory.find().sort({ sizeRank: 1, name: 1 });
+        res.json(groupVehicleTypes(categories, vehicleTypes));
     } catch (error) {
         console.error('Get vehicle types error:', error);
         res.status(500).json({ message: 'Internal server error' });
@@ -30,7 +37,7 @@ export const createVehicle= async (req: Request, res: Response): Promise<void> =
     let imagePublicId = '';
 
     try {
-        const { category, type } = req.body;
+        const { category, type, maxWeightKg, maxVolumeM3, bodyType, features } = req.body;
         let image = '';
 
         if (req.file) {
@@ -45,9 +52,14 @@ export const createVehicle= async (req: Request, res: Response): Promise<void> =
             }
         }
 
+        await ensureCategory(category);
         const vehicle = await Vehicle.create({
             category,
             type,
+            maxWeightKg,
+            maxVolumeM3,
+            bodyType,
+            features,
             image,
             imagePublicId
         });
@@ -75,7 +87,7 @@ export const updateVehicleType = async (req: Request, res: Response): Promise<vo
     let imagePublicId = '';
 
     try {
-        const { type, category } = req.body;
+        const { type, category, maxWeightKg, maxVolumeM3, bodyType, features } = req.body;
         const vehicleType = await Vehicle.findById(req.params.id);
 
         if (!vehicleType) {
@@ -101,6 +113,11 @@ export const updateVehicleType = async (req: Request, res: Response): Promise<vo
 
         vehicleType.category = category || vehicleType.category;
         vehicleType.type = type || vehicleType.type;
+        if (maxWeightKg !== undefined) vehicleType.maxWeightKg = maxWeightKg;
+        if (maxVolumeM3 !== undefined) vehicleType.maxVolumeM3 = maxVolumeM3;
+        if (bodyType !== undefined) vehicleType.bodyType = bodyType;
+        if (features !== undefined) vehicleType.features = features;
+        if (category) await ensureCategory(category);
 
         await vehicleType.save();
 
@@ -147,4 +164,168 @@ export const deleteVehicleType = async (req: Request, res: Response): Promise<vo
         console.error('Delete vehicle type error:', error);
         res.status(500).json({ message: 'Internal server error' });
     }
-};
\ No newline at end of file
+};
+
+export const getVehiclePricing = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const vehicleTypes = await Vehicle.find()
+            .select('category type maxWeightKg baseFare perKmRate minFare')
+            .sort({ category: 1, type: 1 });
+        res.json(vehicleTypes);
+    } catch (error) {
+        console.error('Get vehicle pricing error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+// Sending null for a rate clears it, leaving estimates for that type to accepted-offer history.
+export const updateVehiclePricing = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { baseFare, perKmRate, minFare } = req.body;
+        const vehicleType = await Vehicle.findById(req.params.id);
+
+        if (!vehicleType) {
+            res.status(404).json({ message: 'Vehicle type not found' });
+            return;
+        }
+
+        if (baseFare !== undefined) vehicleType.baseFare = baseFare ?? undefined;
+        if (perKmRate !== undefined) vehicleType.perKmRate = perKmRate ?? undefined;
+        if (minFare !== undefined) vehicleType.minFare = minFare ?? undefined;
+        await vehicleType.save();
+
+        res.json({
+            message: 'Vehicle pricing updated successfully',
+            pricing: {
+                id: vehicleType._id,
+                type: vehicleType.type,
+                baseFare: vehicleType.baseFare,
+                perKmRate: vehicleType.perKmRate,
+                minFare: vehicleType.minFare,
+            },
+        });
+    } catch (error) {
+        console.error('Update vehicle pricing error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+export const getVehicleCategories = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const categories = await VehicleCategory.find().sort({ sizeRank: 1, name: 1 });
+        res.json(categories);
+    } catch (error) {
+        console.error('Get vehicle categories error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+// A category may not end up below itself, directly or through one of its descendants.
+const createsCycle = async (categoryId: string, parentId: string): Promise<boolean> => {
+    let current: mongoose.Types.ObjectId | undefined = new mongoose.Types.ObjectId(parentId);
+    while (current) {
+        if (current.toString() === categoryId) return true;
+        const parent: { parent_id?: mongoose.Types.ObjectId } | null = await VehicleCategory.findById(current).select('parent_id');
+        current = parent?.parent_id;
+    }
+    return false;
+};
+
+export const createVehicleCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { name, parent_id, sizeRank, description } = req.body;
+
+        if (await VehicleCategory.exists({ name })) {
+            res.status(400).json({ message: 'Vehicle category already exists' });
+            return;
+        }
+
+        if (parent_id && !(await VehicleCategory.exists({ _id: parent_id }))) {
+            res.status(400).json({ message: 'Parent category not found' });
+            return;
+        }
+
+        const category = await VehicleCategory.create({ name, parent_id, sizeRank, description });
+
+        res.status(201).json({
+            message: 'Vehicle category created successfully',
+            category,
+        });
+    } catch (error) {
+        console.error('Create vehicle category error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+export const updateVehicleCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { name, parent_id, sizeRank, description } = req.body;
+        const category = await VehicleCategory.findById(req.params.id);
+
+        if (!category) {
+            res.status(404).json({ message: 'Vehicle category not found' });
+            return;
+        }
+
+        if (name && name !== category.name && await VehicleCategory.exists({ name })) {
+            res.status(400).json({ message: 'Vehicle category already exists' });
+            return;
+        }
+
+        if (parent_id) {
+            if (!(await VehicleCategory.exists({ _id: parent_id }))) {
+                res.status(400).json({ message: 'Parent category not found' });
+                return;
+            }
+            if (await createsCycle(category._id.toString(), parent_id)) {
+                res.status(400).json({ message: 'A category cannot be placed under itself' });
+                return;
+            }
+        }
+
+        const previousName = category.name;
+        if (name) category.name = name;
+        if (parent_id !== undefined) category.parent_id = parent_id || undefined;
+        if (sizeRank !== undefined) category.sizeRank = sizeRank;
+        if (description !== undefined) category.description = description;
+        await category.save();
+
+        // Vehicle types refer to their category by name.
+        if (category.name !== previousName) {
+            await Vehicle.updateMany({ category: previousName }, { $set: { category: category.name } });
+        }
+
+        res.json({
+            message: 'Vehicle category updated successfully',
+            category,
+        });
+    } catch (error) {
+        console.error('Update vehicle category error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
+
+export const deleteVehicleCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const category = await VehicleCategory.findById(req.params.id);
+
+        if (!category) {
+            res.status(404).json({ message: 'Vehicle category not found' });
+            return;
+        }
+
+        const inUse = await VehicleCategory.exists({ parent_id: category._id })
+            || await Vehicle.exists({ category: category.name });
+        if (inUse) {
+            res.status(400).json({ message: 'Vehicle category still has subcategories or vehicle types' });
+            return;
+        }
+
+        await category.deleteOne();
+
+        res.json({ message: 'Vehicle category deleted successfully' });
+    } catch (error) {
+        console.error('Delete vehicle category error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+};
@@ -14,10 +14,30 @@ import morgan from 'morgan';
 import authRoutes from './routes/auth';
 import vehicleRoutes from './routes/vehicel';
 import connectDB from './config/database';
+import seedAdmin from './config/admin';
+import migrateLegacyAccounts from './config/accounts';
+import migrateDriverVehicles from './config/vehicles';
+import migrateVehicleCategories from './config/vehicleCategories';
+import migrateOrderStatuses from './config/orders';
+import migrateDriverVerification from './config/drivers';
 import orderRoutes from './routes/order';
 import offerRoutes from './routes/offer';
 import notificationRoutes from './routes/notification';
 import ringRoutes from './routes/ring';
+import reviewRoutes from './routes/review';
+import adminRoutes from './routes/admin';
+import companyRoutes from './routes/company';
+import driverVehicleRoutes from './routes/driverVehicle';
+import orderTemplateRoutes from './routes/orderTemplate';
+import paymentRoutes from './routes/payment';
+import earningsRoutes from './routes/earnings';
+import { runExpiryJobs } from './jobs/expiry';
+import { runRecurringOrderJobs } from './jobs/recurringOrders';
+import { runPaymentSettlementJobs } from './jobs/payments';
+import { authenticateSocket, canJoinOrderRoom, canSubscribeOrderOffers, companyRoomFor, getSocketUser, personalRoom, sessionRoom } from './middleware/socketAuth';
+import { getMessageTransport } from './utils/messaging';
+import { getPaymentProvider } from './utils/paymentProvider';
+import { DriverLocationUpdate, recordDriverLocation } from './utils/tracking';
 
 
 
@@ -32,7 +52,11 @@ const io = new SocketIOServer(server, {
     methods: ["GET", "POST", "put", "DELETE"]
   }
 });
-connectDB()
+// Fails the boot instead of the first payment or message when no usable provider is configured.
+getPaymentProvider();
+getMessageTransport('email');
+getMessageTransport('sms');
+connectDB().then(seedAdmin).then(migrateLegacyAccounts).then(migrateDriverVehicles).then(migrateVehicleCategories).then(migrateOrderStatuses).then(migrateDriverVerification)
 app.use(morgan("dev"))
 app.use(helmet());
 
@@ -79,6 +103,13 @@ app.use('/api/orders', orderRoutes);
 app.use('/api/offers', offerRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/ring', ringRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/companies', companyRoutes);
+app.use('/api/driver-vehicles', driverVehicleRoutes);
+app.use('/api/order-templates', orderTemplateRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/earnings', earningsRoutes);
 
 
 app.use((err: any, req: any, res: any, next: any) => {
@@ -104,33 +135,51 @@ app.use((err: any, req: any, res: any, next: any) => {
 
 
 
+io.use(authenticateSocket);
+
 io.on('connection', (socket) => {
-  console.log('User connected:', socket.id);
+  const user = getSocketUser(socket);
+  console.log('User connected:', socket.id, user.role, user.id);
 
+  socket.join(personalRoom(user));
+  if (user.sid) socket.join(sessionRoom(user.sid));
+  companyRoomFor(user)
+    .then((room) => room && socket.join(room))
+    .catch((error) => console.error('Company room join error:', error));
 
-  socket.on('join-notification-room', (userId: string, role: string) => {
-    if (role === 'user') {
-      socket.join(`user-${userId}`);
-      console.log(`User ${userId} joined notification room`);
-    } else if (role === 'driver') {
-      socket.join(`driver-${userId}`);
-      console.log(`Driver ${userId} joined notification room`);
-    }
+  const denyJoin = (room: string) => {
+    console.warn(`Socket ${socket.id} (${user.role} ${user.id}) denied access to ${room}`);
+    socket.emit('room-join-denied', { room, message: 'غير مصرح: لا يمكنك الانضمام إلى هذه الغرفة' });
+  };
+
+  const isSelf = (id: string, role: 'router' | 'driver') => user.role === role && (!id || id === user.id);
+
+
+  socket.on('join-notification-room', () => {
+    socket.join(personalRoom(user));
+    console.log(`${user.role} ${user.id} joined notification room`);
   });
 
   socket.on('subscribe-driver-offers', (driverId: string) => {
-    socket.join(`driver-offers-${driverId}`);
-    console.log(`Driver ${driverId} subscribed to offers updates`);
+    if (!isSelf(driverId, 'driver')) return denyJoin(`driver-offers-${driverId}`);
+    socket.join(`driver-offers-${user.id}`);
+    console.log(`Driver ${user.id} subscribed to offers updates`);
   });
 
-  socket.on('unsubscribe-driver-offers', (driverId: string) => {
-    socket.leave(`driver-offers-${driverId}`);
-    console.log(`Driver ${driverId} unsubscribed from offers updates`);
+  socket.on('unsubscribe-driver-offers', () => {
+    socket.leave(`driver-offers-${user.id}`);
+    console.log(`Driver ${user.id} unsubscribed from offers updates`);
   });
 
-  socket.on('subscribe-order-offers', (orderId: string) => {
-    socket.join(`order-offers-${orderId}`);
-    console.log(`Socket ${socket.id} subscribed to order ${orderId} offers`);
+  socket.on('subscribe-order-offers', async (orderId: string) => {
+    try {
+      if (!(await canSubscribeOrderOffers(user, orderId))) return denyJoin(`order-offers-${orderId}`);
+      socket.join(`order-offers-${orderId}`);
+      console.log(`Socket ${socket.id} subscribed to order ${orderId} offers`);
+    } catch (error: any) {
+      console.error('Subscribe order offers error:', error.message);
+      denyJoin(`order-offers-${orderId}`);
+    }
   });
 
   socket.on('unsubscribe-order-offers', (orderId: string) => {
@@ -139,23 +188,25 @@ io.on('connection', (socket) => {
   });
 
   socket.on('subscribe-router-orders', (routerId: string) => {
-    socket.join(`router-orders-${routerId}`);
-    console.log(`Router ${routerId} subscribed to orders updates`);
+    if (!isSelf(routerId, 'router')) return denyJoin(`router-orders-${routerId}`);
+    socket.join(`router-orders-${user.id}`);
+    console.log(`Router ${user.id} subscribed to orders updates`);
   });
 
-  socket.on('unsubscribe-router-orders', (routerId: string) => {
-    socket.leave(`router-orders-${routerId}`);
-    console.log(`Router ${routerId} unsubscribed from orders updates`);
+  socket.on('unsubscribe-router-orders', () => {
+    socket.leave(`router-orders-${user.id}`);
+    console.log(`Router ${user.id} unsubscribed from orders updates`);
   });
 
   socket.on('subscribe-driver-orders', (driverId: string) => {
-    socket.join(`driver-orders-${driverId}`);
-    console.log(`Driver ${driverId} subscribed to available orders`);
+    if (!isSelf(driverId, 'driver')) return denyJoin(`driver-orders-${driverId}`);
+    socket.join(`driver-orders-${user.id}`);
+    console.log(`Driver ${user.id} subscribed to available orders`);
   });
 
-  socket.on('unsubscribe-driver-orders', (driverId: string) => {
-    socket.leave(`driver-orders-${driverId}`);
-    console.log(`Driver ${driverId} unsubscribed from available orders`);
+  socket.on('unsubscribe-driver-orders', () => {
+    socket.leave(`driver-orders-${user.id}`);
+    console.log(`Driver ${user.id} unsubscribed from available orders`);
   });
 
   socket.on('ring-answered', (data: { ringId: string; answered: boolean }) => {
@@ -163,21 +214,54 @@ io.on('connection', (socket) => {
   });
 
 
-  socket.on('join-user-room', (userId) => {
-    socket.join(`user-${userId}`);
-    console.log(`User ${userId} joined their room`);
+  socket.on('join-user-room', (userId: string) => {
+    if (!isSelf(userId, 'router')) return denyJoin(`user-${userId}`);
+    socket.join(`user-${user.id}`);
+    console.log(`User ${user.id} joined their room`);
   });
 
 
-  socket.on('join-driver-room', (driverId) => {
-    socket.join(`driver-${driverId}`);
-    console.log(`Driver ${driverId} joined their room`);
+  socket.on('join-driver-room', (driverId: string) => {
+    if (!isSelf(driverId, 'driver')) return denyJoin(`driver-${driverId}`);
+    socket.join(`driver-${user.id}`);
+    console.log(`Driver ${user.id} joined their room`);
   });
 
 
-  socket.on('join-order-room', (orderId) => {
-    socket.join(`order-${orderId}`);
-    console.log(`Socket ${socket.id} joined order room ${orderId}`);
+  socket.on('join-order-room', async (orderId: string) => {
+    try {
+      if (!(await canJoinOrderRoom(user, orderId))) return denyJoin(`order-${orderId}`);
+      socket.join(`order-${orderId}`);
+      console.log(`Socket ${socket.id} joined order room ${orderId}`);
+    } catch (error: any) {
+      console.error('Join order room error:', error.message);
+      denyJoin(`order-${orderId}`);
+    }
+  });
+
+  socket.on('driver-location-update', async (data: DriverLocationUpdate, ack?: (response: any) => void) => {
+    try {
+      if (user.role !== 'driver') {
+        throw new Error('غير مصرح: يمكن للسائقين فقط إرسال الموقع');
+      }
+
+      const point = await recordDriverLocation(user.id, data);
+      const update = {
+        order_id: point.order_id,
+        driver_id: point.driver_id,
+        location: point.location,
+        speed: point.speed,
+        heading: point.heading,
+        accuracy: point.accuracy,
+        recordedAt: point.recordedAt,
+      };
+
+      io.to(`order-${point.order_id}`).emit('driver-location-updated', update);
+      if (ack) ack({ success: true, point: update });
+    } catch (error: any) {
+      console.error('Driver location update error:', error.message);
+      if (ack) ack({ success: false, message: error.message });
+    }
   });
 
   socket.on('disconnect', () => {
@@ -206,6 +290,21 @@ cron.schedule('*/14 * * * *', () => {
 });
 
 
+cron.schedule(process.env.EXPIRY_CRON || '*/5 * * * *', () => {
+  runExpiryJobs(io);
+});
+
+
+cron.schedule(process.env.RECURRING_ORDERS_CRON || '*/10 * * * *', () => {
+  runRecurringOrderJobs(io);
+});
+
+
+cron.schedule(process.env.PAYMENT_SETTLEMENT_CRON || '*/15 * * * *', () => {
+  runPaymentSettlementJobs();
+});
+
+
 setTimeout(pingServer, 80);
 
 const PORT = process.env.PORT || 80;
@@ -0,0 +1,142 @@
+import { Server as SocketIOServer } from 'socket.io';
+import Offer, { OPEN_OFFER_STATUSES } from '../models/Offer';
+import Order from '../models/Order';
+import { createNotification } from '../utils/notifications';
+import { offerBidderRecipient, offerBidderRoom } from '../utils/offerParty';
+import { buildStatusChange, canTransitionFrom, ORDER_STATUS_MESSAGES, ORDER_TRANSITIONS } from '../utils/orderLifecycle';
+
+export const expireStaleOffers = async (io: SocketIOServer): Promise<number> => {
+    const staleOffers = await Offer.find({
+        status: { $in: OPEN_OFFER_STATUSES },
+        expires_at: { $lte: new Date() },
+    });
+
+    let expiredCount = 0;
+    for (const offer of staleOffers) {
+        const result = await Offer.updateOne(
+            { _id: offer._id, status: offer.status },
+            { $set: { status: 'Expired' } }
+        );
+        if (!result.modifiedCount) continue;
+        expiredCount++;
+
+        const order = await Order.findById(offer.order_id);
+
+        await createNotification({
+            ...offerBidderRecipient(offer),
+            order_id: offer.order_id.toString(),
+            type: 'offer_expired',
+            title: 'انتهت صلاحية العرض',
+            message: 'انتهت صلاحية عرضك قبل أن يتم قبوله',
+        });
+        io.to(offerBidderRoom(offer)).emit('offer-expired', {
+            message: 'انتهت صلاحية عرضك',
+            offer_id: offer._id,
+            order_id: offer.order_id,
+        });
+
+        if (!order) continue;
+
+        await createNotification({
+            user_id: order.customer_id.toString(),
+            order_id: order._id.toString(),
+            type: 'offer_expired',
+            title: 'انتهت صلاحية عرض',
+            message: 'انتهت صلاحية أحد العروض على طلبك',
+        });
+        io.to(`order-offers-${order._id}`).emit('offer-expired', {
+            message: 'انتهت صلاحية عرض',
+            offer_id: offer._id,
+            order_id: order._id,
+        });
+
+        if (canTransitionFrom('reopen', order.status)) {
+            const remainingOffers = await Offer.countDocuments({
+                order_id: order._id,
+                status: { $in: OPEN_OFFER_STATUSES },
+            });
+            if (remainingOffers === 0) {
+                await Order.updateOne(
+                    { _id: order._id, status: order.status },
+                    {
+                        $set: { status: 'Pending' },
+                        $push: { status_history: buildStatusChange('Pending', 'system', undefined, 'انتهت صلاحية جميع العروض') },
+                    }
+                );
+            }
+        }
+    }
+
+    return expiredCount;
+};
+
+export const expireStaleOrders = async (io: SocketIOServer): Promise<number> => {
+    const staleOrders = await Order.find({
+        status: { $in: ORDER_TRANSITIONS.expire.from },
+        date_time_transport: { $lte: new Date() },
+    });
+
+    let expiredCount = 0;
+    for (const order of staleOrders) {
+        const updatedOrder = await Order.findOneAndUpdate(
+            { _id: order._id, status: order.status },
+            {
+                $set: { status: 'Expired' },
+                $push: { status_history: buildStatusChange('Expired', 'system', undefined, 'مر موعد النقل دون قبول أي عرض') },
+            },
+            { new: true }
+        );
+        if (!updatedOrder) continue;
+        expiredCount++;
+
+        const openOffers = await Offer.find({ order_id: order._id, status: { $in: OPEN_OFFER_STATUSES } });
+        await Offer.updateMany(
+            { _id: { $in: openOffers.map((offer) => offer._id) } },
+            { $set: { status: 'Expired' } }
+        );
+
+        await createNotification({
+            user_id: order.customer_id.toString(),
+            order_id: order._id.toString(),
+            type: 'order_expired',
+            title: ORDER_STATUS_MESSAGES.Expired,
+            message: 'انتهت صلاحية طلبك لأن موعد النقل قد مر دون قبول أي عرض',
+        });
+        io.to(`user-${order.customer_id}`).emit('order-status-changed', {
+            message: ORDER_STATUS_MESSAGES.Expired,
+            order_id: order._id,
+            previous_status: order.status,
+            status: 'Expired',
+            order: updatedOrder,
+        });
+
+        for (const offer of openOffers) {
+            await createNotification({
+                ...offerBidderRecipient(offer),
+                order_id: order._id.toString(),
+                type: 'order_expired',
+                title: ORDER_STATUS_MESSAGES.Expired,
+                message: 'انتهت صلاحية الطلب الذي قدمت عرضًا عليه',
+            });
+            io.to(offerBidderRoom(offer)).emit('offer-expired', {
+                message: 'انتهت صلاحية الطلب الذي قدمت عرضًا عليه',
+                offer_id: offer._id,
+                order_id: order._id,
+            });
+        }
+    }
+
+    return expiredCount;
+};
+
+export const runExpiryJobs = async (io: SocketIOServer): Promise<void> => {
+    try {
+        const expiredOffers = await expireStaleOffers(io);
+        const expiredOrders = await expireStaleOrders(io);
+        if (expiredOffers || expiredOrders) {
+            console.log(`Expiry job: ${expiredOffers} offers and ${expiredOrders} orders expired`);
+        }
+    } catch (error) {
+        console.error('Expiry job error:', error);
+    }
+};
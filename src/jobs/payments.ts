@@ -0,0 +1,51 @@
+import Order from '../models/Order';
+import Payment from '../models/Payment';
+import { captureOrderPayment, refundOrderPayment } from '../utils/payments';
+
+// A capture or refund still Settling after this long died mid-way, so its claim is released and retried.
+const SETTLING_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Retries what changeOrderStatus could not settle: payments still Held although their order is
+ * Completed or Cancelled, including those released from a stale Settling claim.
+ */
+export const settleStalledPayments = async (): Promise<number> => {
+    const released = await Payment.updateMany(
+        { status: 'Settling', updatedAt: { $lte: new Date(Date.now() - SETTLING_TIMEOUT_MS) } },
+        { $set: { status: 'Held' } }
+    );
+    if (released.modifiedCount) {
+        console.warn(`Payment settlement: released ${released.modifiedCount} stale settling payments`);
+    }
+
+    const heldOrderIds = await Payment.distinct('order_id', { status: 'Held' });
+    const closedOrders = await Order.find({
+        _id: { $in: heldOrderIds },
+        status: { $in: ['Completed', 'Cancelled'] },
+    }).select('status');
+
+    let settledCount = 0;
+    for (const order of closedOrders) {
+        try {
+            const payment = order.status === 'Completed'
+                ? await captureOrderPayment(order._id)
+                : await refundOrderPayment(order._id);
+            if (payment) settledCount++;
+        } catch (error) {
+            console.error(`Payment settlement: order ${order._id} failed:`, error);
+        }
+    }
+
+    return settledCount;
+};
+
+export const runPaymentSettlementJobs = async (): Promise<void> => {
+    try {
+        const settledPayments = await settleStalledPayments();
+        if (settledPayments) {
+            console.log(`Payment settlement job: ${settledPayments} payments settled`);
+        }
+    } catch (error) {
+        console.error('Payment settlement job error:', error);
+    }
+};
@@ -0,0 +1,53 @@
+import { Server as SocketIOServer } from 'socket.io';
+import OrderSchedule from '../models/OrderSchedule';
+import OrderTemplate from '../models/OrderTemplate';
+import { createOrderFromTemplate, pendingOccurrences, scheduleLeadWindowEnd } from '../utils/orderTemplate';
+
+// Anything beyond this is left for the next runs, so one schedule cannot flood drivers with orders at once.
+const MAX_ORDERS_PER_SCHEDULE_RUN = 3;
+
+// Creates the orders of every active schedule whose transport time falls within the schedule's lead time.
+export const generateScheduledOrders = async (io: SocketIOServer): Promise<number> => {
+    const now = new Date();
+    const schedules = await OrderSchedule.find({ status: 'active' });
+
+    let createdCount = 0;
+    for (const schedule of schedules) {
+        try {
+            const template = await OrderTemplate.findById(schedule.template_id);
+            if (!template) {
+                await OrderSchedule.updateOne({ _id: schedule._id }, { $set: { status: 'paused' } });
+                console.error(`Recurring orders: template of schedule ${schedule._id} is missing, schedule paused`);
+                continue;
+            }
+
+            const occurrences = pendingOccurrences(schedule, scheduleLeadWindowEnd(schedule, now), now)
+                .slice(0, MAX_ORDERS_PER_SCHEDULE_RUN);
+            for (const occurrence of occurrences) {
+                try {
+                    await createOrderFromTemplate(template, occurrence, io, schedule);
+                    createdCount++;
+                } catch (error: any) {
+                    // Another run already created this occurrence.
+                    if (error.code !== 11000) throw error;
+                }
+                await OrderSchedule.updateOne({ _id: schedule._id }, { $set: { last_generated_for: occurrence } });
+            }
+        } catch (error) {
+            console.error(`Recurring orders: schedule ${schedule._id} failed:`, error);
+        }
+    }
+
+    return createdCount;
+};
+
+export const runRecurringOrderJobs = async (io: SocketIOServer): Promise<void> => {
+    try {
+        const createdOrders = await generateScheduledOrders(io);
+        if (createdOrders) {
+            console.log(`Recurring orders job: ${createdOrders} orders created`);
+        }
+    } catch (error) {
+        console.error('Recurring orders job error:', error);
+    }
+};
@@ -1,22 +1,40 @@
 import { Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/token';
-import { AuthRequest } from '../types';
+import { isSessionActive } from '../utils/session';
+import { isProfileSuspended } from '../utils/account';
+import { AuthRequest, JwtPayload } from '../types';
 
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction): void => {
-  try {
-    const token = req.header('Authorization')?.replace('Bearer ', '');
+// Returns why a correctly signed token may no longer be used, or null when it may.
+export const checkTokenAccess = async (user: JwtPayload): Promise<string | null> => {
+  if (!(await isSessionActive(user.sid, user.id))) return 'Session expired or revoked.';
+  if (await isProfileSuspended(user.id, user.role)) return 'Account suspended.';
+  return null;
+};
 
-    if (!token) {
-      res.status(401).json({ message: 'Access denied. No token provided.' });
-      return;
-    }
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const token = req.header('Authorization')?.replace('Bearer ', '');
 
-    const decoded = verifyToken(token);
-    req.user = decoded;
-    next();
+  if (!token) {
+    res.status(401).json({ message: 'Access denied. No token provided.' });
+    return;
+  }
+
+  let decoded: JwtPayload;
+  try {
+    decoded = verifyToken(token);
   } catch (error) {
     res.status(401).json({ message: 'Invalid token.' });
+    return;
   }
+
+  const denied = await checkTokenAccess(decoded);
+  if (denied) {
+    res.status(401).json({ message: denied });
+    return;
+  }
+
+  req.user = decoded;
+  next();
 };
 
 export const authorize = (roles: string[]) => {
@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import Dispatcher from '../models/Dispatcher';
+import Order from '../models/Order';
+import { JwtPayload } from '../types';
+import { verifyToken } from '../utils/token';
+import { checkTokenAccess } from './auth';
+import { isOrderParticipant } from '../utils/orderAccess';
+
+const extractToken = (socket: Socket): string | undefined => {
+  const authToken = socket.handshake.auth?.token;
+  if (typeof authToken === 'string' && authToken) {
+    return authToken.replace('Bearer ', '');
+  }
+
+  const header = socket.handshake.headers.authorization;
+  if (header) {
+    return header.replace('Bearer ', '');
+  }
+
+  return undefined;
+};
+
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  const token = extractToken(socket);
+  if (!token) {
+    next(new Error('Access denied. No token provided.'));
+    return;
+  }
+
+  let user: JwtPayload;
+  try {
+    user = verifyToken(token);
+  } catch (error) {
+    next(new Error('Invalid token.'));
+    return;
+  }
+
+  try {
+    const denied = await checkTokenAccess(user);
+    if (denied) {
+      next(new Error(denied));
+      return;
+    }
+  } catch (error) {
+    next(new Error('Authentication failed.'));
+    return;
+  }
+
+  socket.data.user = user;
+  next();
+};
+
+export const getSocketUser = (socket: Socket): JwtPayload => socket.data.user as JwtPayload;
+
+export const personalRoom = (user: JwtPayload): string => {
+  if (user.role === 'driver') return `driver-${user.id}`;
+  if (user.role === 'dispatcher') return `dispatcher-${user.id}`;
+  return `user-${user.id}`;
+};
+
+export const sessionRoom = (sessionId: string): string => `session-${sessionId}`;
+
+// Revoked sessions must stop receiving events, so their sockets are told why and then disconnected.
+export const closeRoomSockets = (io: SocketIOServer, room: string, event: string, payload: object): void => {
+  io.to(room).emit(event, payload);
+  io.in(room).disconnectSockets();
+};
+
+// Dispatchers also follow everything addressed to their company.
+export const companyRoomFor = async (user: JwtPayload): Promise<string | null> => {
+  if (user.role !== 'dispatcher') return null;
+  const dispatcher = await Dispatcher.findById(user.id).select('company_id isSuspended');
+  return dispatcher && !dispatcher.isSuspended ? `company-${dispatcher.company_id}` : null;
+};
+
+export const canJoinOrderRoom = async (user: JwtPayload, orderId: string): Promise<boolean> => {
+  if (!mongoose.Types.ObjectId.isValid(orderId)) return false;
+  if (user.role === 'admin') return true;
+
+  const order = await Order.findById(orderId);
+  return !!order && isOrderParticipant(order, user.id, user.role);
+};
+
+export const canSubscribeOrderOffers = async (user: JwtPayload, orderId: string): Promise<boolean> => {
+  if (!mongoose.Types.ObjectId.isValid(orderId)) return false;
+  if (user.role === 'admin') return true;
+  if (user.role !== 'router') return false;
+
+  return !!(await Order.exists({ _id: orderId, customer_id: user.id }));
+};
@@ -0,0 +1,97 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type AccountRole = 'router' | 'driver' | 'dispatcher';
+
+export const ACCOUNT_ROLES: AccountRole[] = ['router', 'driver', 'dispatcher'];
+
+// Shared identity of a person. Credentials and contact details live here once; the router, driver
+// and dispatcher profiles only hold role-specific data and point back to their account.
+export interface IAccount extends Document {
+  _id: Types.ObjectId;
+  fullName: string;
+  email: string;
+  password: string;
+  phoneNumber: string;
+  phoneVerified: boolean;
+  phoneVerifiedAt?: Date;
+  // Set when the stored password cannot be the one the person used before, e.g. after merging two logins.
+  passwordResetRequired?: boolean;
+  router_id?: Types.ObjectId;
+  driver_id?: Types.ObjectId;
+  dispatcher_id?: Types.ObjectId;
+  last_role?: AccountRole;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const accountSchema: Schema<IAccount> = new Schema({
+  fullName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+  },
+  password: {
+    type: String,
+    required: true,
+    minlength: 6,
+  },
+  phoneNumber: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  phoneVerified: {
+    type: Boolean,
+    default: false,
+  },
+  phoneVerifiedAt: {
+    type: Date,
+    required: false,
+  },
+  passwordResetRequired: {
+    type: Boolean,
+    required: false,
+  },
+  router_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: false,
+  },
+  driver_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Driver',
+    required: false,
+  },
+  dispatcher_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Dispatcher',
+    required: false,
+  },
+  last_role: {
+    type: String,
+    enum: ACCOUNT_ROLES,
+    required: false,
+  },
+  lastLoginAt: {
+    type: Date,
+    required: false,
+  },
+}, {
+  timestamps: true
+});
+
+accountSchema.index({ router_id: 1 }, { unique: true, sparse: true });
+accountSchema.index({ driver_id: 1 }, { unique: true, sparse: true });
+accountSchema.index({ dispatcher_id: 1 }, { unique: true, sparse: true });
+
+const Account: Model<IAccount> = mongoose.model<IAccount>('Account', accountSchema);
+
+export default Account;
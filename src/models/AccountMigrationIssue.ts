@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type MigratedRole = 'router' | 'driver';
+
+// A legacy profile the account migration could not link on its own; an admin has to resolve it.
+export interface IAccountMigrationIssue extends Document {
+  _id: Types.ObjectId;
+  role: MigratedRole;
+  profile_id: Types.ObjectId;
+  email: string;
+  phoneNumber: string;
+  conflicting_account_ids: Types.ObjectId[];
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const accountMigrationIssueSchema = new Schema<IAccountMigrationIssue>(
+  {
+    role: {
+      type: String,
+      enum: ['router', 'driver'],
+      required: true,
+    },
+    profile_id: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+    },
+    phoneNumber: {
+      type: String,
+      required: true,
+    },
+    conflicting_account_ids: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Account' }],
+      default: [],
+    },
+    resolvedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+accountMigrationIssueSchema.index({ role: 1, profile_id: 1 }, { unique: true });
+
+export default mongoose.model<IAccountMigrationIssue>('AccountMigrationIssue', accountMigrationIssueSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IAdmin extends Document {
+  _id: mongoose.Types.ObjectId;
+  fullName: string;
+  email: string;
+  password: string;
+  isActive: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const adminSchema: Schema<IAdmin> = new mongoose.Schema({
+  fullName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+  },
+  password: {
+    type: String,
+    required: true,
+    minlength: 6,
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+  lastLoginAt: {
+    type: Date,
+    required: false,
+  },
+}, {
+  timestamps: true
+});
+
+const Admin: Model<IAdmin> = mongoose.model<IAdmin>('Admin', adminSchema);
+
+export default Admin;
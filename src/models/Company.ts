@@ -0,0 +1,39 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export interface ICompany extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  email?: string;
+  phoneNumber?: string;
+  owner_id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const companySchema: Schema<ICompany> = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  email: {
+    type: String,
+    required: false,
+    lowercase: true,
+  },
+  phoneNumber: {
+    type: String,
+    required: false,
+  },
+  owner_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Dispatcher',
+    required: true,
+  },
+}, {
+  timestamps: true
+});
+
+const Company: Model<ICompany> = mongoose.model<ICompany>('Company', companySchema);
+
+export default Company;
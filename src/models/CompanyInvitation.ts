@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type CompanyInvitationRole = 'dispatcher' | 'driver';
+
+export type CompanyInvitationStatus = 'Pending' | 'Accepted' | 'Declined' | 'Cancelled';
+
+// A company's offer to take someone on as a dispatcher or driver; nothing changes until the invited account accepts.
+export interface ICompanyInvitation extends Document {
+  _id: Types.ObjectId;
+  company_id: Types.ObjectId;
+  invited_by: Types.ObjectId;
+  email: string;
+  role: CompanyInvitationRole;
+  status: CompanyInvitationStatus;
+  account_id?: Types.ObjectId;
+  expires_at: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const companyInvitationSchema = new Schema<ICompanyInvitation>(
+  {
+    company_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    invited_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'Dispatcher',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    role: {
+      type: String,
+      enum: ['dispatcher', 'driver'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['Pending', 'Accepted', 'Declined', 'Cancelled'],
+      default: 'Pending',
+    },
+    account_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    respondedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+companyInvitationSchema.index({ email: 1, status: 1 });
+// One open invitation per company, person and role; inviting again refreshes it.
+companyInvitationSchema.index(
+  { company_id: 1, email: 1, role: 1 },
+  { unique: true, partialFilterExpression: { status: 'Pending' } }
+);
+
+export default mongoose.model<ICompanyInvitation>('CompanyInvitation', companyInvitationSchema);
@@ -0,0 +1,25 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Named sequences, such as invoice numbers, incremented atomically.
+export interface ICounter extends Document<string> {
+  _id: string;
+  seq: number;
+}
+
+const counterSchema = new Schema<ICounter>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    seq: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+export default mongoose.model<ICounter>('Counter', counterSchema);
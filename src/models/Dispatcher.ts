@@ -0,0 +1,71 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type CompanyRole = 'owner' | 'dispatcher';
+
+// A person acting for a company: bids on orders and assigns the company's drivers.
+export interface IDispatcher extends Document {
+  _id: Types.ObjectId;
+  account_id: Types.ObjectId;
+  company_id: Types.ObjectId;
+  companyRole: CompanyRole;
+  fullName: string;
+  email: string;
+  phoneNumber: string;
+  isSuspended: boolean;
+  suspendedAt?: Date;
+  suspensionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dispatcherSchema: Schema<IDispatcher> = new Schema({
+  account_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Account',
+    required: true,
+    unique: true,
+  },
+  company_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true,
+    index: true,
+  },
+  companyRole: {
+    type: String,
+    enum: ['owner', 'dispatcher'],
+    default: 'dispatcher',
+  },
+  fullName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+  },
+  phoneNumber: {
+    type: String,
+    required: true,
+  },
+  isSuspended: {
+    type: Boolean,
+    default: false,
+  },
+  suspendedAt: {
+    type: Date,
+    required: false,
+  },
+  suspensionReason: {
+    type: String,
+    required: false,
+  },
+}, {
+  timestamps: true
+});
+
+const Dispatcher: Model<IDispatcher> = mongoose.model<IDispatcher>('Dispatcher', dispatcherSchema);
+
+export default Dispatcher;
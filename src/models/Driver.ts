@@ -1,24 +1,71 @@
 import { Document, Types, Schema, Model, model } from 'mongoose';
-import { Vehicle } from './Vehicle';
+import { StoredDocument } from '../utils/cloudinary';
+import { IGeoPoint, pointSchema } from './GeoPoint';
+
+export type DriverVerificationStatus = 'unverified' | 'pending' | 'approved' | 'rejected';
+
+export type DriverDocumentType = 'license' | 'registration' | 'insurance';
+
+export const DRIVER_DOCUMENT_TYPES: DriverDocumentType[] = ['license', 'registration', 'insurance'];
+
+export interface IDriverDocument extends StoredDocument {
+  uploadedAt: Date;
+}
 
 export interface IDriver extends Document {
   _id: Types.ObjectId;
   fullName: string;
   email: string;
-  password: string;
   phoneNumber: string;
-  vehicleNumber: string;
-  vehicleType: Types.ObjectId;
+  account_id?: Types.ObjectId;
+  company_id?: Types.ObjectId;
   photo?: string;
   photoPublicId?: string;
+  currentLocation?: IGeoPoint;
+  locationUpdatedAt?: Date;
+  homeLocation?: IGeoPoint;
+  ratingAverage: number;
+  ratingCount: number;
+  isSuspended: boolean;
+  suspendedAt?: Date;
+  suspensionReason?: string;
+  verificationStatus: DriverVerificationStatus;
+  verificationRejectionReason?: string;
+  verificationSubmittedAt?: Date;
+  verificationReviewedAt?: Date;
+  verificationReviewedBy?: Types.ObjectId;
+  documents: Partial<Record<DriverDocumentType, IDriverDocument>>;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface IPopulatedDriver extends Omit<IDriver, 'vehicleType'> {
-  vehicleType: Vehicle;
-}
-
+const driverDocumentSchema = new Schema<IDriverDocument>({
+  url: {
+    type: String,
+    required: true,
+  },
+  publicId: {
+    type: String,
+    required: true,
+  },
+  deliveryType: {
+    type: String,
+    enum: ['upload', 'authenticated'],
+    required: false,
+  },
+  resourceType: {
+    type: String,
+    required: false,
+  },
+  format: {
+    type: String,
+    required: false,
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
 
 const driverSchema: Schema<IDriver> = new Schema({
   fullName: {
@@ -32,25 +79,22 @@ const driverSchema: Schema<IDriver> = new Schema({
     unique: true,
     lowercase: true,
   },
-  password: {
-    type: String,
-    required: true,
-    minlength: 6,
-  },
   phoneNumber: {
     type: String,
     required: true,
     unique: true,
   },
-  vehicleNumber: {
-    type: String,
-    required: true,
-    unique: true,
+  account_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Account',
+    required: false,
+    index: true,
   },
-  vehicleType: {
+  company_id: {
     type: Schema.Types.ObjectId,
-    ref: 'Vehicle',
-    required: true,
+    ref: 'Company',
+    required: false,
+    index: true,
   },
   photo: {
     type: String,
@@ -60,10 +104,71 @@ const driverSchema: Schema<IDriver> = new Schema({
     type: String,
     required: false,
   },
+  currentLocation: {
+    type: pointSchema,
+    required: false,
+  },
+  locationUpdatedAt: {
+    type: Date,
+    required: false,
+  },
+  homeLocation: {
+    type: pointSchema,
+    required: false,
+  },
+  ratingAverage: {
+    type: Number,
+    default: 0,
+  },
+  ratingCount: {
+    type: Number,
+    default: 0,
+  },
+  isSuspended: {
+    type: Boolean,
+    default: false,
+  },
+  suspendedAt: {
+    type: Date,
+    required: false,
+  },
+  suspensionReason: {
+    type: String,
+    required: false,
+  },
+  verificationStatus: {
+    type: String,
+    enum: ['unverified', 'pending', 'approved', 'rejected'],
+    default: 'unverified',
+  },
+  verificationRejectionReason: {
+    type: String,
+    required: false,
+  },
+  verificationSubmittedAt: {
+    type: Date,
+    required: false,
+  },
+  verificationReviewedAt: {
+    type: Date,
+    required: false,
+  },
+  verificationReviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'Admin',
+    required: false,
+  },
+  documents: {
+    license: { type: driverDocumentSchema, required: false },
+    registration: { type: driverDocumentSchema, required: false },
+    insurance: { type: driverDocumentSchema, required: false },
+  },
 }, {
   timestamps: true
 });
 
+driverSchema.index({ currentLocation: '2dsphere' });
+
 const Driver: Model<IDriver> = model<IDriver>('Driver', driverSchema);
 
 export default Driver;
\ No newline at end of file
@@ -0,0 +1,84 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export interface IDriverVehiclePhoto {
+  _id: Types.ObjectId;
+  url: string;
+  publicId: string;
+  uploadedAt: Date;
+}
+
+export interface IDriverVehicle extends Document {
+  _id: Types.ObjectId;
+  driver_id?: Types.ObjectId;
+  company_id?: Types.ObjectId;
+  plateNumber: string;
+  vehicleType: Types.ObjectId;
+  capacityKg?: number;
+  photos: Types.DocumentArray<IDriverVehiclePhoto & Types.Subdocument>;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const driverVehiclePhotoSchema = new Schema<IDriverVehiclePhoto>({
+  url: {
+    type: String,
+    required: true,
+  },
+  publicId: {
+    type: String,
+    required: true,
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const driverVehicleSchema: Schema<IDriverVehicle> = new Schema({
+  // Owner for an independent driver; for company vehicles, the driver currently assigned to it.
+  driver_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Driver',
+    required: false,
+  },
+  company_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: false,
+  },
+  plateNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+  },
+  vehicleType: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true,
+  },
+  capacityKg: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+  photos: {
+    type: [driverVehiclePhotoSchema],
+    default: [],
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+}, {
+  timestamps: true
+});
+
+driverVehicleSchema.index({ driver_id: 1, isActive: 1 });
+driverVehicleSchema.index({ company_id: 1, isActive: 1 });
+driverVehicleSchema.index({ vehicleType: 1, isActive: 1 });
+
+const DriverVehicle: Model<IDriverVehicle> = mongoose.model<IDriverVehicle>('DriverVehicle', driverVehicleSchema);
+
+export default DriverVehicle;
@@ -0,0 +1,23 @@
+import { Schema } from 'mongoose';
+
+export interface IGeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+// GeoJSON point; coordinates are stored as [longitude, latitude].
+export const pointSchema = new Schema<IGeoPoint>(
+  {
+    type: {
+      type: String,
+      enum: ['Point'],
+      default: 'Point',
+      required: true,
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+    },
+  },
+  { _id: false }
+);
@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Issued once per completed order; amounts are copied so later edits cannot change a sent invoice.
+export interface IInvoice extends Document {
+  _id: Types.ObjectId;
+  number: string;
+  sequence: number;
+  order_id: Types.ObjectId;
+  offer_id: Types.ObjectId;
+  payment_id?: Types.ObjectId;
+  customer_id: Types.ObjectId;
+  driver_id?: Types.ObjectId;
+  company_id?: Types.ObjectId;
+  amount: number;
+  currency: string;
+  issuedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invoiceSchema = new Schema<IInvoice>(
+  {
+    // Set right after the invoice is inserted, so a number is only drawn for an invoice that exists.
+    number: {
+      type: String,
+      required: false,
+      unique: true,
+      sparse: true,
+    },
+    sequence: {
+      type: Number,
+      required: false,
+    },
+    order_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+      unique: true,
+    },
+    offer_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Offer',
+      required: true,
+    },
+    payment_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payment',
+      required: false,
+    },
+    customer_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    driver_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Driver',
+      required: false,
+    },
+    company_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: false,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IInvoice>('Invoice', invoiceSchema);
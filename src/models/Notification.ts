@@ -3,8 +3,9 @@ import mongoose, { Document, Schema } from 'mongoose';
 export interface INotification extends Document {
   user_id?: mongoose.Types.ObjectId;
   driver_id?: mongoose.Types.ObjectId;
+  company_id?: mongoose.Types.ObjectId;
   order_id?: mongoose.Types.ObjectId;
-  type: 'new_offer' | 'offer_accepted' | 'offer_rejected' | 'order_created' | 'order_updated' | 'order_completed' | 'ring' | 'new_order_available';
+  type: 'new_offer' | 'offer_accepted' | 'offer_rejected' | 'order_created' | 'order_updated' | 'order_completed' | 'order_cancelled' | 'ring' | 'new_order_available' | 'offer_created' | 'offer_withdrawn' | 'offer_revised' | 'offer_countered' | 'offer_expired' | 'order_expired' | 'review_received' | 'driver_verification' | 'driver_assigned' | 'payout_paid' | 'payout_rejected' | 'company_invitation';
   title: string;
   message: string;
   is_read: boolean;
@@ -25,6 +26,11 @@ const notificationSchema = new Schema<INotification>(
       ref: 'Driver',
       required: false,
     },
+    company_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: false,
+    },
     order_id: {
       type: Schema.Types.ObjectId,
       ref: 'Order',
@@ -32,7 +38,7 @@ const notificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: ['new_offer', 'offer_accepted', 'offer_rejected', 'order_created', 'order_updated', 'order_completed', 'ring', 'new_order_available','offer_created'],
+      enum: ['new_offer', 'offer_accepted', 'offer_rejected', 'order_created', 'order_updated', 'order_completed', 'order_cancelled', 'ring', 'new_order_available','offer_created', 'offer_withdrawn', 'offer_revised', 'offer_countered', 'offer_expired', 'order_expired', 'review_received', 'driver_verification', 'driver_assigned', 'payout_paid', 'payout_rejected', 'company_invitation'],
       required: true,
     },
     title: {
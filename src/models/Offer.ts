@@ -1,18 +1,64 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
-import { IDriver, IPopulatedDriver } from './Driver';
+import { IDriver } from './Driver';
 import { IOrder } from './Order';
 
+export type OfferStatus = 'Accepted' | 'Rejected' | 'Pending' | 'Expired' | 'Offered' | 'Countered' | 'Withdrawn';
+
+export const OPEN_OFFER_STATUSES: OfferStatus[] = ['Pending', 'Offered', 'Countered'];
+
+export interface INegotiationEntry {
+  price: number;
+  author: 'driver' | 'router' | 'dispatcher';
+  author_id: Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
 export interface IOffer extends Document {
   _id: Types.ObjectId;
   order_id: Types.ObjectId | IOrder;
-  driver_id: Types.ObjectId | IPopulatedDriver;
+  driver_id?: Types.ObjectId | IDriver;
+  company_id?: Types.ObjectId;
+  dispatcher_id?: Types.ObjectId;
+  vehicle_id?: Types.ObjectId;
   price: number;
   notes?: string;
-  status: 'Accepted' | 'Rejected' | 'Pending' | 'Expired' | 'Offered';
+  status: OfferStatus;
+  negotiation: INegotiationEntry[];
+  expires_at?: Date;
+  // Set when the order changed materially after the offer was made; the bidder must revise it before it can be accepted.
+  is_stale: boolean;
+  stale_since?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const negotiationEntrySchema = new Schema<INegotiationEntry>(
+  {
+    price: {
+      type: Number,
+      required: true,
+    },
+    author: {
+      type: String,
+      enum: ['driver', 'router', 'dispatcher'],
+      required: true,
+    },
+    author_id: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    note: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 const offerSchema = new Schema<IOffer>(
   {
     order_id: {
@@ -20,10 +66,25 @@ const offerSchema = new Schema<IOffer>(
       ref: 'Order',
       required: true,
     },
+    // Empty on company offers until a dispatcher assigns one of the company's drivers.
     driver_id: {
       type: Schema.Types.ObjectId,
       ref: 'Driver',
-      required: true,
+      required: function (this: IOffer) {
+        return !this.company_id;
+      },
+    },
+    company_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+    },
+    dispatcher_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Dispatcher',
+    },
+    vehicle_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'DriverVehicle',
     },
     price: {
       type: Number,
@@ -34,13 +95,30 @@ const offerSchema = new Schema<IOffer>(
     },
     status: {
       type: String,
-      enum: ['Accepted', 'Rejected', 'Pending', 'Expired', 'Offered'],
+      enum: ['Accepted', 'Rejected', 'Pending', 'Expired', 'Offered', 'Countered', 'Withdrawn'],
       default: 'Pending',
     },
+    negotiation: {
+      type: [negotiationEntrySchema],
+      default: [],
+    },
+    expires_at: {
+      type: Date,
+    },
+    is_stale: {
+      type: Boolean,
+      default: false,
+    },
+    stale_since: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
   }
 );
 
-export default mongoose.model<IOffer>('Offer', offerSchema);
\ No newline at end of file
+offerSchema.index({ status: 1, expires_at: 1 });
+offerSchema.index({ company_id: 1, status: 1 });
+
+export default mongoose.model<IOffer>('Offer', offerSchema);
@@ -1,22 +1,285 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import { Types } from 'mongoose';
+import { IGeoPoint, pointSchema } from './GeoPoint';
+import { VEHICLE_FEATURES, VehicleFeature } from './Vehicle';
+
+export type OrderStatus =
+  | 'Pending'
+  | 'Offered'
+  | 'Active'
+  | 'PickedUp'
+  | 'InTransit'
+  | 'Delivered'
+  | 'Completed'
+  | 'Cancelled'
+  | 'Expired';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'Pending',
+  'Offered',
+  'Active',
+  'PickedUp',
+  'InTransit',
+  'Delivered',
+  'Completed',
+  'Cancelled',
+  'Expired',
+];
+
+export type WeightUnit = 'kg' | 'ton';
+
+export const WEIGHT_UNITS: WeightUnit[] = ['kg', 'ton'];
+
+export type CargoCategory =
+  | 'general'
+  | 'food'
+  | 'furniture'
+  | 'construction'
+  | 'electronics'
+  | 'chemicals'
+  | 'livestock'
+  | 'vehicles'
+  | 'other';
+
+export const CARGO_CATEGORIES: CargoCategory[] = [
+  'general',
+  'food',
+  'furniture',
+  'construction',
+  'electronics',
+  'chemicals',
+  'livestock',
+  'vehicles',
+  'other',
+];
+
+export interface ICargoDimensions {
+  length_m: number;
+  width_m: number;
+  height_m: number;
+}
+
+export interface ICargoPhoto {
+  _id: Types.ObjectId;
+  url: string;
+  publicId: string;
+  uploadedAt: Date;
+}
+
+export interface ICargo {
+  weight: number;
+  weight_unit: WeightUnit;
+  // Normalized from weight/weight_unit so loads can be compared against vehicle limits.
+  weight_kg: number;
+  dimensions?: ICargoDimensions;
+  volume_m3?: number;
+  pieces: number;
+  category: CargoCategory;
+  is_fragile: boolean;
+  is_hazmat: boolean;
+  is_refrigerated: boolean;
+  photos: Types.DocumentArray<ICargoPhoto & Types.Subdocument>;
+}
+
+export interface IOrderStatusChange {
+  status: OrderStatus;
+  changed_by?: Types.ObjectId;
+  changed_by_role: 'router' | 'driver' | 'dispatcher' | 'admin' | 'system';
+  note?: string;
+  changedAt: Date;
+}
+
+export interface IOrderCancellation {
+  reason: string;
+  cancelled_by: Types.ObjectId;
+  cancelled_by_role: IOrderStatusChange['changed_by_role'];
+  // Status the order was in when cancelled, which decides who had to be told.
+  previous_status: OrderStatus;
+  cancelledAt: Date;
+}
+
+export interface IPriceEstimate {
+  low: number;
+  suggested: number;
+  high: number;
+  currency: string;
+  // Estimated road distance the price is based on.
+  distance_km: number;
+  formula_price?: number;
+  history_price?: number;
+  history_sample_size: number;
+  computedAt: Date;
+}
 
 export interface IOrder extends Document {
   _id: mongoose.Types.ObjectId;
   customer_id: mongoose.Types.ObjectId;
+  driver_id?: mongoose.Types.ObjectId;
+  company_id?: mongoose.Types.ObjectId;
+  vehicle_id?: mongoose.Types.ObjectId;
   from_location: string;
   to_location: string;
+  from_point?: IGeoPoint;
+  to_point?: IGeoPoint;
   vehicle_type: mongoose.Types.ObjectId;
-  weight_or_volume: string;
+  allow_larger_vehicles: boolean;
+  required_features: VehicleFeature[];
+  cargo?: ICargo;
+  weight_or_volume?: string;
   date_time_transport: Date;
   notes?: string;
   type?: string;
-  status: 'Active' | 'Ended' | 'Pending' | 'Offered';
+  status: OrderStatus;
+  status_history: IOrderStatusChange[];
+  cancellation?: IOrderCancellation;
+  price_estimate?: IPriceEstimate;
+  template_id?: mongoose.Types.ObjectId;
+  schedule_id?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
   offered_drivers: Types.ObjectId[];
 }
 
+const statusChangeSchema = new Schema<IOrderStatusChange>(
+  {
+    status: {
+      type: String,
+      enum: ORDER_STATUSES,
+      required: true,
+    },
+    changed_by: {
+      type: Schema.Types.ObjectId,
+    },
+    changed_by_role: {
+      type: String,
+      enum: ['router', 'driver', 'dispatcher', 'admin', 'system'],
+      required: true,
+    },
+    note: {
+      type: String,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const cancellationSchema = new Schema<IOrderCancellation>(
+  {
+    reason: {
+      type: String,
+      required: true,
+    },
+    cancelled_by: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    cancelled_by_role: {
+      type: String,
+      enum: ['router', 'driver', 'dispatcher', 'admin', 'system'],
+      required: true,
+    },
+    previous_status: {
+      type: String,
+      enum: ORDER_STATUSES,
+      required: true,
+    },
+    cancelledAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const priceEstimateSchema = new Schema<IPriceEstimate>(
+  {
+    low: { type: Number, required: true },
+    suggested: { type: Number, required: true },
+    high: { type: Number, required: true },
+    currency: { type: String, required: true },
+    distance_km: { type: Number, required: true },
+    formula_price: { type: Number },
+    history_price: { type: Number },
+    history_sample_size: { type: Number, default: 0 },
+    computedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const cargoPhotoSchema = new Schema<ICargoPhoto>({
+  url: {
+    type: String,
+    required: true,
+  },
+  publicId: {
+    type: String,
+    required: true,
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+export const cargoSchema = new Schema<ICargo>(
+  {
+    weight: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    weight_unit: {
+      type: String,
+      enum: WEIGHT_UNITS,
+      required: true,
+    },
+    weight_kg: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    dimensions: {
+      length_m: { type: Number, min: 0 },
+      width_m: { type: Number, min: 0 },
+      height_m: { type: Number, min: 0 },
+    },
+    volume_m3: {
+      type: Number,
+      min: 0,
+    },
+    pieces: {
+      type: Number,
+      min: 1,
+      default: 1,
+    },
+    category: {
+      type: String,
+      enum: CARGO_CATEGORIES,
+      required: true,
+    },
+    is_fragile: {
+      type: Boolean,
+      default: false,
+    },
+    is_hazmat: {
+      type: Boolean,
+      default: false,
+    },
+    is_refrigerated: {
+      type: Boolean,
+      default: false,
+    },
+    photos: {
+      type: [cargoPhotoSchema],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
 const orderSchema = new Schema<IOrder>(
   {
     customer_id: {
@@ -24,6 +287,20 @@ const orderSchema = new Schema<IOrder>(
       ref: 'User',
       required: true,
     },
+    driver_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Driver',
+    },
+    // Set when the accepted offer came from a company; its dispatchers then assign driver_id.
+    company_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+    },
+    // The vehicle named on the accepted offer.
+    vehicle_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'DriverVehicle',
+    },
     from_location: {
       type: String,
       required: true,
@@ -32,14 +309,34 @@ const orderSchema = new Schema<IOrder>(
       type: String,
       required: true,
     },
+    from_point: {
+      type: pointSchema,
+    },
+    to_point: {
+      type: pointSchema,
+    },
     vehicle_type: {
       type: Schema.Types.ObjectId,
       ref: 'Vehicle',
       required: true,
     },
+    // Lets vehicles from larger sibling categories of vehicle_type take the order too.
+    allow_larger_vehicles: {
+      type: Boolean,
+      default: false,
+    },
+    // Includes the features the cargo itself calls for (refrigeration, hazmat).
+    required_features: {
+      type: [{ type: String, enum: VEHICLE_FEATURES }],
+      default: [],
+    },
+    // Orders created before structured cargo only have the free-text weight_or_volume and type.
+    cargo: {
+      type: cargoSchema,
+      required: false,
+    },
     weight_or_volume: {
       type: String,
-      required: true,
     },
     date_time_transport: {
       type: Date,
@@ -47,16 +344,36 @@ const orderSchema = new Schema<IOrder>(
     },
     type: {
       type: String,
-      required: true,
     },
     notes: {
       type: String,
     },
     status: {
       type: String,
-      enum: ['Active', 'Ended', 'Pending','Offered'],
+      enum: ORDER_STATUSES,
       default: 'Pending',
     },
+    status_history: {
+      type: [statusChangeSchema],
+      default: [],
+    },
+    cancellation: {
+      type: cancellationSchema,
+      required: false,
+    },
+    price_estimate: {
+      type: priceEstimateSchema,
+      required: false,
+    },
+    template_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'OrderTemplate',
+    },
+    // Set on orders a recurring schedule created; together with the transport time it identifies the occurrence.
+    schedule_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'OrderSchedule',
+    },
     offered_drivers: [{
       type: Schema.Types.ObjectId,
       ref: 'Driver',
@@ -68,4 +385,14 @@ const orderSchema = new Schema<IOrder>(
   }
 );
 
-export default mongoose.model<IOrder>('Order', orderSchema);
\ No newline at end of file
+orderSchema.index({ status: 1, date_time_transport: 1 });
+orderSchema.index({ company_id: 1, status: 1 });
+orderSchema.index({ 'cargo.category': 1, status: 1 });
+orderSchema.index(
+  { schedule_id: 1, date_time_transport: 1 },
+  { unique: true, partialFilterExpression: { schedule_id: { $exists: true } } }
+);
+orderSchema.index({ from_point: '2dsphere' });
+orderSchema.index({ to_point: '2dsphere' });
+
+export default mongoose.model<IOrder>('Order', orderSchema);
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { RECURRENCE_FREQUENCIES, RecurrenceFrequency, SCHEDULE_TIMEZONE } from '../utils/recurrence';
+
+export type OrderScheduleStatus = 'active' | 'paused';
+
+export interface IOrderSchedule extends Document {
+  _id: Types.ObjectId;
+  customer_id: Types.ObjectId;
+  template_id: Types.ObjectId;
+  frequency: RecurrenceFrequency;
+  // "HH:mm" in the schedule's timezone, for daily and weekly schedules.
+  time_of_day?: string;
+  // 0 (Sunday) to 6, for weekly schedules.
+  days_of_week: number[];
+  // Given for custom schedules, derived from the fields above otherwise; fires at each transport time.
+  cron_expression: string;
+  timezone: string;
+  // How long before each transport time its order is created.
+  lead_hours: number;
+  starts_at?: Date;
+  ends_at?: Date;
+  status: OrderScheduleStatus;
+  // Latest transport time an order was created for, so no occurrence is created twice.
+  last_generated_for?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const orderScheduleSchema = new Schema<IOrderSchedule>(
+  {
+    customer_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    template_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'OrderTemplate',
+      required: true,
+    },
+    frequency: {
+      type: String,
+      enum: RECURRENCE_FREQUENCIES,
+      required: true,
+    },
+    time_of_day: {
+      type: String,
+    },
+    days_of_week: {
+      type: [{ type: Number, min: 0, max: 6 }],
+      default: [],
+    },
+    cron_expression: {
+      type: String,
+      required: true,
+    },
+    timezone: {
+      type: String,
+      default: SCHEDULE_TIMEZONE,
+    },
+    lead_hours: {
+      type: Number,
+      min: 1,
+      default: 48,
+    },
+    starts_at: {
+      type: Date,
+    },
+    ends_at: {
+      type: Date,
+    },
+    status: {
+      type: String,
+      enum: ['active', 'paused'],
+      default: 'active',
+    },
+    last_generated_for: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+orderScheduleSchema.index({ status: 1 });
+orderScheduleSchema.index({ customer_id: 1, template_id: 1 });
+
+export default mongoose.model<IOrderSchedule>('OrderSchedule', orderScheduleSchema);
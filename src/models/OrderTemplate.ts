@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IGeoPoint, pointSchema } from './GeoPoint';
+import { cargoSchema, ICargo } from './Order';
+import { VEHICLE_FEATURES, VehicleFeature } from './Vehicle';
+
+// Everything needed to create an order except its transport date.
+export interface IOrderTemplate extends Document {
+  _id: Types.ObjectId;
+  customer_id: Types.ObjectId;
+  name: string;
+  from_location: string;
+  to_location: string;
+  from_point: IGeoPoint;
+  to_point: IGeoPoint;
+  vehicle_type: Types.ObjectId;
+  allow_larger_vehicles: boolean;
+  required_features: VehicleFeature[];
+  cargo: ICargo;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const orderTemplateSchema = new Schema<IOrderTemplate>(
+  {
+    customer_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    from_location: {
+      type: String,
+      required: true,
+    },
+    to_location: {
+      type: String,
+      required: true,
+    },
+    from_point: {
+      type: pointSchema,
+      required: true,
+    },
+    to_point: {
+      type: pointSchema,
+      required: true,
+    },
+    vehicle_type: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      required: true,
+    },
+    allow_larger_vehicles: {
+      type: Boolean,
+      default: false,
+    },
+    required_features: {
+      type: [{ type: String, enum: VEHICLE_FEATURES }],
+      default: [],
+    },
+    cargo: {
+      type: cargoSchema,
+      required: true,
+    },
+    notes: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+orderTemplateSchema.index({ customer_id: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IOrderTemplate>('OrderTemplate', orderTemplateSchema);
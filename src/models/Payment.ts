@@ -0,0 +1,139 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Settling marks a held payment whose capture or refund is in flight with the provider.
+export const PAYMENT_STATUSES = ['Pending', 'Held', 'Settling', 'Captured', 'Refunded', 'Failed'] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+// What the router pays for one accepted offer, held with the provider until delivery is confirmed.
+export interface IPayment extends Document {
+  _id: Types.ObjectId;
+  order_id: Types.ObjectId;
+  offer_id: Types.ObjectId;
+  payer_id: Types.ObjectId;
+  driver_id?: Types.ObjectId;
+  company_id?: Types.ObjectId;
+  amount: number;
+  currency: string;
+  commission_rate: number;
+  commission_amount: number;
+  payee_amount: number;
+  provider: string;
+  provider_reference?: string;
+  status: PaymentStatus;
+  failure_reason?: string;
+  heldAt?: Date;
+  capturedAt?: Date;
+  refundedAt?: Date;
+  payout_id?: Types.ObjectId;
+  paidOutAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentSchema = new Schema<IPayment>(
+  {
+    order_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+    },
+    offer_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Offer',
+      required: true,
+    },
+    payer_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    driver_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Driver',
+      required: false,
+    },
+    company_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: false,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+    commission_rate: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 1,
+    },
+    commission_amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    payee_amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    provider_reference: {
+      type: String,
+      required: false,
+    },
+    status: {
+      type: String,
+      enum: PAYMENT_STATUSES,
+      default: 'Pending',
+    },
+    failure_reason: {
+      type: String,
+      required: false,
+    },
+    heldAt: {
+      type: Date,
+      required: false,
+    },
+    capturedAt: {
+      type: Date,
+      required: false,
+    },
+    refundedAt: {
+      type: Date,
+      required: false,
+    },
+    // Set once the payee asks for this payment in a payout; cleared again if that payout is rejected.
+    payout_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payout',
+      required: false,
+    },
+    paidOutAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+paymentSchema.index({ order_id: 1, createdAt: -1 });
+// An order has at most one payment that still holds money or is about to.
+paymentSchema.index(
+  { order_id: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ['Pending', 'Held', 'Settling'] } } }
+);
+paymentSchema.index({ status: 1, createdAt: -1 });
+paymentSchema.index({ driver_id: 1, status: 1, heldAt: -1 });
+
+export default mongoose.model<IPayment>('Payment', paymentSchema);
@@ -0,0 +1,163 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Processing marks an approved payout whose transfer is in flight with the provider; Failed is one the provider refused.
+export const PAYOUT_STATUSES = ['Requested', 'Processing', 'Paid', 'Failed', 'Rejected'] as const;
+export type PayoutStatus = typeof PAYOUT_STATUSES[number];
+
+// One captured payment included in a payout, so the money can be traced back to its order and offer.
+export interface IPayoutItem {
+  payment_id: Types.ObjectId;
+  order_id: Types.ObjectId;
+  offer_id: Types.ObjectId;
+  amount: number;
+}
+
+export interface IPayoutStatusChange {
+  status: PayoutStatus;
+  changed_by: Types.ObjectId;
+  changed_by_role: 'driver' | 'admin';
+  note?: string;
+  changedAt: Date;
+}
+
+export interface IPayout extends Document {
+  _id: Types.ObjectId;
+  driver_id: Types.ObjectId;
+  amount: number;
+  currency: string;
+  items: IPayoutItem[];
+  status: PayoutStatus;
+  status_history: IPayoutStatusChange[];
+  provider?: string;
+  provider_reference?: string;
+  rejection_reason?: string;
+  failure_reason?: string;
+  reviewed_by?: Types.ObjectId;
+  reviewedAt?: Date;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const payoutItemSchema = new Schema<IPayoutItem>(
+  {
+    payment_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payment',
+      required: true,
+    },
+    order_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+    },
+    offer_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Offer',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const payoutStatusChangeSchema = new Schema<IPayoutStatusChange>(
+  {
+    status: {
+      type: String,
+      enum: PAYOUT_STATUSES,
+      required: true,
+    },
+    changed_by: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    changed_by_role: {
+      type: String,
+      enum: ['driver', 'admin'],
+      required: true,
+    },
+    note: {
+      type: String,
+      required: false,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const payoutSchema = new Schema<IPayout>(
+  {
+    driver_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Driver',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+    items: {
+      type: [payoutItemSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: PAYOUT_STATUSES,
+      default: 'Requested',
+    },
+    status_history: {
+      type: [payoutStatusChangeSchema],
+      default: [],
+    },
+    provider: {
+      type: String,
+      required: false,
+    },
+    provider_reference: {
+      type: String,
+      required: false,
+    },
+    rejection_reason: {
+      type: String,
+      required: false,
+    },
+    failure_reason: {
+      type: String,
+      required: false,
+    },
+    reviewed_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin',
+      required: false,
+    },
+    reviewedAt: {
+      type: Date,
+      required: false,
+    },
+    paidAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+payoutSchema.index({ driver_id: 1, createdAt: -1 });
+payoutSchema.index({ status: 1, createdAt: 1 });
+
+export default mongoose.model<IPayout>('Payout', payoutSchema);
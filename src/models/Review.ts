@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type ReviewParty = 'router' | 'driver';
+
+export interface IReview extends Document {
+  _id: Types.ObjectId;
+  order_id: Types.ObjectId;
+  reviewer_id: Types.ObjectId;
+  reviewer_role: ReviewParty;
+  reviewee_id: Types.ObjectId;
+  reviewee_role: ReviewParty;
+  rating: number;
+  comment?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reviewSchema = new Schema<IReview>(
+  {
+    order_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+    },
+    reviewer_id: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    reviewer_role: {
+      type: String,
+      enum: ['router', 'driver'],
+      required: true,
+    },
+    reviewee_id: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    reviewee_role: {
+      type: String,
+      enum: ['router', 'driver'],
+      required: true,
+    },
+    rating: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 5,
+    },
+    comment: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One review per side of an order.
+reviewSchema.index({ order_id: 1, reviewer_role: 1 }, { unique: true });
+reviewSchema.index({ reviewee_id: 1, reviewee_role: 1, createdAt: -1 });
+
+export default mongoose.model<IReview>('Review', reviewSchema);
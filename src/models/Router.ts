@@ -4,8 +4,13 @@ interface User extends Document {
   _id: mongoose.Types.ObjectId;
   fullName: string;
   email: string;
-  password: string;
   phoneNumber: string;
+  account_id?: mongoose.Types.ObjectId;
+  ratingAverage: number;
+  ratingCount: number;
+  isSuspended: boolean;
+  suspendedAt?: Date;
+  suspensionReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,16 +27,37 @@ const userSchema: Schema<User> = new mongoose.Schema({
     unique: true,
     lowercase: true,
   },
-  password: {
-    type: String,
-    required: true,
-    minlength: 6,
-  },
   phoneNumber: {
     type: String,
     required: true,
     unique: true,
   },
+  account_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Account',
+    required: false,
+    index: true,
+  },
+  ratingAverage: {
+    type: Number,
+    default: 0,
+  },
+  ratingCount: {
+    type: Number,
+    default: 0,
+  },
+  isSuspended: {
+    type: Boolean,
+    default: false,
+  },
+  suspendedAt: {
+    type: Date,
+    required: false,
+  },
+  suspensionReason: {
+    type: String,
+    required: false,
+  },
 }, {
   timestamps: true
 });
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type SessionRole = 'router' | 'driver' | 'dispatcher' | 'admin';
+
+export interface ISession extends Document {
+  _id: Types.ObjectId;
+  subject_id: Types.ObjectId;
+  role: SessionRole;
+  token_hash: string;
+  expires_at: Date;
+  last_used_at?: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  replaced_by?: Types.ObjectId;
+  user_agent?: string;
+  ip?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    subject_id: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['router', 'driver', 'dispatcher', 'admin'],
+      required: true,
+    },
+    token_hash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    last_used_at: {
+      type: Date,
+    },
+    revoked_at: {
+      type: Date,
+    },
+    revoked_reason: {
+      type: String,
+    },
+    replaced_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+    },
+    user_agent: {
+      type: String,
+    },
+    ip: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sessionSchema.index({ subject_id: 1, role: 1, revoked_at: 1 });
+// Expired sessions are purged by MongoDB once their refresh token can no longer be used.
+sessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', sessionSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IGeoPoint, pointSchema } from './GeoPoint';
+
+export interface ITrackingPoint extends Document {
+  _id: Types.ObjectId;
+  order_id: Types.ObjectId;
+  driver_id: Types.ObjectId;
+  location: IGeoPoint;
+  speed?: number;
+  heading?: number;
+  accuracy?: number;
+  recordedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const trackingPointSchema = new Schema<ITrackingPoint>(
+  {
+    order_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+    },
+    driver_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Driver',
+      required: true,
+    },
+    location: {
+      type: pointSchema,
+      required: true,
+    },
+    speed: {
+      type: Number,
+    },
+    heading: {
+      type: Number,
+    },
+    accuracy: {
+      type: Number,
+    },
+    recordedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+trackingPointSchema.index({ order_id: 1, recordedAt: 1 });
+
+export default mongoose.model<ITrackingPoint>('TrackingPoint', trackingPointSchema);
@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const TRANSACTION_TYPES = ['hold', 'capture', 'refund', 'payout'] as const;
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+export interface ILedgerEntry {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+// One balanced journal entry in the ledger: its debits always add up to its credits.
+export interface ITransaction extends Document {
+  _id: Types.ObjectId;
+  type: TransactionType;
+  payment_id?: Types.ObjectId;
+  order_id?: Types.ObjectId;
+  payout_id?: Types.ObjectId;
+  currency: string;
+  entries: ILedgerEntry[];
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ledgerEntrySchema = new Schema<ILedgerEntry>(
+  {
+    account: {
+      type: String,
+      required: true,
+    },
+    debit: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    credit: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const transactionSchema = new Schema<ITransaction>(
+  {
+    type: {
+      type: String,
+      enum: TRANSACTION_TYPES,
+      required: true,
+    },
+    payment_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payment',
+      required: false,
+    },
+    order_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: false,
+    },
+    payout_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payout',
+      required: false,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+    entries: {
+      type: [ledgerEntrySchema],
+      validate: {
+        validator: (entries: ILedgerEntry[]) => entries.length >= 2
+          && entries.every((entry) => (entry.debit > 0) !== (entry.credit > 0))
+          // Compared in hundredths so fractional commissions do not trip over floating point.
+          && entries.reduce((sum, entry) => sum + Math.round(entry.debit * 100) - Math.round(entry.credit * 100), 0) === 0,
+        message: 'Ledger entries must be one-sided and balance',
+      },
+    },
+    description: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+transactionSchema.index({ 'entries.account': 1, createdAt: -1 });
+transactionSchema.index({ payment_id: 1, createdAt: 1 });
+
+export default mongoose.model<ITransaction>('Transaction', transactionSchema);
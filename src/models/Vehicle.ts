@@ -1,9 +1,45 @@
 import { Document, Schema, Model, model, Types } from 'mongoose';
 
+export type VehicleBodyType =
+  | 'flatbed'
+  | 'box'
+  | 'curtain_side'
+  | 'tipper'
+  | 'tanker'
+  | 'refrigerated'
+  | 'container'
+  | 'car_carrier'
+  | 'open'
+  | 'other';
+
+export const VEHICLE_BODY_TYPES: VehicleBodyType[] = [
+  'flatbed',
+  'box',
+  'curtain_side',
+  'tipper',
+  'tanker',
+  'refrigerated',
+  'container',
+  'car_carrier',
+  'open',
+  'other',
+];
+
+export type VehicleFeature = 'tail_lift' | 'refrigeration' | 'crane' | 'hazmat' | 'side_loading' | 'gps_tracking';
+
+export const VEHICLE_FEATURES: VehicleFeature[] = ['tail_lift', 'refrigeration', 'crane', 'hazmat', 'side_loading', 'gps_tracking'];
+
 export interface Vehicle extends Document {
   _id: Types.ObjectId;
   category: string;
   type: string;
+  maxWeightKg?: number;
+  maxVolumeM3?: number;
+  bodyType?: VehicleBodyType;
+  features: VehicleFeature[];
+  baseFare?: number;
+  perKmRate?: number;
+  minFare?: number;
   image?: string;
   imagePublicId?: string;
   createdAt: Date;
@@ -18,6 +54,42 @@ const VehicleSchema: Schema<Vehicle> = new Schema({
   type: {
     type: String,
   },
+  // Load limits for the type; orders heavier or bulkier than these never reach it.
+  maxWeightKg: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+  maxVolumeM3: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+  bodyType: {
+    type: String,
+    enum: VEHICLE_BODY_TYPES,
+    required: false,
+  },
+  features: {
+    type: [{ type: String, enum: VEHICLE_FEATURES }],
+    default: [],
+  },
+  // Pricing rates set by admins; the suggested fare starts from baseFare plus perKmRate per road km.
+  baseFare: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+  perKmRate: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
+  minFare: {
+    type: Number,
+    required: false,
+    min: 0,
+  },
   image: {
     type: String,
     required: false,
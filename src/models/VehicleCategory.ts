@@ -0,0 +1,41 @@
+import { Document, Schema, Model, model, Types } from 'mongoose';
+
+export interface IVehicleCategory extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  parent_id?: Types.ObjectId;
+  // Relative size among categories with the same parent; larger ranks can take over smaller loads.
+  sizeRank: number;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VehicleCategorySchema: Schema<IVehicleCategory> = new Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+  },
+  parent_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'VehicleCategory',
+    required: false,
+    index: true,
+  },
+  sizeRank: {
+    type: Number,
+    default: 0,
+  },
+  description: {
+    type: String,
+    required: false,
+  },
+}, {
+  timestamps: true
+});
+
+const VehicleCategory: Model<IVehicleCategory> = model<IVehicleCategory>('VehicleCategory', VehicleCategorySchema);
+
+export default VehicleCategory;
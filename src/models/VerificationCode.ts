@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type VerificationPurpose = 'password_reset' | 'phone_verification' | 'phone_login';
+
+export type DeliveryChannel = 'email' | 'sms';
+
+export interface IVerificationCode extends Document {
+  _id: Types.ObjectId;
+  subject_id: Types.ObjectId;
+  purpose: VerificationPurpose;
+  channel: DeliveryChannel;
+  destination: string;
+  code_hash: string;
+  expires_at: Date;
+  used_at?: Date;
+  attempts: number;
+  ip?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const verificationCodeSchema = new Schema<IVerificationCode>(
+  {
+    // Codes belong to the shared account, whichever profile asked for them.
+    subject_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: ['password_reset', 'phone_verification', 'phone_login'],
+      required: true,
+    },
+    channel: {
+      type: String,
+      enum: ['email', 'sms'],
+      required: true,
+    },
+    destination: {
+      type: String,
+      required: true,
+    },
+    code_hash: {
+      type: String,
+      required: true,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    used_at: {
+      type: Date,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    ip: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+verificationCodeSchema.index({ subject_id: 1, purpose: 1, createdAt: -1 });
+// Codes are kept for a day after creation so per-account throttling can still count them.
+verificationCodeSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export default mongoose.model<IVerificationCode>('VerificationCode', verificationCodeSchema);
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+    adminLogin,
+    createAdmin,
+    getPlatformStats,
+    listAccountMigrationIssues,
+    listDrivers,
+    listDriverVerifications,
+    listOrders,
+    listUsers,
+    resolveAccountMigrationIssue,
+    reviewDriverVerification,
+    suspendDriver,
+    suspendUser,
+    unsuspendDriver,
+    unsuspendUser,
+    validateAccountSearch,
+    validateAdminCreate,
+    validateAdminLogin,
+    validateMigrationIssueResolve,
+    validateMigrationIssueSearch,
+    validateOrderSearch,
+    validateSuspension,
+    validateVerificationReview,
+    validateVerificationSearch,
+} from '../controllers/AdminController';
+import { forceCancelOrder, validateOrderCancel } from '../controllers/OrderController';
+import { approvePayoutRequest, listPayouts, rejectPayoutRequest, validatePayoutReject, validatePayoutReview, validatePayoutSearch } from '../controllers/EarningsController';
+import { getLedgerBalances, getPaymentTransactions, listPayments, validatePaymentSearch } from '../controllers/PaymentController';
+
+const router = Router();
+
+router.post('/login', validateAdminLogin, adminLogin);
+
+router.use(authenticate, authorize(['admin']));
+
+router.post('/admins', validateAdminCreate, createAdmin);
+router.get('/stats', getPlatformStats);
+
+router.get('/users', validateAccountSearch, listUsers);
+router.put('/users/:id/suspend', validateSuspension, suspendUser);
+router.put('/users/:id/unsuspend', unsuspendUser);
+
+router.get('/drivers', validateAccountSearch, listDrivers);
+router.get('/drivers/verification', validateVerificationSearch, listDriverVerifications);
+router.put('/drivers/:id/verification', validateVerificationReview, reviewDriverVerification);
+router.put('/drivers/:id/suspend', validateSuspension, suspendDriver);
+router.put('/drivers/:id/unsuspend', unsuspendDriver);
+
+router.get('/account-migration-issues', validateMigrationIssueSearch, listAccountMigrationIssues);
+router.put('/account-migration-issues/:id/resolve', validateMigrationIssueResolve, resolveAccountMigrationIssue);
+
+router.get('/orders', validateOrderSearch, listOrders);
+router.put('/orders/:id/cancel', validateOrderCancel, forceCancelOrder);
+
+router.get('/payments', validatePaymentSearch, listPayments);
+router.get('/payments/:id/transactions', getPaymentTransactions);
+router.get('/ledger/balances', getLedgerBalances);
+
+router.get('/payouts', validatePayoutSearch, listPayouts);
+router.put('/payouts/:id/approve', validatePayoutReview, approvePayoutRequest);
+router.put('/payouts/:id/reject', validatePayoutReject, rejectPayoutRequest);
+
+export default router;
@@ -1,13 +1,31 @@
 import express from 'express';
+import rateLimit from 'express-rate-limit';
 import { authenticate } from '../middleware/auth';
 import multer from 'multer';
-import { changePassword, getDriverById, getUserById, getUserGeneralById, login, signupDriver, signupUser, updateDriver, updateUser, validateDriverSignup, validateDriverUpdate, validateUserUpdate } from '../controllers/AuthController';
+import { documentUpload } from '../config/multer';
+import { addCompanyProfile, addDriverProfile, addRouterProfile, changePassword, forgotPassword, getAccount, getActiveSessions, getDriverById, getUserById, getUserGeneralById, login, loginWithPhone, logout, logoutAllDevices, refreshSession, requestPhoneLogin, resetPassword, sendPhoneVerification, signupCompany, signupDriver, signupUser, switchRole, updateDriver, updateDriverLocation, updateUser, uploadDriverDocuments, validateCompanyProfile, validateCompanySignup, validateDriverLocation, validateDriverProfile, validateDriverSignup, validateDriverUpdate, validateForgotPassword, validateLogin, validatePhoneLogin, validatePhoneLoginRequest, validatePhoneVerification, validateRefreshToken, validateResetPassword, validateSwitchRole, validateUserUpdate, verifyPhone } from '../controllers/AuthController';
 
 
 const upload = multer({ storage: multer.memoryStorage() });
 
 const router = express.Router();
 
+const passwordResetLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    message: { message: 'محاولات كثيرة جدًا، يرجى المحاولة لاحقًا' },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+const otpLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    message: { message: 'محاولات كثيرة جدًا، يرجى المحاولة لاحقًا' },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
 
 router.post('/signup/user', signupUser);
 
@@ -15,17 +33,56 @@ router.post('/signup/user', signupUser);
 router.post('/signup/driver', upload.single('photo'), validateDriverSignup, signupDriver);
 
 
+router.post('/signup/company', validateCompanySignup, signupCompany);
+
+
 router.put('/update/user', authenticate, validateUserUpdate, updateUser);
 
 
 router.put('/update/driver', authenticate, upload.single('photo'), validateDriverUpdate, updateDriver);
 
 
-router.post('/login', login);
+router.put('/update/driver/location', authenticate, validateDriverLocation, updateDriverLocation);
+
+
+router.post(
+    '/driver/documents',
+    authenticate,
+    documentUpload.fields([
+        { name: 'license', maxCount: 1 },
+        { name: 'registration', maxCount: 1 },
+        { name: 'insurance', maxCount: 1 },
+    ]),
+    uploadDriverDocuments
+);
+
+
+router.post('/login', validateLogin, login);
+router.post('/login/phone/request', otpLimiter, validatePhoneLoginRequest, requestPhoneLogin);
+router.post('/login/phone', otpLimiter, validatePhoneLogin, loginWithPhone);
 
 
 router.put('/change-password', authenticate, changePassword);
 
+
+router.post('/refresh', validateRefreshToken, refreshSession);
+router.post('/logout', authenticate, logout);
+router.post('/logout-all', authenticate, logoutAllDevices);
+router.get('/sessions', authenticate, getActiveSessions);
+
+
+router.post('/forgot-password', passwordResetLimiter, validateForgotPassword, forgotPassword);
+router.post('/reset-password', passwordResetLimiter, validateResetPassword, resetPassword);
+
+router.post('/phone/send-code', authenticate, otpLimiter, sendPhoneVerification);
+router.post('/phone/verify', authenticate, otpLimiter, validatePhoneVerification, verifyPhone);
+
+router.get('/account', authenticate, getAccount);
+router.post('/account/switch-role', authenticate, validateSwitchRole, switchRole);
+router.post('/account/profiles/router', authenticate, addRouterProfile);
+router.post('/account/profiles/company', authenticate, validateCompanyProfile, addCompanyProfile);
+router.post('/account/profiles/driver', authenticate, upload.single('photo'), validateDriverProfile, addDriverProfile);
+
 router.get('/user/me', authenticate, getUserById);
 router.get('/driver/me', authenticate, getDriverById);
 router.get('/getGeneralUser/:id/:role', getUserGeneralById);
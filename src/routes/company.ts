@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+    acceptCompanyInvitation,
+    addCompanyVehicle,
+    assignOrderDriver,
+    cancelCompanyInvitation,
+    declineCompanyInvitation,
+    getCompanyAvailableOrders,
+    getCompanyInvitations,
+    getCompanyOffers,
+    getCompanyOrders,
+    getMyCompany,
+    getMyInvitations,
+    inviteCompanyDispatcher,
+    inviteCompanyDriver,
+    removeCompanyDispatcher,
+    removeCompanyDriver,
+    updateCompanyVehicle,
+    validateCompanyListQuery,
+    validateCompanyMember,
+    validateCompanyVehicleCreate,
+    validateCompanyVehicleUpdate,
+    validateDriverAssignment,
+} from '../controllers/CompanyController';
+
+const router = Router();
+
+// Invitations are answered by the invited account, whichever profile it is signed in with.
+router.get('/invitations', authenticate, getMyInvitations);
+router.put('/invitations/:id/accept', authenticate, acceptCompanyInvitation);
+router.put('/invitations/:id/decline', authenticate, declineCompanyInvitation);
+
+router.use(authenticate, authorize(['dispatcher']));
+
+router.get('/me', getMyCompany);
+router.post('/me/dispatchers', validateCompanyMember, inviteCompanyDispatcher);
+router.delete('/me/dispatchers/:id', removeCompanyDispatcher);
+router.post('/me/drivers', validateCompanyMember, inviteCompanyDriver);
+router.delete('/me/drivers/:id', removeCompanyDriver);
+router.get('/me/invitations', getCompanyInvitations);
+router.delete('/me/invitations/:id', cancelCompanyInvitation);
+router.post('/me/vehicles', validateCompanyVehicleCreate, addCompanyVehicle);
+router.put('/me/vehicles/:vehicleId', validateCompanyVehicleUpdate, updateCompanyVehicle);
+router.get('/me/available-orders', validateCompanyListQuery, getCompanyAvailableOrders);
+router.get('/me/offers', validateCompanyListQuery, getCompanyOffers);
+router.get('/me/orders', validateCompanyListQuery, getCompanyOrders);
+router.put('/me/orders/:id/assign', validateDriverAssignment, assignOrderDriver);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import upload from '../config/multer';
+import {
+    addDriverVehicle,
+    deleteDriverVehicle,
+    deleteDriverVehiclePhoto,
+    getMyVehicles,
+    MAX_VEHICLE_PHOTOS,
+    updateDriverVehicle,
+    validateDriverVehicleCreate,
+    validateDriverVehicleUpdate,
+} from '../controllers/DriverVehicleController';
+
+const router = Router();
+
+router.use(authenticate, authorize(['driver']));
+
+router.get('/', getMyVehicles);
+router.post('/', upload.array('photos', MAX_VEHICLE_PHOTOS), validateDriverVehicleCreate, addDriverVehicle);
+router.put('/:id', upload.array('photos', MAX_VEHICLE_PHOTOS), validateDriverVehicleUpdate, updateDriverVehicle);
+router.delete('/:id/photos/:photoId', deleteDriverVehiclePhoto);
+router.delete('/:id', deleteDriverVehicle);
+
+export default router;
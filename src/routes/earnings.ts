@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { getMyEarnings, getMyPayouts, requestPayout, validateEarningsQuery, validatePayoutRequest } from '../controllers/EarningsController';
+
+const router = Router();
+
+router.use(authenticate, authorize(['driver']));
+
+router.get('/me', validateEarningsQuery, getMyEarnings);
+router.get('/payouts', getMyPayouts);
+router.post('/payouts', validatePayoutRequest, requestPayout);
+
+export default router;
@@ -1,12 +1,16 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth';
-import { acceptOffer, createOffer, getDriverOffers, getOrderOffers, validateOfferCreate } from '../controllers/OfferController';
+import { acceptOffer, counterOffer, createOffer, getDriverOffers, getOrderOffers, rejectOffer, reviseOffer, validateOfferCounter, validateOfferCreate, validateOfferReject, validateOfferRevise, validateOrderOffersQuery, withdrawOffer } from '../controllers/OfferController';
 
 const router = Router();
 
 router.post('/create', authenticate, validateOfferCreate, createOffer);
 router.get('/driver/me', authenticate, getDriverOffers);
-router.get('/order/:id', authenticate, getOrderOffers);
+router.get('/order/:id', authenticate, validateOrderOffersQuery, getOrderOffers);
 router.put('/accept/:id', authenticate, acceptOffer);
+router.put('/reject/:id', authenticate, validateOfferReject, rejectOffer);
+router.put('/withdraw/:id', authenticate, withdrawOffer);
+router.put('/revise/:id', authenticate, validateOfferRevise, reviseOffer);
+router.put('/counter/:id', authenticate, validateOfferCounter, counterOffer);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -1,12 +1,28 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth';
-import { createOrder, getDriverOrders, getOrderById, getRouterOrders, validateOrderCreate } from '../controllers/OrderController';
+import upload from '../config/multer';
+import { getOrderTracking, validateTrackingQuery } from '../controllers/TrackingController';
+import { downloadDeliveryReceipt, downloadInvoice, validateDocumentQuery } from '../controllers/InvoiceController';
+import { cancelOrder, completeOrder, createOrder, deleteCargoPhoto, deliverOrder, estimateOrderPrice, getDriverOrders, getOrderById, getRouterOrders, MAX_CARGO_PHOTOS, pickupOrder, startOrder, updateOrder, uploadCargoPhotos, validateDriverOrdersQuery, validateOrderCancel, validateOrderCreate, validateOrderEstimate, validateOrderTransition, validateOrderUpdate } from '../controllers/OrderController';
 
 const router = Router();
 
 router.post('/create', authenticate, validateOrderCreate, createOrder);
+router.post('/estimate', authenticate, validateOrderEstimate, estimateOrderPrice);
 router.get('/router/me', authenticate, getRouterOrders);
 router.get('/:id', authenticate, getOrderById);
-router.get('/driver/me', authenticate, getDriverOrders);
+router.put('/:id', authenticate, validateOrderUpdate, updateOrder);
+router.delete('/:id', authenticate, validateOrderCancel, cancelOrder);
+router.get('/driver/me', authenticate, validateDriverOrdersQuery, getDriverOrders);
+router.post('/:id/cargo/photos', authenticate, upload.array('photos', MAX_CARGO_PHOTOS), uploadCargoPhotos);
+router.delete('/:id/cargo/photos/:photoId', authenticate, deleteCargoPhoto);
+router.get('/:id/tracking', authenticate, validateTrackingQuery, getOrderTracking);
+router.put('/:id/pickup', authenticate, validateOrderTransition, pickupOrder);
+router.put('/:id/start', authenticate, validateOrderTransition, startOrder);
+router.put('/:id/deliver', authenticate, validateOrderTransition, deliverOrder);
+router.put('/:id/complete', authenticate, validateOrderTransition, completeOrder);
+router.put('/:id/cancel', authenticate, validateOrderCancel, cancelOrder);
+router.get('/:id/invoice', authenticate, validateDocumentQuery, downloadInvoice);
+router.get('/:id/receipt', authenticate, validateDocumentQuery, downloadDeliveryReceipt);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateOrderDetails, validateOrderUpdate } from '../controllers/OrderController';
+import {
+    createSchedule,
+    createTemplate,
+    createTemplateFromOrder,
+    deleteSchedule,
+    deleteTemplate,
+    getMySchedules,
+    getMyTemplates,
+    getUpcomingScheduledOrders,
+    pauseSchedule,
+    placeTemplateOrder,
+    resumeSchedule,
+    updateSchedule,
+    updateTemplate,
+    validateOrderFromTemplate,
+    validateScheduleCreate,
+    validateScheduleUpdate,
+    validateTemplateName,
+    validateTemplateRename,
+    validateUpcomingQuery,
+} from '../controllers/OrderTemplateController';
+
+const router = Router();
+
+router.use(authenticate, authorize(['router']));
+
+router.get('/schedules', getMySchedules);
+router.post('/schedules', validateScheduleCreate, createSchedule);
+router.get('/schedules/upcoming', validateUpcomingQuery, getUpcomingScheduledOrders);
+router.put('/schedules/:id', validateScheduleUpdate, updateSchedule);
+router.put('/schedules/:id/pause', pauseSchedule);
+router.put('/schedules/:id/resume', resumeSchedule);
+router.delete('/schedules/:id', deleteSchedule);
+
+router.get('/', getMyTemplates);
+router.post('/', validateTemplateName, validateOrderDetails, createTemplate);
+router.post('/from-order/:orderId', validateTemplateName, createTemplateFromOrder);
+router.put('/:id', validateTemplateRename, validateOrderUpdate, updateTemplate);
+router.delete('/:id', deleteTemplate);
+router.post('/:id/orders', validateOrderFromTemplate, placeTemplateOrder);
+
+export default router;
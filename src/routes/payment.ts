@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { getOrderPayments } from '../controllers/PaymentController';
+
+const router = Router();
+
+router.get('/order/:id', authenticate, getOrderPayments);
+
+export default router;
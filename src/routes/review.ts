@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { createReview, getDriverReviews, getOrderReviews, getUserReviews, validateReviewCreate, validateReviewList } from '../controllers/ReviewController';
+
+const router = Router();
+
+router.post('/', authenticate, validateReviewCreate, createReview);
+router.get('/order/:id', authenticate, getOrderReviews);
+router.get('/driver/:id', authenticate, validateReviewList, getDriverReviews);
+router.get('/user/:id', authenticate, validateReviewList, getUserReviews);
+
+export default router;
@@ -1,22 +1,96 @@
 import express from 'express';
 import { body } from 'express-validator';
 import { validate } from '../middleware/validation';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 import upload from '../config/multer';
-import { createVehicle, deleteVehicleType, getVehicleTypeById, getVehicleTypes, updateVehicleType } from '../controllers/VehicleController';
+import { VEHICLE_BODY_TYPES, VEHICLE_FEATURES, VehicleFeature } from '../models/Vehicle';
+import {
+    createVehicle,
+    createVehicleCategory,
+    deleteVehicleCategory,
+    deleteVehicleType,
+    getVehicleCategories,
+    getVehiclePricing,
+    getVehicleTypeById,
+    getVehicleTypes,
+    updateVehicleCategory,
+    updateVehiclePricing,
+    updateVehicleType,
+} from '../controllers/VehicleController';
 
 const router = express.Router();
 
 
 const vehicleTypeValidation = [
     body('type').notEmpty().withMessage('Vehicle type is required'),
+    body('maxWeightKg').optional().isFloat({ min: 0 }).withMessage('Max weight must be a positive number').toFloat(),
+    body('maxVolumeM3').optional().isFloat({ min: 0 }).withMessage('Max volume must be a positive number').toFloat(),
+    body('bodyType').optional().isIn(VEHICLE_BODY_TYPES).withMessage('Invalid body type'),
+    body('features')
+        .optional()
+        // Multipart forms send a single value or a comma-separated list rather than an array.
+        .customSanitizer((value) => (Array.isArray(value) ? value : String(value).split(',').map((item) => item.trim()).filter(Boolean)))
+        .custom((features: string[]) => features.every((feature) => VEHICLE_FEATURES.includes(feature as VehicleFeature)))
+        .withMessage('Invalid vehicle feature'),
 ];
 
+const vehicleCategoryValidation = [
+    body('name').optional().trim().notEmpty().withMessage('Category name cannot be empty'),
+    body('parent_id').optional({ values: 'falsy' }).isMongoId().withMessage('Invalid parent category id'),
+    body('sizeRank').optional().isInt().withMessage('Size rank must be an integer').toInt(),
+    body('description').optional().trim(),
+];
+
+const vehiclePricingValidation = ['baseFare', 'perKmRate', 'minFare'].map((field) =>
+    body(field).optional({ values: 'null' }).isFloat({ min: 0 }).withMessage(`${field} must be a positive number`).toFloat()
+);
+
+router.get('/categories', getVehicleCategories);
+router.post(
+    '/categories',
+    authenticate,
+    authorize(['admin']),
+    body('name').trim().notEmpty().withMessage('Category name is required'),
+    vehicleCategoryValidation,
+    validate,
+    createVehicleCategory
+);
+router.put(
+    '/categories/:id',
+    authenticate,
+    authorize(['admin']),
+    vehicleCategoryValidation,
+    validate,
+    updateVehicleCategory
+);
+router.delete(
+    '/categories/:id',
+    authenticate,
+    authorize(['admin']),
+    deleteVehicleCategory
+);
+
+router.get(
+    '/pricing',
+    authenticate,
+    authorize(['admin']),
+    getVehiclePricing
+);
+router.put(
+    '/pricing/:id',
+    authenticate,
+    authorize(['admin']),
+    vehiclePricingValidation,
+    validate,
+    updateVehiclePricing
+);
+
 router.get('/types', getVehicleTypes);
 router.get('/types/:id', getVehicleTypeById);
 router.post(
     '/types',
     authenticate,
+    authorize(['admin']),
     upload.single('image'),
     vehicleTypeValidation,
     validate,
@@ -25,6 +99,7 @@ router.post(
 router.put(
     '/types/:id',
     authenticate,
+    authorize(['admin']),
     upload.single('image'),
     vehicleTypeValidation,
     validate,
@@ -33,6 +108,7 @@ router.put(
 router.delete(
     '/types/:id',
     authenticate,
+    authorize(['admin']),
     deleteVehicleType
 );
 
@@ -25,8 +25,9 @@ export interface Driver {
 
 export interface JwtPayload {
   id: string;
-  role: 'router' | 'driver' | 'admin';
+  role: 'router' | 'driver' | 'dispatcher' | 'admin';
   fullName: string;
+  sid?: string;
   iat?: number;
   exp?: number;
 }
@@ -39,6 +40,13 @@ export interface VehicleType {
   _id?: string;
   type: string;
   category?: string;
+  maxWeightKg?: number;
+  maxVolumeM3?: number;
+  bodyType?: string;
+  features?: string[];
+  baseFare?: number;
+  perKmRate?: number;
+  minFare?: number;
   image?: string;
   imagePublicId?: string;
 }
@@ -0,0 +1,124 @@
+import { Types } from 'mongoose';
+import Account, { AccountRole, ACCOUNT_ROLES, IAccount } from '../models/Account';
+import Dispatcher from '../models/Dispatcher';
+import Driver from '../models/Driver';
+import User from '../models/Router';
+import { revokeAllSessions } from './session';
+
+export interface AccountIdentityUpdate {
+  fullName?: string;
+  email?: string;
+  phoneNumber?: string;
+}
+
+const PROFILE_FIELDS: Record<AccountRole, 'router_id' | 'driver_id' | 'dispatcher_id'> = {
+  router: 'router_id',
+  driver: 'driver_id',
+  dispatcher: 'dispatcher_id',
+};
+
+const profileField = (role: AccountRole) => PROFILE_FIELDS[role];
+
+// Emails are matched trimmed and lowercased only; dots and +tags are part of the address everywhere.
+export const normalizeEmailAddress = (email: string): string => email.trim().toLowerCase();
+
+export const isAccountRole = (role: unknown): role is AccountRole =>
+  ACCOUNT_ROLES.includes(role as AccountRole);
+
+export const getProfileId = (account: IAccount, role: AccountRole): Types.ObjectId | undefined =>
+  account[profileField(role)];
+
+export const getAccountRoles = (account: IAccount): AccountRole[] =>
+  ACCOUNT_ROLES.filter((role) => !!getProfileId(account, role));
+
+export const findAccountByProfile = (profileId: string | Types.ObjectId, role: AccountRole) =>
+  Account.findOne({ [profileField(role)]: profileId });
+
+export const findAccountByContact = ({ email, phoneNumber }: { email?: string; phoneNumber?: string }) => {
+  if (email) return Account.findOne({ email: normalizeEmailAddress(email) });
+  if (phoneNumber) return Account.findOne({ phoneNumber });
+  return null;
+};
+
+export const loadProfile = (account: IAccount, role: AccountRole) => {
+  if (role === 'router') return User.findById(account.router_id);
+  if (role === 'driver') return Driver.findById(account.driver_id);
+  return Dispatcher.findById(account.dispatcher_id);
+};
+
+export const linkProfile = async (account: IAccount, role: AccountRole, profileId: Types.ObjectId): Promise<void> => {
+  account[profileField(role)] = profileId;
+  if (!account.last_role) account.last_role = role;
+  await account.save();
+};
+
+/**
+ * Chooses which profile a login lands on: the requested one when the account has it,
+ * otherwise the profile used last, otherwise whichever exists.
+ */
+export const resolveLoginRole = (account: IAccount, requestedRole?: AccountRole): AccountRole | null => {
+  const roles = getAccountRoles(account);
+  if (requestedRole) {
+    return roles.includes(requestedRole) ? requestedRole : null;
+  }
+  if (account.last_role && roles.includes(account.last_role)) {
+    return account.last_role;
+  }
+  return roles[0] || null;
+};
+
+// Email and phone number are unique across the whole platform, not per role.
+export const isIdentityTaken = async (
+  { email, phoneNumber }: AccountIdentityUpdate,
+  exceptAccountId?: Types.ObjectId
+): Promise<boolean> => {
+  const conditions = [
+    ...(email ? [{ email: normalizeEmailAddress(email) }] : []),
+    ...(phoneNumber ? [{ phoneNumber }] : []),
+  ];
+  if (!conditions.length) return false;
+
+  return !!(await Account.exists({
+    $or: conditions,
+    ...(exceptAccountId ? { _id: { $ne: exceptAccountId } } : {}),
+  }));
+};
+
+/**
+ * Applies identity changes to the account and copies them onto every linked profile.
+ * A new phone number has to be confirmed again before it counts as verified.
+ */
+export const updateAccountIdentity = async (account: IAccount, update: AccountIdentityUpdate): Promise<IAccount> => {
+  if (update.fullName) account.fullName = update.fullName;
+  if (update.email) account.email = update.email;
+  if (update.phoneNumber && update.phoneNumber !== account.phoneNumber) {
+    account.phoneNumber = update.phoneNumber;
+    account.phoneVerified = false;
+    account.phoneVerifiedAt = undefined;
+  }
+  await account.save();
+
+  const identity = { fullName: account.fullName, email: account.email, phoneNumber: account.phoneNumber };
+  if (account.router_id) await User.findByIdAndUpdate(account.router_id, identity);
+  if (account.driver_id) await Driver.findByIdAndUpdate(account.driver_id, identity);
+  if (account.dispatcher_id) await Dispatcher.findByIdAndUpdate(account.dispatcher_id, identity);
+
+  return account;
+};
+
+// Suspension applies to tokens issued before it as well, so every authenticated request checks it.
+export const isProfileSuspended = async (profileId: string, role: string): Promise<boolean> => {
+  const filter = { _id: profileId, isSuspended: true };
+  if (role === 'router') return !!(await User.exists(filter));
+  if (role === 'driver') return !!(await Driver.exists(filter));
+  if (role === 'dispatcher') return !!(await Dispatcher.exists(filter));
+  return false;
+};
+
+export const revokeAccountSessions = async (account: IAccount, reason: string): Promise<number> => {
+  let revokedCount = 0;
+  for (const role of getAccountRoles(account)) {
+    revokedCount += await revokeAllSessions(getProfileId(account, role)!, role, reason);
+  }
+  return revokedCount;
+};
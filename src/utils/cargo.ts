@@ -0,0 +1,104 @@
+import { CargoCategory, ICargo, ICargoDimensions, WeightUnit } from '../models/Order';
+import { VehicleFeature } from '../models/Vehicle';
+
+export interface CargoInput {
+  weight: number;
+  weight_unit: WeightUnit;
+  dimensions?: ICargoDimensions;
+  volume_m3?: number;
+  pieces?: number;
+  category: CargoCategory;
+  is_fragile?: boolean;
+  is_hazmat?: boolean;
+  is_refrigerated?: boolean;
+}
+
+export interface LoadLimits {
+  maxWeightKg?: number;
+  maxVolumeM3?: number;
+}
+
+export type CargoLoad = Pick<ICargo, 'weight_kg' | 'volume_m3'>;
+
+export const toWeightKg = (weight: number, unit: WeightUnit): number =>
+  unit === 'ton' ? weight * 1000 : weight;
+
+// Volume as given, otherwise worked out from the dimensions of a single piece times the piece count.
+export const cargoVolumeM3 = (input: Pick<CargoInput, 'dimensions' | 'volume_m3' | 'pieces'>): number | undefined => {
+  if (input.volume_m3 !== undefined) return input.volume_m3;
+  if (!input.dimensions) return undefined;
+
+  const { length_m, width_m, height_m } = input.dimensions;
+  return Math.round(length_m * width_m * height_m * (input.pieces || 1) * 1000) / 1000;
+};
+
+export const buildCargo = (input: CargoInput): Omit<ICargo, 'photos'> => ({
+  weight: input.weight,
+  weight_unit: input.weight_unit,
+  weight_kg: toWeightKg(input.weight, input.weight_unit),
+  dimensions: input.dimensions,
+  volume_m3: cargoVolumeM3(input),
+  pieces: input.pieces || 1,
+  category: input.category,
+  is_fragile: !!input.is_fragile,
+  is_hazmat: !!input.is_hazmat,
+  is_refrigerated: !!input.is_refrigerated,
+});
+
+// Applies a partial update to stored cargo; fails with undefined when there is nothing complete to start from.
+export const mergeCargoInput = (
+  current: Omit<ICargo, 'photos'> | undefined,
+  patch: Partial<CargoInput>
+): CargoInput | undefined => {
+  const weight = patch.weight ?? current?.weight;
+  const weight_unit = patch.weight_unit ?? current?.weight_unit;
+  const category = patch.category ?? current?.category;
+  if (weight === undefined || !weight_unit || !category) return undefined;
+
+  return {
+    weight,
+    weight_unit,
+    dimensions: patch.dimensions ?? current?.dimensions,
+    // New dimensions or piece count mean the stored volume has to be worked out again.
+    volume_m3: patch.volume_m3 ?? (patch.dimensions || patch.pieces ? undefined : current?.volume_m3),
+    pieces: patch.pieces ?? current?.pieces,
+    category,
+    is_fragile: patch.is_fragile ?? current?.is_fragile,
+    is_hazmat: patch.is_hazmat ?? current?.is_hazmat,
+    is_refrigerated: patch.is_refrigerated ?? current?.is_refrigerated,
+  };
+};
+
+export const sameCargo = (a?: Omit<ICargo, 'photos'>, b?: Omit<ICargo, 'photos'>): boolean => {
+  const key = (cargo?: Omit<ICargo, 'photos'>) => cargo && JSON.stringify([
+    cargo.weight,
+    cargo.weight_unit,
+    cargo.dimensions?.length_m,
+    cargo.dimensions?.width_m,
+    cargo.dimensions?.height_m,
+    cargo.volume_m3,
+    cargo.pieces,
+    cargo.category,
+    cargo.is_fragile,
+    cargo.is_hazmat,
+    cargo.is_refrigerated,
+  ]);
+  return key(a) === key(b);
+};
+
+export const fitsLimits = (load: CargoLoad | undefined, limits: LoadLimits): boolean => {
+  if (!load) return true;
+  if (limits.maxWeightKg != null && load.weight_kg > limits.maxWeightKg) return false;
+  if (limits.maxVolumeM3 != null && load.volume_m3 != null && load.volume_m3 > limits.maxVolumeM3) return false;
+  return true;
+};
+
+export const requiredVehicleFeatures = (
+  cargo: Pick<ICargo, 'is_refrigerated' | 'is_hazmat'>,
+  requested: VehicleFeature[] = []
+): VehicleFeature[] => {
+  const features = new Set<VehicleFeature>(requested);
+  if (cargo.is_refrigerated) features.add('refrigeration');
+  if (cargo.is_hazmat) features.add('hazmat');
+  return [...features];
+};
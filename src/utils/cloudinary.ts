@@ -1,18 +1,39 @@
 import cloudinary from '../config/cloudinary';
-import { UploadApiResponse, UploadApiErrorResponse } from 'cloudinary';
+import { DeliveryType, ResourceType, UploadApiResponse, UploadApiErrorResponse } from 'cloudinary';
+
+export const DRIVER_DOCUMENTS_FOLDER = 'driver-documents';
+// Signed document links stop working after this many seconds.
+export const DOCUMENT_LINK_TTL_SECONDS = 10 * 60;
+
+export interface StoredDocument {
+  url: string;
+  publicId: string;
+  deliveryType?: DeliveryType;
+  resourceType?: ResourceType;
+  format?: string;
+}
+
+const isImage = (file: Express.Multer.File): boolean => file.mimetype.startsWith('image/');
 
 export const uploadToCloudinary = (
-  file: Express.Multer.File
+  file: Express.Multer.File,
+  folder = 'drivers'
 ): Promise<UploadApiResponse> => {
   return new Promise((resolve, reject) => {
     const uploadStream = cloudinary.uploader.upload_stream(
       {
-        folder: 'drivers',
-        transformation: [
-          { width: 500, height: 500, crop: 'limit' },
-          { quality: 'auto' },
-          { format: 'auto' }
-        ]
+        folder,
+        resource_type: isImage(file) ? 'image' : 'auto',
+        // Identity and licence documents are never public; admins open them through signed links.
+        type: folder === DRIVER_DOCUMENTS_FOLDER ? 'authenticated' : 'upload',
+        // Documents have to stay legible, so only profile/vehicle photos are downscaled.
+        transformation: folder === DRIVER_DOCUMENTS_FOLDER || !isImage(file)
+          ? undefined
+          : [
+            { width: 500, height: 500, crop: 'limit' },
+            { quality: 'auto' },
+            { format: 'auto' }
+          ]
       },
       (error: UploadApiErrorResponse | undefined, result: UploadApiResponse | undefined) => {
         if (error) {
@@ -29,11 +50,49 @@ export const uploadToCloudinary = (
   });
 };
 
-export const deleteFromCloudinary = async (publicId: string): Promise<void> => {
+export const deleteFromCloudinary = async (
+  publicId: string,
+  options: { type?: DeliveryType; resource_type?: ResourceType } = {}
+): Promise<void> => {
   try {
-    await cloudinary.uploader.destroy(publicId);
+    await cloudinary.uploader.destroy(publicId, options);
   } catch (error) {
     console.error('Error deleting image from Cloudinary:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const deleteStoredDocument = (document: StoredDocument): Promise<void> =>
+  deleteFromCloudinary(document.publicId, {
+    type: document.deliveryType ?? 'upload',
+    resource_type: document.resourceType ?? 'image',
+  });
+
+// Documents uploaded before they were stored privately only carry their public URL, which also tells their format.
+const documentFormat = (document: StoredDocument): string =>
+  document.format ?? document.url.split('?')[0].split('.').pop() ?? '';
+
+export const signedDocumentUrl = (document: StoredDocument): string =>
+  cloudinary.utils.private_download_url(document.publicId, documentFormat(document), {
+    type: document.deliveryType ?? 'upload',
+    resource_type: document.resourceType ?? 'image',
+    expires_at: Math.floor(Date.now() / 1000) + DOCUMENT_LINK_TTL_SECONDS,
+  });
+
+// Moves a publicly uploaded document behind authentication, keeping its public id.
+export const makeDocumentPrivate = async (document: StoredDocument): Promise<StoredDocument> => {
+  const resourceType = document.resourceType ?? document.url.match(/\/(image|raw|video)\/upload\//)?.[1] ?? 'image';
+  const result = await cloudinary.uploader.rename(document.publicId, document.publicId, {
+    resource_type: resourceType,
+    type: 'upload',
+    to_type: 'authenticated',
+    invalidate: true,
+  });
+  return {
+    url: result.secure_url,
+    publicId: result.public_id,
+    deliveryType: 'authenticated',
+    resourceType: result.resource_type,
+    format: result.format,
+  };
+};
@@ -0,0 +1,20 @@
+import { Types } from 'mongoose';
+import Company, { ICompany } from '../models/Company';
+import Dispatcher, { IDispatcher } from '../models/Dispatcher';
+import Driver from '../models/Driver';
+
+export interface DispatcherContext {
+  dispatcher: IDispatcher;
+  company: ICompany;
+}
+
+export const findDispatcherContext = async (dispatcherId: string): Promise<DispatcherContext | null> => {
+  const dispatcher = await Dispatcher.findById(dispatcherId);
+  if (!dispatcher || dispatcher.isSuspended) return null;
+
+  const company = await Company.findById(dispatcher.company_id);
+  return company ? { dispatcher, company } : null;
+};
+
+export const hasApprovedCompanyDriver = async (companyId: Types.ObjectId): Promise<boolean> =>
+  !!(await Driver.exists({ company_id: companyId, verificationStatus: 'approved', isSuspended: false }));
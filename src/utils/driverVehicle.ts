@@ -0,0 +1,145 @@
+import { Types } from 'mongoose';
+import DriverVehicle, { IDriverVehicle } from '../models/DriverVehicle';
+import { IOrder } from '../models/Order';
+import Vehicle from '../models/Vehicle';
+import { VehicleType } from '../types';
+import { getCompatibleCategories, getSmallerCompatibleCategories } from './vehicleCategory';
+
+export type VehicleOwnerFilter =
+  | { driver_id: Types.ObjectId | string; company_id: { $exists: false } }
+  | { company_id: Types.ObjectId | string };
+
+const vehicleError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+// Vehicles an independent driver owns; company vehicles assigned to them are not theirs to bid with.
+export const personalVehicleFilter = (driverId: Types.ObjectId | string): VehicleOwnerFilter => ({
+  driver_id: driverId,
+  company_id: { $exists: false },
+});
+
+export const companyVehicleFilter = (companyId: Types.ObjectId | string): VehicleOwnerFilter => ({
+  company_id: companyId,
+});
+
+export const listVehicles = (filter: VehicleOwnerFilter) =>
+  DriverVehicle.find(filter).sort({ isActive: -1, createdAt: 1 }).populate('vehicleType');
+
+type OrderLoad = Pick<IOrder, 'vehicle_type' | 'cargo' | 'allow_larger_vehicles' | 'required_features'>;
+
+const NO_MATCH = { _id: { $in: [] } };
+
+const withinLimit = (field: string, limit?: number) =>
+  limit == null ? [] : [{ $or: [{ [field]: { $exists: false } }, { [field]: { $lte: limit } }] }];
+
+/**
+ * Vehicle conditions for carrying an order: a type in a compatible category with every required
+ * feature and a volume limit that fits the load, and a weight within the vehicle's own rated
+ * capacity or, if it has none, its type's limit.
+ */
+export const fittingVehicleQuery = async (order: OrderLoad): Promise<Record<string, unknown>> => {
+  const orderVehicleType = await Vehicle.findById(order.vehicle_type).select('category');
+  if (!orderVehicleType) return NO_MATCH;
+
+  const categories = await getCompatibleCategories(orderVehicleType.category, !!order.allow_larger_vehicles);
+  const requiredFeatures = order.required_features || [];
+  const load = order.cargo;
+  const withinVolume = (await Vehicle.find({
+    category: { $in: categories },
+    ...(requiredFeatures.length ? { features: { $all: requiredFeatures } } : {}),
+  }))
+    .filter((type) => type.maxVolumeM3 == null || load?.volume_m3 == null || load.volume_m3 <= type.maxVolumeM3);
+  if (!load) return { vehicleType: { $in: withinVolume.map((type) => type._id) } };
+
+  const withinWeight = withinVolume.filter((type) => type.maxWeightKg == null || load.weight_kg <= type.maxWeightKg);
+  return {
+    $or: [
+      { vehicleType: { $in: withinVolume.map((type) => type._id) }, capacityKg: { $gte: load.weight_kg } },
+      { vehicleType: { $in: withinWeight.map((type) => type._id) }, capacityKg: { $exists: false } },
+    ],
+  };
+};
+
+/**
+ * Order conditions for a feed: orders one of the owner's active vehicles can carry, either in the
+ * vehicle's own category or in a smaller one when the order accepts larger vehicles.
+ * Matches nothing when no vehicle is active.
+ */
+export const buildOrderMatchForVehicles = async (filter: VehicleOwnerFilter): Promise<Record<string, unknown>> => {
+  const vehicles = await DriverVehicle.find({ ...filter, isActive: true })
+    .populate<{ vehicleType: VehicleType }>('vehicleType');
+
+  const conditions = [];
+  for (const vehicle of vehicles) {
+    if (!vehicle.vehicleType) continue;
+    const { category, features = [] } = vehicle.vehicleType;
+    const vehicleTypeIds = await Vehicle.find({ category }).distinct('_id');
+    const smallerTypeIds = await Vehicle.find({
+      category: { $in: await getSmallerCompatibleCategories(category!) },
+    }).distinct('_id');
+    conditions.push({
+      $and: [
+        {
+          $or: [
+            { vehicle_type: { $in: vehicleTypeIds } },
+            { vehicle_type: { $in: smallerTypeIds }, allow_larger_vehicles: true },
+          ],
+        },
+        { required_features: { $not: { $elemMatch: { $nin: features } } } },
+        ...withinLimit('cargo.weight_kg', vehicle.capacityKg ?? vehicle.vehicleType.maxWeightKg),
+        ...withinLimit('cargo.volume_m3', vehicle.vehicleType.maxVolumeM3),
+      ],
+    });
+  }
+
+  return conditions.length ? { $or: conditions } : NO_MATCH;
+};
+
+export const findDriversForOrder = async (order: OrderLoad): Promise<Types.ObjectId[]> =>
+  DriverVehicle.find({
+    ...(await fittingVehicleQuery(order)),
+    isActive: true,
+    driver_id: { $exists: true },
+    company_id: { $exists: false },
+  }).distinct('driver_id');
+
+/**
+ * Picks the vehicle a bid is made with: the one asked for, or the bidder's only active vehicle
+ * that fits the order. Throws with a status when nothing fits or the choice is ambiguous.
+ */
+export const resolveOfferVehicle = async (
+  filter: VehicleOwnerFilter,
+  order: OrderLoad,
+  vehicleId?: string
+): Promise<IDriverVehicle> => {
+  const candidates = await DriverVehicle.find({
+    $and: [
+      { ...filter, ...(vehicleId ? { _id: vehicleId } : {}), isActive: true },
+      await fittingVehicleQuery(order),
+    ],
+  });
+
+  if (vehicleId && !candidates.length) {
+    throw vehicleError('المركبة المحددة غير موجودة أو غير نشطة أو لا تستطيع نقل هذه الحمولة', 400);
+  }
+  if (!candidates.length) {
+    throw vehicleError('لا تملك مركبة نشطة قادرة على نقل هذه الحمولة', 400);
+  }
+  if (candidates.length > 1) {
+    throw vehicleError('لديك أكثر من مركبة مناسبة لهذا الطلب، يرجى تحديد المركبة', 400);
+  }
+
+  return candidates[0];
+};
+
+export const formatDriverVehicle = (vehicle: IDriverVehicle) => ({
+  id: vehicle._id,
+  plateNumber: vehicle.plateNumber,
+  vehicleType: vehicle.vehicleType,
+  capacityKg: vehicle.capacityKg,
+  photos: vehicle.photos.map((photo) => ({ id: photo._id, url: photo.url, uploadedAt: photo.uploadedAt })),
+  isActive: vehicle.isActive,
+  driver_id: vehicle.driver_id,
+  company_id: vehicle.company_id,
+  createdAt: vehicle.createdAt,
+  updatedAt: vehicle.updatedAt,
+});
@@ -0,0 +1,31 @@
+import { IGeoPoint } from '../models/GeoPoint';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const isValidLngLat = (coordinates: unknown): coordinates is [number, number] => {
+  if (!Array.isArray(coordinates) || coordinates.length !== 2) return false;
+  const [lng, lat] = coordinates.map(Number);
+  return Number.isFinite(lng) && Number.isFinite(lat) && lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90;
+};
+
+export const toPoint = (lng: number, lat: number): IGeoPoint => ({
+  type: 'Point',
+  coordinates: [Number(lng), Number(lat)],
+});
+
+// Great-circle distance between two points, rounded to 0.1 km.
+export const distanceKm = (from?: IGeoPoint | null, to?: IGeoPoint | null): number | null => {
+  if (!from?.coordinates || !to?.coordinates) return null;
+
+  const [fromLng, fromLat] = from.coordinates;
+  const [toLng, toLat] = to.coordinates;
+  const dLat = toRadians(toLat - fromLat);
+  const dLng = toRadians(toLng - fromLng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(dLng / 2) ** 2;
+
+  return Math.round(EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)) * 10) / 10;
+};
@@ -0,0 +1,85 @@
+import Counter from '../models/Counter';
+import Invoice, { IInvoice } from '../models/Invoice';
+import Offer from '../models/Offer';
+import { IOrder } from '../models/Order';
+import Payment from '../models/Payment';
+import { PRICING_CURRENCY } from './pricing';
+
+const INVOICE_PREFIX = process.env.INVOICE_PREFIX || 'INV';
+
+const invoiceError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+const nextSequence = async (name: string): Promise<number> => {
+  const counter = await Counter.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return counter!.seq;
+};
+
+// A numberless invoice older than this was left by a request that died before numbering it.
+const ABANDONED_INVOICE_MS = 60 * 1000;
+
+// An invoice inserted by a concurrent request that has not received its number yet.
+const invoiceInProgress = () => invoiceError('جارٍ إصدار الفاتورة، يرجى المحاولة بعد قليل', 409);
+
+/**
+ * Returns the order's invoice, issuing it with the next number of the year the first time. Numbers
+ * restart every year, e.g. INV-2026-000001, and are drawn only by the request whose insert won, so
+ * concurrent requests leave no gaps.
+ */
+export const issueInvoice = async (order: IOrder): Promise<IInvoice> => {
+  const existing = await Invoice.findOne({ order_id: order._id });
+  if (existing?.number) return existing;
+  if (existing) {
+    if (existing.createdAt.getTime() > Date.now() - ABANDONED_INVOICE_MS) throw invoiceInProgress();
+    // Dropped so it is issued again below; the unique order_id still lets only one request do that.
+    await Invoice.deleteOne({ _id: existing._id, number: { $exists: false } });
+  }
+
+  if (order.status !== 'Completed') {
+    throw invoiceError('لا تصدر الفاتورة إلا بعد إكمال الطلب', 400);
+  }
+
+  const offer = await Offer.findOne({ order_id: order._id, status: 'Accepted' });
+  if (!offer) {
+    throw invoiceError('لا يوجد عرض مقبول لهذا الطلب', 400);
+  }
+  const payment = await Payment.findOne({ order_id: order._id, status: 'Captured' });
+
+  const issuedAt = new Date();
+  let invoice: IInvoice;
+  try {
+    invoice = await Invoice.create({
+      order_id: order._id,
+      offer_id: offer._id,
+      payment_id: payment?._id,
+      customer_id: order.customer_id,
+      driver_id: offer.driver_id,
+      company_id: offer.company_id,
+      amount: payment?.amount ?? offer.price,
+      currency: payment?.currency ?? PRICING_CURRENCY,
+      issuedAt,
+    });
+  } catch (error: any) {
+    // Another request inserted it first and numbers it.
+    if (error.code === 11000) {
+      const issued = await Invoice.findOne({ order_id: order._id });
+      if (issued?.number) return issued;
+      if (issued) throw invoiceInProgress();
+    }
+    throw error;
+  }
+
+  try {
+    const year = issuedAt.getUTCFullYear();
+    invoice.sequence = await nextSequence(`invoice-${year}`);
+    invoice.number = `${INVOICE_PREFIX}-${year}-${String(invoice.sequence).padStart(6, '0')}`;
+    return await invoice.save();
+  } catch (error) {
+    // Without a number the invoice is dropped, so the next request issues it again.
+    await Invoice.deleteOne({ _id: invoice._id, number: { $exists: false } });
+    throw error;
+  }
+};
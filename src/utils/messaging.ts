@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { DeliveryChannel } from '../models/VerificationCode';
+
+export interface OutgoingMessage {
+  channel: DeliveryChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface MessageTransport {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+// Local development transport: prints the message instead of delivering it.
+export class ConsoleTransport implements MessageTransport {
+  async send(message: OutgoingMessage): Promise<void> {
+    console.log(`[${message.channel}] to ${message.to}${message.subject ? ` | ${message.subject}` : ''}\n${message.body}`);
+  }
+}
+
+// Local development transport: appends every message as a JSON line to an outbox file.
+export class FileTransport implements MessageTransport {
+  constructor(private readonly filePath: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+// The local transports only print or store codes, so production gets them only when MESSAGE_TRANSPORT asks for one.
+const createDefaultTransport = (channel: DeliveryChannel): MessageTransport => {
+  const requested = process.env[`${channel.toUpperCase()}_TRANSPORT`] || process.env.MESSAGE_TRANSPORT;
+  if (requested ? !['console', 'file'].includes(requested) : process.env.NODE_ENV === 'production') {
+    throw new Error(`No ${channel} transport registered${requested ? ` for ${requested}` : ''}; register one or set MESSAGE_TRANSPORT=console or file`);
+  }
+  if (requested === 'file') {
+    return new FileTransport(process.env.MESSAGE_OUTBOX_FILE || path.join('logs', 'outbox.log'));
+  }
+  return new ConsoleTransport();
+};
+
+const transports: Partial<Record<DeliveryChannel, MessageTransport>> = {};
+
+// Real email/SMS providers plug in here at startup, before a channel is first used.
+export const registerMessageTransport = (channel: DeliveryChannel, transport: MessageTransport): void => {
+  transports[channel] = transport;
+};
+
+export const getMessageTransport = (channel: DeliveryChannel): MessageTransport => {
+  if (!transports[channel]) {
+    transports[channel] = createDefaultTransport(channel);
+  }
+  return transports[channel]!;
+};
+
+export const sendMessage = (message: OutgoingMessage): Promise<void> =>
+  getMessageTransport(message.channel).send(message);
@@ -4,6 +4,7 @@ import Notification from '../models/Notification';
 export const createNotification = async (data: {
   user_id?: string;
   driver_id?: string;
+  company_id?: string;
   order_id?: string;
   type: string;
   title: string;
@@ -14,7 +15,7 @@ export const createNotification = async (data: {
     const notification = await Notification.create(data);
     const populatedNotification = await Notification.findById(notification._id)
       .populate('user_id', 'fullName phoneNumber')
-      .populate('driver_id', 'fullName vehicleNumber')
+      .populate('driver_id', 'fullName')
       .populate('order_id', 'from_location to_location status');
 
     const io = app.get('io');
@@ -25,6 +26,9 @@ export const createNotification = async (data: {
     if (data.driver_id) {
       io.to(`driver-${data.driver_id}`).emit('new-notification', populatedNotification);
     }
+    if (data.company_id) {
+      io.to(`company-${data.company_id}`).emit('new-notification', populatedNotification);
+    }
     if (data.order_id) {
       io.to(`order-${data.order_id}`).emit('notification-created', populatedNotification);
     }
@@ -0,0 +1,11 @@
+import { IOffer } from '../models/Offer';
+
+// An offer is placed either by an individual driver or by a company through its dispatchers;
+// until a company assigns a driver, everything about the offer goes to the company.
+export const offerBidderRecipient = (offer: IOffer): { driver_id?: string; company_id?: string } =>
+  offer.company_id
+    ? { company_id: offer.company_id.toString() }
+    : { driver_id: offer.driver_id?.toString() };
+
+export const offerBidderRoom = (offer: IOffer): string =>
+  offer.company_id ? `company-${offer.company_id}` : `driver-${offer.driver_id}`;
@@ -0,0 +1,100 @@
+import { Types } from 'mongoose';
+import Driver from '../models/Driver';
+import Order from '../models/Order';
+
+export const OFFER_SORT_FIELDS = ['best_value', 'price', 'rating', 'trips', 'age'] as const;
+export type OfferSortField = typeof OFFER_SORT_FIELDS[number];
+
+export interface RankableOffer {
+  price: number;
+  rating: number;
+  ratingCount: number;
+  completedTrips: number;
+}
+
+export interface PriceSummary {
+  count: number;
+  min: number | null;
+  median: number | null;
+  max: number | null;
+}
+
+// Best value leans on price, then on a rating that is only trusted once enough trips back it.
+const PRICE_WEIGHT = 0.5;
+const RATING_WEIGHT = 0.3;
+const EXPERIENCE_WEIGHT = 0.2;
+// Ratings are pulled toward the average as if each bidder had this many average reviews.
+const RATING_PRIOR_COUNT = 5;
+const DEFAULT_RATING = 3;
+// Experience stops adding to the score past this many completed trips.
+const EXPERIENCED_TRIPS = 50;
+
+/**
+ * Scores each offer from 0 to 100 relative to the other offers on the same order, in the same
+ * order as given. The cheapest offer gets the full price share and the most expensive none.
+ */
+export const bestValueScores = (offers: RankableOffer[]): number[] => {
+  const prices = offers.map((offer) => offer.price);
+  const maxPrice = Math.max(...prices);
+  const priceRange = maxPrice - Math.min(...prices);
+
+  const rated = offers.filter((offer) => offer.ratingCount > 0);
+  const ratingCount = rated.reduce((sum, offer) => sum + offer.ratingCount, 0);
+  const meanRating = ratingCount
+    ? rated.reduce((sum, offer) => sum + offer.rating * offer.ratingCount, 0) / ratingCount
+    : DEFAULT_RATING;
+
+  return offers.map((offer) => {
+    const priceScore = priceRange ? (maxPrice - offer.price) / priceRange : 1;
+    const adjustedRating = (offer.rating * offer.ratingCount + meanRating * RATING_PRIOR_COUNT)
+      / (offer.ratingCount + RATING_PRIOR_COUNT);
+    const ratingScore = (adjustedRating - 1) / 4;
+    const experienceScore = Math.min(1, Math.log1p(offer.completedTrips) / Math.log1p(EXPERIENCED_TRIPS));
+    const score = PRICE_WEIGHT * priceScore + RATING_WEIGHT * ratingScore + EXPERIENCE_WEIGHT * experienceScore;
+    return Math.round(score * 1000) / 10;
+  });
+};
+
+export const summarizePrices = (prices: number[]): PriceSummary => {
+  if (!prices.length) return { count: 0, min: null, median: null, max: null };
+  const sorted = [...prices].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    median: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    max: sorted[sorted.length - 1],
+  };
+};
+
+// Completed orders per driver or company id; bidders without any are left out of the map.
+export const completedTripCounts = async (
+  field: 'driver_id' | 'company_id',
+  ids: Types.ObjectId[]
+): Promise<Map<string, number>> => {
+  if (!ids.length) return new Map();
+  const counts = await Order.aggregate<{ _id: Types.ObjectId; count: number }>([
+    { $match: { [field]: { $in: ids }, status: 'Completed' } },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+  ]);
+  return new Map(counts.map((entry) => [entry._id.toString(), entry.count]));
+};
+
+// A company bids as a whole, so it is rated by the reviews its drivers have collected.
+export const companyRatings = async (ids: Types.ObjectId[]): Promise<Map<string, { average: number; count: number }>> => {
+  if (!ids.length) return new Map();
+  const ratings = await Driver.aggregate<{ _id: Types.ObjectId; total: number; count: number }>([
+    { $match: { company_id: { $in: ids }, ratingCount: { $gt: 0 } } },
+    {
+      $group: {
+        _id: '$company_id',
+        total: { $sum: { $multiply: ['$ratingAverage', '$ratingCount'] } },
+        count: { $sum: '$ratingCount' },
+      },
+    },
+  ]);
+  return new Map(ratings.map((entry) => [
+    entry._id.toString(),
+    { average: Math.round((entry.total / entry.count) * 100) / 100, count: entry.count },
+  ]));
+};
@@ -0,0 +1,27 @@
+import { Types } from 'mongoose';
+import Dispatcher from '../models/Dispatcher';
+import Offer from '../models/Offer';
+import { IOrder } from '../models/Order';
+
+// Orders accepted before driver_id was stored on the order only know their driver through the accepted offer.
+export const getAssignedDriverId = async (order: IOrder): Promise<Types.ObjectId | undefined> => {
+  if (order.driver_id) return order.driver_id;
+  if (order.status === 'Pending' || order.status === 'Offered') return undefined;
+
+  const acceptedOffer = await Offer.findOne({ order_id: order._id, status: 'Accepted' });
+  return acceptedOffer ? (acceptedOffer.driver_id as Types.ObjectId) : undefined;
+};
+
+export const isOrderParticipant = async (order: IOrder, userId: string, role: string): Promise<boolean> => {
+  if (role === 'router') {
+    return order.customer_id.toString() === userId;
+  }
+  if (role === 'driver') {
+    const driverId = await getAssignedDriverId(order);
+    return !!driverId && driverId.toString() === userId;
+  }
+  if (role === 'dispatcher') {
+    return !!order.company_id && !!(await Dispatcher.exists({ _id: userId, company_id: order.company_id }));
+  }
+  return false;
+};
@@ -0,0 +1,58 @@
+import { Server as SocketIOServer } from 'socket.io';
+import Driver from '../models/Driver';
+import Notification from '../models/Notification';
+import { IOrder } from '../models/Order';
+import { findDriversForOrder } from './driverVehicle';
+import { distanceKm } from './geo';
+
+// Tells every unsuspended driver with a vehicle that fits about a newly created order.
+export const announceNewOrder = async (order: IOrder, io?: SocketIOServer): Promise<number> => {
+  const matchingDriverIds = await findDriversForOrder(order);
+  const matchingDrivers = await Driver.find({ _id: { $in: matchingDriverIds }, isSuspended: false })
+    .select('_id fullName')
+    .lean();
+
+  const title = 'طلب جديد متاح';
+  const message = `طلب جديد يتطابق مع فئة مركبتك متاح: من ${order.from_location} إلى ${order.to_location}`;
+
+  if (matchingDrivers.length > 0) {
+    try {
+      await Notification.insertMany(matchingDrivers.map((driver) => ({
+        driver_id: driver._id,
+        order_id: order._id,
+        type: 'new_order_available',
+        title,
+        message,
+        is_read: false,
+      })));
+    } catch (error) {
+      console.error('Error creating driver notifications:', error);
+    }
+  }
+
+  if (io) {
+    matchingDrivers.forEach((driver) => {
+      io.to(`driver-${driver._id}`).emit('new-order-available', {
+        order: {
+          id: order._id,
+          from_location: order.from_location,
+          to_location: order.to_location,
+          from_point: order.from_point,
+          to_point: order.to_point,
+          distance_km: distanceKm(order.from_point, order.to_point),
+          vehicle_type: order.vehicle_type,
+          allow_larger_vehicles: order.allow_larger_vehicles,
+          required_features: order.required_features,
+          cargo: order.cargo,
+          date_time_transport: order.date_time_transport,
+          notes: order.notes,
+          price_estimate: order.price_estimate,
+          status: order.status,
+        },
+      });
+      io.to(`driver-${driver._id}`).emit('new-notification', { title, message });
+    });
+  }
+
+  return matchingDrivers.length;
+};
@@ -0,0 +1,317 @@
+import Company from '../models/Company';
+import Driver from '../models/Driver';
+import DriverVehicle from '../models/DriverVehicle';
+import { IInvoice } from '../models/Invoice';
+import Offer, { IOffer } from '../models/Offer';
+import { CargoCategory, IOrder, OrderStatus } from '../models/Order';
+import Payment, { IPayment, PaymentStatus } from '../models/Payment';
+import User from '../models/Router';
+import Vehicle from '../models/Vehicle';
+import { bidiText, createPdfDocument, PdfDocument, pdfToBuffer, TextDirection } from './pdfLayout';
+import { SCHEDULE_TIMEZONE } from './recurrence';
+
+export const DOCUMENT_LANGUAGES = ['ar', 'en'] as const;
+export type DocumentLanguage = typeof DOCUMENT_LANGUAGES[number];
+
+export interface OrderDocumentData {
+  order: IOrder;
+  offer: IOffer;
+  customer: { fullName: string; phoneNumber?: string };
+  carrier: { name: string; phoneNumber?: string; companyName?: string };
+  vehicle?: { plateNumber: string };
+  vehicleTypeName?: string;
+  payment?: IPayment | null;
+}
+
+const LABELS = {
+  ar: {
+    platform: 'شام ترك',
+    invoice: 'فاتورة',
+    receipt: 'إيصال تسليم',
+    invoiceNumber: 'رقم الفاتورة',
+    issuedAt: 'تاريخ الإصدار',
+    orderNumber: 'رقم الطلب',
+    customer: 'العميل',
+    carrier: 'الناقل',
+    company: 'الشركة',
+    phone: 'الهاتف',
+    vehicle: 'المركبة',
+    vehicleType: 'نوع المركبة',
+    route: 'المسار',
+    transportDate: 'موعد النقل',
+    cargo: 'الحمولة',
+    description: 'الوصف',
+    amount: 'المبلغ',
+    total: 'الإجمالي',
+    paymentStatus: 'حالة الدفع',
+    timeline: 'سجل التسليم',
+    driverSignature: 'توقيع السائق',
+    receiverSignature: 'توقيع المستلم',
+    footer: 'تم إنشاء هذا المستند إلكترونيًا بواسطة منصة شام ترك',
+    service: (from: string, to: string) => `خدمة نقل من ${from} إلى ${to}`,
+    routeLine: (from: string, to: string) => `من ${from} إلى ${to}`,
+    cargoLine: (weightKg: number, pieces: number, category: string) => `${weightKg} كغ، ${pieces} قطعة، ${category}`,
+    payment: {
+      Pending: 'قيد المعالجة',
+      Held: 'محجوز بانتظار التسليم',
+      Settling: 'قيد التسوية',
+      Captured: 'مدفوع',
+      Refunded: 'مسترد',
+      Failed: 'فشل الدفع',
+    } as Record<PaymentStatus, string>,
+    categories: {
+      general: 'بضائع عامة',
+      food: 'مواد غذائية',
+      furniture: 'أثاث',
+      construction: 'مواد بناء',
+      electronics: 'إلكترونيات',
+      chemicals: 'مواد كيميائية',
+      livestock: 'مواشٍ',
+      vehicles: 'مركبات',
+      other: 'أخرى',
+    } as Record<CargoCategory, string>,
+    steps: {
+      Active: 'قبول العرض',
+      PickedUp: 'استلام الحمولة',
+      InTransit: 'بدء النقل',
+      Delivered: 'تسليم الشحنة',
+      Completed: 'تأكيد الاستلام من العميل',
+    } as Partial<Record<OrderStatus, string>>,
+  },
+  en: {
+    platform: 'Sham Truck',
+    invoice: 'Invoice',
+    receipt: 'Delivery Receipt',
+    invoiceNumber: 'Invoice number',
+    issuedAt: 'Issue date',
+    orderNumber: 'Order number',
+    customer: 'Customer',
+    carrier: 'Carrier',
+    company: 'Company',
+    phone: 'Phone',
+    vehicle: 'Vehicle',
+    vehicleType: 'Vehicle type',
+    route: 'Route',
+    transportDate: 'Transport date',
+    cargo: 'Cargo',
+    description: 'Description',
+    amount: 'Amount',
+    total: 'Total',
+    paymentStatus: 'Payment status',
+    timeline: 'Delivery timeline',
+    driverSignature: 'Driver signature',
+    receiverSignature: 'Receiver signature',
+    footer: 'This document was generated electronically by the Sham Truck platform',
+    service: (from: string, to: string) => `Transport service from ${from} to ${to}`,
+    routeLine: (from: string, to: string) => `From ${from} to ${to}`,
+    cargoLine: (weightKg: number, pieces: number, category: string) => `${weightKg} kg, ${pieces} pieces, ${category}`,
+    payment: {
+      Pending: 'Processing',
+      Held: 'Held until delivery',
+      Settling: 'Settling',
+      Captured: 'Paid',
+      Refunded: 'Refunded',
+      Failed: 'Failed',
+    } as Record<PaymentStatus, string>,
+    categories: {
+      general: 'General goods',
+      food: 'Food',
+      furniture: 'Furniture',
+      construction: 'Construction materials',
+      electronics: 'Electronics',
+      chemicals: 'Chemicals',
+      livestock: 'Livestock',
+      vehicles: 'Vehicles',
+      other: 'Other',
+    } as Record<CargoCategory, string>,
+    steps: {
+      Active: 'Offer accepted',
+      PickedUp: 'Cargo picked up',
+      InTransit: 'In transit',
+      Delivered: 'Delivered',
+      Completed: 'Delivery confirmed by customer',
+    } as Partial<Record<OrderStatus, string>>,
+  },
+};
+
+const PAGE_WIDTH = 495;
+const LEFT = 50;
+
+const formatDate = (date: Date, language: DocumentLanguage) =>
+  new Intl.DateTimeFormat(language === 'ar' ? 'ar-SY-u-nu-latn' : 'en-GB', {
+    timeZone: SCHEDULE_TIMEZONE,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(date);
+
+const formatMoney = (amount: number, currency: string) =>
+  `${new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(amount)} ${currency}`;
+
+// Collects everything both documents print from the order's accepted offer and its parties.
+export const loadOrderDocumentData = async (order: IOrder): Promise<OrderDocumentData | null> => {
+  const offer = await Offer.findOne({ order_id: order._id, status: 'Accepted' });
+  if (!offer) return null;
+
+  const [customer, driver, company, vehicle, vehicleType, payment] = await Promise.all([
+    User.findById(order.customer_id).select('fullName phoneNumber'),
+    offer.driver_id || order.driver_id
+      ? Driver.findById(offer.driver_id || order.driver_id).select('fullName phoneNumber')
+      : null,
+    offer.company_id ? Company.findById(offer.company_id).select('name phoneNumber') : null,
+    offer.vehicle_id ? DriverVehicle.findById(offer.vehicle_id).select('plateNumber') : null,
+    Vehicle.findById(order.vehicle_type).select('type'),
+    Payment.findOne({ order_id: order._id, status: { $ne: 'Failed' } }).sort({ createdAt: -1 }),
+  ]);
+
+  return {
+    order,
+    offer,
+    customer: { fullName: customer?.fullName || '-', phoneNumber: customer?.phoneNumber },
+    carrier: {
+      name: driver?.fullName || company?.name || '-',
+      phoneNumber: driver?.phoneNumber || company?.phoneNumber,
+      companyName: company?.name,
+    },
+    vehicle: vehicle ? { plateNumber: vehicle.plateNumber } : undefined,
+    vehicleTypeName: vehicleType?.type,
+    payment,
+  };
+};
+
+const heading = (doc: PdfDocument, title: string, subtitle: string, direction: TextDirection) => {
+  bidiText(doc, subtitle, { x: LEFT, width: PAGE_WIDTH, direction, size: 10, color: '#666666' });
+  bidiText(doc, title, { x: LEFT, width: PAGE_WIDTH, direction, size: 22, bold: true });
+  doc.moveDown(0.5);
+};
+
+const rule = (doc: PdfDocument) => {
+  doc.moveDown(0.3);
+  doc.moveTo(LEFT, doc.y).lineTo(LEFT + PAGE_WIDTH, doc.y).strokeColor('#cccccc').lineWidth(1).stroke();
+  doc.moveDown(0.6);
+};
+
+const field = (doc: PdfDocument, label: string, value: string, direction: TextDirection) =>
+  bidiText(doc, `${label}: ${value}`, { x: LEFT, width: PAGE_WIDTH, direction });
+
+const section = (doc: PdfDocument, title: string, direction: TextDirection) => {
+  doc.moveDown(0.4);
+  bidiText(doc, title, { x: LEFT, width: PAGE_WIDTH, direction, size: 12, bold: true });
+  doc.moveDown(0.2);
+};
+
+const partiesAndRoute = (doc: PdfDocument, data: OrderDocumentData, language: DocumentLanguage) => {
+  const labels = LABELS[language];
+  const direction: TextDirection = language === 'ar' ? 'rtl' : 'ltr';
+  const { order, customer, carrier } = data;
+
+  section(doc, labels.customer, direction);
+  field(doc, labels.customer, customer.fullName, direction);
+  if (customer.phoneNumber) field(doc, labels.phone, customer.phoneNumber, direction);
+
+  section(doc, labels.carrier, direction);
+  field(doc, labels.carrier, carrier.name, direction);
+  if (carrier.companyName && carrier.companyName !== carrier.name) field(doc, labels.company, carrier.companyName, direction);
+  if (carrier.phoneNumber) field(doc, labels.phone, carrier.phoneNumber, direction);
+  if (data.vehicle) field(doc, labels.vehicle, data.vehicle.plateNumber, direction);
+  if (data.vehicleTypeName) field(doc, labels.vehicleType, data.vehicleTypeName, direction);
+
+  section(doc, labels.route, direction);
+  field(doc, labels.route, labels.routeLine(order.from_location, order.to_location), direction);
+  field(doc, labels.transportDate, formatDate(order.date_time_transport, language), direction);
+  if (order.cargo) {
+    field(
+      doc,
+      labels.cargo,
+      labels.cargoLine(order.cargo.weight_kg, order.cargo.pieces, labels.categories[order.cargo.category]),
+      direction
+    );
+  }
+};
+
+const footer = (doc: PdfDocument, language: DocumentLanguage) => {
+  const direction: TextDirection = language === 'ar' ? 'rtl' : 'ltr';
+  doc.y = doc.page.height - doc.page.margins.bottom - 20;
+  bidiText(doc, LABELS[language].footer, { x: LEFT, width: PAGE_WIDTH, direction, align: 'center', size: 8, color: '#888888' });
+};
+
+export const renderInvoicePdf = (data: OrderDocumentData, invoice: IInvoice, language: DocumentLanguage): Promise<Buffer> => {
+  const labels = LABELS[language];
+  const direction: TextDirection = language === 'ar' ? 'rtl' : 'ltr';
+  const doc = createPdfDocument(`${labels.invoice} ${invoice.number}`, direction);
+  const { order } = data;
+
+  heading(doc, labels.invoice, labels.platform, direction);
+  field(doc, labels.invoiceNumber, invoice.number, direction);
+  field(doc, labels.issuedAt, formatDate(invoice.issuedAt, language), direction);
+  field(doc, labels.orderNumber, order._id.toString(), direction);
+  rule(doc);
+
+  partiesAndRoute(doc, data, language);
+  rule(doc);
+
+  // Two-column table: the description sits on the reading side and the amount on the far side.
+  const amountWidth = 140;
+  const descriptionX = direction === 'rtl' ? LEFT + amountWidth : LEFT;
+  const amountX = direction === 'rtl' ? LEFT : LEFT + PAGE_WIDTH - amountWidth;
+  const descriptionWidth = PAGE_WIDTH - amountWidth;
+  const tableRow = (description: string, amount: string, bold = false) => {
+    const y = doc.y;
+    bidiText(doc, description, { x: descriptionX, width: descriptionWidth, direction, bold });
+    const afterDescription = doc.y;
+    doc.y = y;
+    bidiText(doc, amount, { x: amountX, width: amountWidth, direction, align: 'end', bold });
+    doc.y = Math.max(afterDescription, doc.y) + 4;
+  };
+
+  tableRow(labels.description, labels.amount, true);
+  tableRow(labels.service(order.from_location, order.to_location), formatMoney(invoice.amount, invoice.currency));
+  rule(doc);
+  tableRow(labels.total, formatMoney(invoice.amount, invoice.currency), true);
+
+  if (data.payment) {
+    doc.moveDown(0.5);
+    field(doc, labels.paymentStatus, labels.payment[data.payment.status], direction);
+  }
+
+  footer(doc, language);
+  return pdfToBuffer(doc);
+};
+
+export const renderDeliveryReceiptPdf = (
+  data: OrderDocumentData,
+  invoice: IInvoice | null,
+  language: DocumentLanguage
+): Promise<Buffer> => {
+  const labels = LABELS[language];
+  const direction: TextDirection = language === 'ar' ? 'rtl' : 'ltr';
+  const doc = createPdfDocument(`${labels.receipt} ${data.order._id}`, direction);
+  const { order } = data;
+
+  heading(doc, labels.receipt, labels.platform, direction);
+  field(doc, labels.orderNumber, order._id.toString(), direction);
+  if (invoice) field(doc, labels.invoiceNumber, invoice.number, direction);
+  field(doc, labels.issuedAt, formatDate(new Date(), language), direction);
+  rule(doc);
+
+  partiesAndRoute(doc, data, language);
+  rule(doc);
+
+  section(doc, labels.timeline, direction);
+  order.status_history
+    .filter((change) => labels.steps[change.status])
+    .forEach((change) => field(doc, labels.steps[change.status]!, formatDate(change.changedAt, language), direction));
+
+  doc.moveDown(3);
+  const signatureWidth = 200;
+  const y = doc.y;
+  [labels.driverSignature, labels.receiverSignature].forEach((label, index) => {
+    // The first signature goes on the reading side.
+    const x = (index === 0) === (direction === 'rtl') ? LEFT + PAGE_WIDTH - signatureWidth : LEFT;
+    doc.moveTo(x, y).lineTo(x + signatureWidth, y).strokeColor('#999999').stroke();
+    doc.y = y + 6;
+    bidiText(doc, label, { x, width: signatureWidth, direction, align: 'center', size: 9, color: '#666666' });
+  });
+
+  footer(doc, language);
+  return pdfToBuffer(doc);
+};
@@ -0,0 +1,75 @@
+import { Types } from 'mongoose';
+import { IOrderStatusChange, OrderStatus } from '../models/Order';
+
+export type OrderActorRole = IOrderStatusChange['changed_by_role'];
+
+export type OrderAction =
+  | 'offer'
+  | 'reopen'
+  | 'accept'
+  | 'pickup'
+  | 'start'
+  | 'deliver'
+  | 'complete'
+  | 'cancel'
+  | 'forceCancel'
+  | 'expire';
+
+interface OrderTransition {
+  from: OrderStatus[];
+  to: OrderStatus;
+  roles: OrderActorRole[];
+}
+
+// Single source of truth for how an order may move between statuses and who may move it.
+export const ORDER_TRANSITIONS: Record<OrderAction, OrderTransition> = {
+  offer: { from: ['Pending'], to: 'Offered', roles: ['driver', 'dispatcher'] },
+  reopen: { from: ['Offered'], to: 'Pending', roles: ['driver', 'dispatcher', 'router', 'system'] },
+  accept: { from: ['Pending', 'Offered'], to: 'Active', roles: ['router'] },
+  pickup: { from: ['Active'], to: 'PickedUp', roles: ['driver'] },
+  start: { from: ['PickedUp'], to: 'InTransit', roles: ['driver'] },
+  deliver: { from: ['InTransit'], to: 'Delivered', roles: ['driver'] },
+  complete: { from: ['Delivered'], to: 'Completed', roles: ['router'] },
+  cancel: { from: ['Pending', 'Offered', 'Active'], to: 'Cancelled', roles: ['router'] },
+  forceCancel: {
+    from: ['Pending', 'Offered', 'Active', 'PickedUp', 'InTransit', 'Delivered'],
+    to: 'Cancelled',
+    roles: ['admin'],
+  },
+  expire: { from: ['Pending', 'Offered'], to: 'Expired', roles: ['system'] },
+};
+
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ['Pending', 'Offered'];
+export const IN_PROGRESS_ORDER_STATUSES: OrderStatus[] = ['Active', 'PickedUp', 'InTransit', 'Delivered'];
+export const TERMINAL_ORDER_STATUSES: OrderStatus[] = ['Completed', 'Cancelled', 'Expired'];
+
+export const ORDER_STATUS_MESSAGES: Record<OrderStatus, string> = {
+  Pending: 'الطلب قيد الانتظار',
+  Offered: 'تم تلقي عروض على الطلب',
+  Active: 'تم قبول عرض وأصبح الطلب نشطًا',
+  PickedUp: 'تم استلام الحمولة من قبل السائق',
+  InTransit: 'الشحنة في الطريق',
+  Delivered: 'تم تسليم الشحنة',
+  Completed: 'تم إكمال الطلب',
+  Cancelled: 'تم إلغاء الطلب',
+  Expired: 'انتهت صلاحية الطلب',
+};
+
+export const canActorTransition = (action: OrderAction, role: OrderActorRole): boolean =>
+  ORDER_TRANSITIONS[action].roles.includes(role);
+
+export const canTransitionFrom = (action: OrderAction, status: OrderStatus): boolean =>
+  ORDER_TRANSITIONS[action].from.includes(status);
+
+export const buildStatusChange = (
+  status: OrderStatus,
+  role: OrderActorRole,
+  actorId?: string | Types.ObjectId,
+  note?: string
+): IOrderStatusChange => ({
+  status,
+  changed_by: actorId ? new Types.ObjectId(actorId.toString()) : undefined,
+  changed_by_role: role,
+  note,
+  changedAt: new Date(),
+});
@@ -0,0 +1,89 @@
+import { Server as SocketIOServer } from 'socket.io';
+import Notification from '../models/Notification';
+import Order, { IOrder } from '../models/Order';
+import { IOrderSchedule } from '../models/OrderSchedule';
+import { IOrderTemplate } from '../models/OrderTemplate';
+import { announceNewOrder } from './orderBroadcast';
+import { buildStatusChange } from './orderLifecycle';
+import { estimatePrice } from './pricing';
+import { occurrencesBetween } from './recurrence';
+
+/**
+ * Creates a Pending order from a template and announces it like any other new order. Orders
+ * created by a schedule are recorded as created by the system.
+ */
+export const createOrderFromTemplate = async (
+  template: IOrderTemplate,
+  dateTimeTransport: Date,
+  io?: SocketIOServer,
+  schedule?: IOrderSchedule
+): Promise<IOrder> => {
+  const { photos: _photos, ...cargo } = template.toObject().cargo;
+  const priceEstimate = await estimatePrice({
+    from_point: template.from_point,
+    to_point: template.to_point,
+    vehicle_type: template.vehicle_type,
+    cargo,
+    date_time_transport: dateTimeTransport,
+  });
+  const order = await Order.create({
+    customer_id: template.customer_id,
+    from_location: template.from_location,
+    to_location: template.to_location,
+    from_point: template.from_point,
+    to_point: template.to_point,
+    vehicle_type: template.vehicle_type,
+    allow_larger_vehicles: template.allow_larger_vehicles,
+    required_features: template.required_features,
+    cargo: { ...cargo, photos: [] },
+    date_time_transport: dateTimeTransport,
+    notes: template.notes,
+    price_estimate: priceEstimate ?? undefined,
+    template_id: template._id,
+    schedule_id: schedule?._id,
+    status: 'Pending',
+    status_history: [
+      schedule
+        ? buildStatusChange('Pending', 'system', undefined, `تم إنشاء الطلب تلقائيًا من القالب ${template.name}`)
+        : buildStatusChange('Pending', 'router', template.customer_id),
+    ],
+  });
+
+  const message = schedule
+    ? `تم إنشاء طلب مجدول تلقائيًا من القالب ${template.name}`
+    : 'تم إنشاء طلبك بنجاح';
+  await Notification.create({
+    user_id: template.customer_id,
+    order_id: order._id,
+    type: 'order_created',
+    title: 'تم إنشاء الطلب',
+    message,
+    is_read: false,
+    metadata: schedule ? { schedule_id: schedule._id, template_id: template._id } : { template_id: template._id },
+  });
+
+  await announceNewOrder(order, io);
+
+  if (io) {
+    io.to(`user-${template.customer_id}`).emit('order-created', { message, order });
+    io.to(`user-${template.customer_id}`).emit('new-notification', { title: 'تم إنشاء الطلب', message });
+  }
+
+  return order;
+};
+
+/**
+ * Transport times a schedule has not created orders for yet, from now up to `until`, bounded by
+ * its start and end dates.
+ */
+export const pendingOccurrences = (schedule: IOrderSchedule, until: Date, now: Date = new Date()): Date[] => {
+  const bounds = [now, schedule.last_generated_for, schedule.starts_at && new Date(schedule.starts_at.getTime() - 1)]
+    .filter((date): date is Date => !!date);
+  const from = new Date(Math.max(...bounds.map((date) => date.getTime())));
+  const to = schedule.ends_at && schedule.ends_at < until ? schedule.ends_at : until;
+  if (to <= from) return [];
+  return occurrencesBetween(schedule.cron_expression, from, to, schedule.timezone);
+};
+
+export const scheduleLeadWindowEnd = (schedule: IOrderSchedule, now: Date = new Date()): Date =>
+  new Date(now.getTime() + schedule.lead_hours * 60 * 60 * 1000);
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import VerificationCode, { DeliveryChannel, VerificationPurpose } from '../models/VerificationCode';
+import { sendMessage } from './messaging';
+import { hashToken } from './token';
+
+const CODE_TTL_MINUTES = Number(process.env.VERIFICATION_CODE_TTL_MINUTES) || 10;
+const MAX_CODES_PER_HOUR = Number(process.env.VERIFICATION_CODES_PER_HOUR) || 5;
+const MAX_ATTEMPTS = 5;
+
+interface CodeSubject {
+  subjectId: string | Types.ObjectId;
+  purpose: VerificationPurpose;
+}
+
+interface IssueCodeOptions extends CodeSubject {
+  channel: DeliveryChannel;
+  destination: string;
+  subject: string;
+  buildBody: (code: string, ttlMinutes: number) => string;
+  ip?: string;
+  // Endpoints that answer the same way for unknown accounts must not reveal the limit either.
+  hideThrottling?: boolean;
+}
+
+const otpError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+const hashCode = (subject: CodeSubject, code: string): string =>
+  hashToken(`${subject.subjectId}:${subject.purpose}:${code}`);
+
+/**
+ * Creates a single-use code, invalidates any earlier unused code for the same purpose and
+ * delivers it through the configured transport. Throws a 429 when the account asked too often,
+ * unless the caller hides throttling, in which case nothing is sent.
+ */
+export const issueVerificationCode = async (options: IssueCodeOptions): Promise<void> => {
+  const recentCodes = await VerificationCode.countDocuments({
+    subject_id: options.subjectId,
+    purpose: options.purpose,
+    createdAt: { $gte: new Date(Date.now() - 60 * 60 * 1000) },
+  });
+  if (recentCodes >= MAX_CODES_PER_HOUR) {
+    if (options.hideThrottling) {
+      console.warn(`Verification code throttled: ${options.purpose} for ${options.subjectId} from ${options.ip ?? 'unknown ip'}`);
+      return;
+    }
+    throw otpError('تم تجاوز عدد المحاولات المسموح بها، يرجى المحاولة لاحقًا', 429);
+  }
+
+  await VerificationCode.updateMany(
+    { subject_id: options.subjectId, purpose: options.purpose, used_at: { $exists: false } },
+    { $set: { used_at: new Date() } }
+  );
+
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+  await VerificationCode.create({
+    subject_id: options.subjectId,
+    purpose: options.purpose,
+    channel: options.channel,
+    destination: options.destination,
+    code_hash: hashCode(options, code),
+    expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000),
+    ip: options.ip,
+  });
+
+  await sendMessage({
+    channel: options.channel,
+    to: options.destination,
+    subject: options.subject,
+    body: options.buildBody(code, CODE_TTL_MINUTES),
+  });
+};
+
+// When a destination is given, only a code sent to it counts, so a code sent to an old phone number cannot confirm a new one.
+export const verifyCode = async (subject: CodeSubject & { destination?: string }, code: string): Promise<boolean> => {
+  const record = await VerificationCode.findOne({
+    subject_id: subject.subjectId,
+    purpose: subject.purpose,
+    ...(subject.destination ? { destination: subject.destination } : {}),
+    used_at: { $exists: false },
+    expires_at: { $gt: new Date() },
+  }).sort({ createdAt: -1 });
+
+  if (!record || record.attempts >= MAX_ATTEMPTS) {
+    return false;
+  }
+
+  const expected = Buffer.from(record.code_hash);
+  const actual = Buffer.from(hashCode(subject, String(code)));
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    record.attempts += 1;
+    await record.save();
+    return false;
+  }
+
+  const consumed = await VerificationCode.updateOne(
+    { _id: record._id, used_at: { $exists: false } },
+    { $set: { used_at: new Date() } }
+  );
+  return consumed.modifiedCount > 0;
+};
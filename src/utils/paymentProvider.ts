@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+
+export interface PaymentHoldRequest {
+  amount: number;
+  currency: string;
+  reference: string;
+  description?: string;
+}
+
+export interface PayoutRequest extends PaymentHoldRequest {
+  recipient: string;
+}
+
+// Holds are authorizations: nothing moves until they are captured, and refunding one releases it.
+export interface PaymentProvider {
+  readonly name: string;
+  hold(request: PaymentHoldRequest): Promise<{ reference: string }>;
+  capture(reference: string, amount: number): Promise<void>;
+  refund(reference: string, amount: number): Promise<void>;
+  payout(request: PayoutRequest): Promise<{ reference: string }>;
+}
+
+// Local development provider: approves everything offline, except holds above `declineAbove` so the failure path can be tried.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly declineAbove = Infinity) {}
+
+  async hold(request: PaymentHoldRequest): Promise<{ reference: string }> {
+    if (request.amount > this.declineAbove) {
+      throw new Error(`Fake provider declined a hold of ${request.amount} ${request.currency}`);
+    }
+    return { reference: `fake_${randomUUID()}` };
+  }
+
+  async capture(): Promise<void> {}
+
+  async refund(): Promise<void> {}
+
+  async payout(): Promise<{ reference: string }> {
+    return { reference: `fake_payout_${randomUUID()}` };
+  }
+}
+
+// The fake provider approves everything, so production only gets it when PAYMENT_PROVIDER=fake asks for it.
+const createDefaultProvider = (): PaymentProvider => {
+  const requested = process.env.PAYMENT_PROVIDER;
+  if (requested ? requested !== 'fake' : process.env.NODE_ENV === 'production') {
+    throw new Error(`No payment provider registered${requested ? ` for PAYMENT_PROVIDER=${requested}` : ''}; register one or set PAYMENT_PROVIDER=fake`);
+  }
+  const declineAbove = Number(process.env.FAKE_PAYMENT_DECLINE_ABOVE);
+  return new FakePaymentProvider(Number.isFinite(declineAbove) ? declineAbove : Infinity);
+};
+
+let provider: PaymentProvider | undefined;
+
+// Real payment gateways plug in here at startup, before the provider is first asked for.
+export const registerPaymentProvider = (paymentProvider: PaymentProvider): void => {
+  provider = paymentProvider;
+};
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    provider = createDefaultProvider();
+  }
+  return provider;
+};
@@ -0,0 +1,179 @@
+import { Types } from 'mongoose';
+import { IOffer } from '../models/Offer';
+import { IOrder } from '../models/Order';
+import Payment, { IPayment } from '../models/Payment';
+import Transaction, { ILedgerEntry, TransactionType } from '../models/Transaction';
+import { getPaymentProvider } from './paymentProvider';
+import { PRICING_CURRENCY } from './pricing';
+
+const configuredRate = Number(process.env.PLATFORM_COMMISSION_RATE ?? 0.1);
+// Share of every captured payment the platform keeps, between 0 and 1.
+export const PLATFORM_COMMISSION_RATE = Number.isFinite(configuredRate) && configuredRate >= 0 && configuredRate <= 1
+  ? configuredRate
+  : 0.1;
+
+/**
+ * Ledger accounts. Money held at the provider is an asset; escrow is what the platform owes
+ * until delivery decides who gets it; a payee account is what is owed to a driver or company.
+ */
+export const LEDGER_ACCOUNTS = {
+  providerClearing: 'provider_clearing',
+  escrow: 'escrow',
+  platformRevenue: 'platform_revenue',
+} as const;
+
+export const payeeAccount = (payee: { driver_id?: Types.ObjectId; company_id?: Types.ObjectId }): string =>
+  payee.company_id ? `company:${payee.company_id}` : `driver:${payee.driver_id}`;
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const debit = (account: string, amount: number): ILedgerEntry => ({ account, debit: amount, credit: 0 });
+export const credit = (account: string, amount: number): ILedgerEntry => ({ account, debit: 0, credit: amount });
+
+export const recordTransaction = async (
+  payment: IPayment,
+  type: TransactionType,
+  entries: ILedgerEntry[],
+  description: string,
+  payoutId?: Types.ObjectId
+) => {
+  // Free offers and a zero commission leave nothing to record on those lines.
+  const lines = entries.filter((entry) => entry.debit > 0 || entry.credit > 0);
+  if (!lines.length) return null;
+  return Transaction.create({
+    type,
+    payment_id: payment._id,
+    order_id: payment.order_id,
+    payout_id: payoutId,
+    currency: payment.currency,
+    entries: lines,
+    description,
+  });
+};
+
+export const paymentError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+/**
+ * Holds the accepted offer's price with the provider and records it in escrow. Throws a 402 when
+ * the provider declines, leaving a Failed payment behind for the record.
+ */
+export const holdOfferPayment = async (offer: IOffer, order: IOrder): Promise<IPayment> => {
+  const provider = getPaymentProvider();
+  const commissionAmount = roundMoney(offer.price * PLATFORM_COMMISSION_RATE);
+  const payment = await Payment.create({
+    order_id: order._id,
+    offer_id: offer._id,
+    payer_id: order.customer_id,
+    driver_id: offer.driver_id,
+    company_id: offer.company_id,
+    amount: offer.price,
+    currency: PRICING_CURRENCY,
+    commission_rate: PLATFORM_COMMISSION_RATE,
+    commission_amount: commissionAmount,
+    payee_amount: roundMoney(offer.price - commissionAmount),
+    provider: provider.name,
+    status: 'Pending',
+  }).catch((error) => {
+    // The partial unique index allows a single pending or held payment per order.
+    if (error.code === 11000) throw paymentError('يوجد دفع قيد المعالجة لهذا الطلب بالفعل', 409);
+    throw error;
+  });
+
+  try {
+    const { reference } = await provider.hold({
+      amount: payment.amount,
+      currency: payment.currency,
+      reference: payment._id.toString(),
+      description: `Order ${order._id}`,
+    });
+    payment.provider_reference = reference;
+  } catch (error: any) {
+    payment.status = 'Failed';
+    payment.failure_reason = error.message;
+    await payment.save();
+    throw paymentError('تعذر حجز قيمة العرض لدى مزود الدفع', 402);
+  }
+
+  payment.status = 'Held';
+  payment.heldAt = new Date();
+  await payment.save();
+  await recordTransaction(payment, 'hold', [
+    debit(LEDGER_ACCOUNTS.providerClearing, payment.amount),
+    credit(LEDGER_ACCOUNTS.escrow, payment.amount),
+  ], 'Hold on offer acceptance');
+  return payment;
+};
+
+const settleHeldPayment = async (
+  orderId: Types.ObjectId,
+  settle: (payment: IPayment) => Promise<void>,
+  update: Partial<IPayment>
+): Promise<IPayment | null> => {
+  // Only the request that moves the payment out of Held talks to the provider and writes the ledger entry.
+  const claimed = await Payment.findOneAndUpdate(
+    { order_id: orderId, status: 'Held' },
+    { $set: { status: 'Settling' } },
+    { new: true }
+  );
+  if (!claimed) return null;
+
+  try {
+    await settle(claimed);
+  } catch (error) {
+    await Payment.updateOne({ _id: claimed._id, status: 'Settling' }, { $set: { status: 'Held' } });
+    throw error;
+  }
+  return Payment.findOneAndUpdate({ _id: claimed._id, status: 'Settling' }, { $set: update }, { new: true });
+};
+
+// Pays out of escrow to the driver or company, minus the platform commission, once delivery is confirmed.
+export const captureOrderPayment = async (orderId: Types.ObjectId): Promise<IPayment | null> => {
+  const payment = await settleHeldPayment(
+    orderId,
+    (held) => getPaymentProvider().capture(held.provider_reference!, held.amount),
+    { status: 'Captured', capturedAt: new Date() }
+  );
+  if (payment) {
+    await recordTransaction(payment, 'capture', [
+      debit(LEDGER_ACCOUNTS.escrow, payment.amount),
+      credit(payeeAccount(payment), payment.payee_amount),
+      credit(LEDGER_ACCOUNTS.platformRevenue, payment.commission_amount),
+    ], 'Capture on delivery confirmation');
+  }
+  return payment;
+};
+
+// Releases the hold back to the router when an order is cancelled before delivery is confirmed.
+export const refundOrderPayment = async (orderId: Types.ObjectId): Promise<IPayment | null> => {
+  const payment = await settleHeldPayment(
+    orderId,
+    (held) => getPaymentProvider().refund(held.provider_reference!, held.amount),
+    { status: 'Refunded', refundedAt: new Date() }
+  );
+  if (payment) {
+    await recordTransaction(payment, 'refund', [
+      debit(LEDGER_ACCOUNTS.escrow, payment.amount),
+      credit(LEDGER_ACCOUNTS.providerClearing, payment.amount),
+    ], 'Refund on cancellation');
+  }
+  return payment;
+};
+
+// What the parties to an order see of its payment; provider references stay internal.
+export const formatPayment = (payment: IPayment) => ({
+  id: payment._id,
+  order_id: payment.order_id,
+  offer_id: payment.offer_id,
+  amount: payment.amount,
+  currency: payment.currency,
+  commission_rate: payment.commission_rate,
+  commission_amount: payment.commission_amount,
+  payee_amount: payment.payee_amount,
+  status: payment.status,
+  heldAt: payment.heldAt,
+  capturedAt: payment.capturedAt,
+  refundedAt: payment.refundedAt,
+  payout_id: payment.payout_id,
+  paidOutAt: payment.paidOutAt,
+  createdAt: payment.createdAt,
+});
@@ -0,0 +1,135 @@
+import { Types } from 'mongoose';
+import Payment from '../models/Payment';
+import Payout, { IPayout } from '../models/Payout';
+import { getPaymentProvider } from './paymentProvider';
+import { credit, debit, LEDGER_ACCOUNTS, payeeAccount, paymentError, recordTransaction, roundMoney } from './payments';
+import { PRICING_CURRENCY } from './pricing';
+
+// Captured payments the driver has not asked to be paid for yet.
+export const availablePaymentsFilter = (driverId: Types.ObjectId | string) => ({
+  driver_id: new Types.ObjectId(driverId.toString()),
+  company_id: { $exists: false },
+  status: 'Captured',
+  payout_id: { $exists: false },
+});
+
+/**
+ * Reserves the driver's available payments, or just the chosen ones, for a new payout request.
+ * Payments already reserved by another request are skipped rather than paid twice.
+ */
+export const requestDriverPayout = async (driverId: string, paymentIds?: string[]): Promise<IPayout> => {
+  const payout = await Payout.create({
+    driver_id: driverId,
+    amount: 0,
+    currency: PRICING_CURRENCY,
+    status: 'Requested',
+    status_history: [{ status: 'Requested', changed_by: driverId, changed_by_role: 'driver', changedAt: new Date() }],
+  });
+
+  const filter = {
+    ...availablePaymentsFilter(driverId),
+    ...(paymentIds ? { _id: { $in: paymentIds.map((id) => new Types.ObjectId(id)) } } : {}),
+  };
+  await Payment.updateMany(filter, { $set: { payout_id: payout._id } });
+
+  const payments = await Payment.find({ payout_id: payout._id });
+  if (!payments.length) {
+    await Payout.deleteOne({ _id: payout._id });
+    throw paymentError('لا توجد أرباح متاحة للسحب', 400);
+  }
+
+  payout.items = payments.map((payment) => ({
+    payment_id: payment._id,
+    order_id: payment.order_id,
+    offer_id: payment.offer_id,
+    amount: payment.payee_amount,
+  }));
+  payout.amount = roundMoney(payments.reduce((sum, payment) => sum + payment.payee_amount, 0));
+  await payout.save();
+  return payout;
+};
+
+/**
+ * Sends the money through the provider and moves each included payment out of the driver's ledger account.
+ * The payout is claimed first, so only one approval reaches the provider; if the transfer fails the payout
+ * is marked Failed and its payments are released for a new request.
+ */
+export const approvePayout = async (payout: IPayout, adminId: string, note?: string): Promise<IPayout> => {
+  if (payout.status !== 'Requested') {
+    throw paymentError('تمت مراجعة طلب السحب مسبقًا', 400);
+  }
+
+  const provider = getPaymentProvider();
+  const claimedAt = new Date();
+  const claimed = await Payout.findOneAndUpdate(
+    { _id: payout._id, status: 'Requested' },
+    {
+      $set: { status: 'Processing', provider: provider.name, reviewed_by: adminId, reviewedAt: claimedAt },
+      $push: { status_history: { status: 'Processing', changed_by: adminId, changed_by_role: 'admin', note, changedAt: claimedAt } },
+    },
+    { new: true }
+  );
+  if (!claimed) {
+    throw paymentError('تمت مراجعة طلب السحب مسبقًا', 409);
+  }
+
+  let reference: string;
+  try {
+    ({ reference } = await provider.payout({
+      amount: claimed.amount,
+      currency: claimed.currency,
+      reference: claimed._id.toString(),
+      recipient: `driver:${claimed.driver_id}`,
+      description: `Payout ${claimed._id}`,
+    }));
+  } catch (error: any) {
+    await Payout.updateOne(
+      { _id: claimed._id, status: 'Processing' },
+      {
+        $set: { status: 'Failed', failure_reason: error.message },
+        $push: { status_history: { status: 'Failed', changed_by: adminId, changed_by_role: 'admin', note: error.message, changedAt: new Date() } },
+      }
+    );
+    await Payment.updateMany({ payout_id: claimed._id }, { $unset: { payout_id: 1 } });
+    throw paymentError('تعذر تحويل المبلغ عبر مزود الدفع', 502);
+  }
+
+  const now = new Date();
+  const updated = await Payout.findOneAndUpdate(
+    { _id: claimed._id, status: 'Processing' },
+    {
+      $set: { status: 'Paid', provider_reference: reference, paidAt: now },
+      $push: { status_history: { status: 'Paid', changed_by: adminId, changed_by_role: 'admin', note, changedAt: now } },
+    },
+    { new: true }
+  );
+
+  await Payment.updateMany({ payout_id: claimed._id }, { $set: { paidOutAt: now } });
+  const payments = await Payment.find({ payout_id: claimed._id });
+  for (const payment of payments) {
+    await recordTransaction(payment, 'payout', [
+      debit(payeeAccount(payment), payment.payee_amount),
+      credit(LEDGER_ACCOUNTS.providerClearing, payment.payee_amount),
+    ], 'Driver payout', claimed._id);
+  }
+  return updated!;
+};
+
+// Releases the included payments so the driver can ask for them again.
+export const rejectPayout = async (payout: IPayout, adminId: string, reason: string): Promise<IPayout> => {
+  const now = new Date();
+  const updated = await Payout.findOneAndUpdate(
+    { _id: payout._id, status: 'Requested' },
+    {
+      $set: { status: 'Rejected', rejection_reason: reason, reviewed_by: adminId, reviewedAt: now },
+      $push: { status_history: { status: 'Rejected', changed_by: adminId, changed_by_role: 'admin', note: reason, changedAt: now } },
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw paymentError('تمت مراجعة طلب السحب مسبقًا', 400);
+  }
+
+  await Payment.updateMany({ payout_id: payout._id }, { $unset: { payout_id: 1 } });
+  return updated;
+};
@@ -0,0 +1,123 @@
+import PDFDocument from 'pdfkit';
+
+export type PdfDocument = PDFKit.PDFDocument;
+export type TextDirection = 'ltr' | 'rtl';
+
+// DejaVu Sans covers Arabic and Latin, so mixed lines need a single font.
+const FONT_REGULAR = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+const FONT_BOLD = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf');
+
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const NEUTRAL_CHAR = /[\s\p{P}\p{S}]/u;
+
+interface TextRun {
+  text: string;
+  rtl: boolean;
+}
+
+/**
+ * Splits a line into left-to-right and right-to-left runs in display order. The font engine shapes
+ * and mirrors Arabic within a run but does not reorder runs, so numbers and Latin text inside an
+ * Arabic line (or the other way round) are placed here. Neutral characters such as spaces and
+ * punctuation join their neighbours when both sides agree and follow the line direction otherwise.
+ */
+const displayRuns = (text: string, direction: TextDirection): TextRun[] => {
+  const chars = Array.from(text);
+  // A sign directly before a digit, as in +963..., belongs to the number.
+  const strong = chars.map((char, index) => (RTL_CHAR.test(char)
+    ? 'R'
+    : NEUTRAL_CHAR.test(char) && !(/[+-]/.test(char) && /\d/.test(chars[index + 1] ?? '')) ? null : 'L'));
+  const resolved = strong.map((type, index) => {
+    if (type) return type;
+    const before = strong.slice(0, index).reverse().find(Boolean);
+    const after = strong.slice(index + 1).find(Boolean);
+    return before && before === after ? before : direction === 'rtl' ? 'R' : 'L';
+  });
+
+  const runs: TextRun[] = [];
+  chars.forEach((char, index) => {
+    const rtl = resolved[index] === 'R';
+    const last = runs[runs.length - 1];
+    if (last && last.rtl === rtl) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, rtl });
+    }
+  });
+  return direction === 'rtl' ? runs.reverse() : runs;
+};
+
+const wrapLine = (doc: PdfDocument, text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && doc.widthOfString(candidate) > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+export interface BidiTextOptions {
+  x: number;
+  width: number;
+  direction: TextDirection;
+  align?: 'start' | 'end' | 'center';
+  size?: number;
+  bold?: boolean;
+  color?: string;
+}
+
+// Draws wrapped text at the current y position and moves y below it.
+export const bidiText = (doc: PdfDocument, text: string, options: BidiTextOptions): void => {
+  doc.font(options.bold ? 'bold' : 'regular').fontSize(options.size ?? 10).fillColor(options.color ?? '#111111');
+  const lineHeight = doc.currentLineHeight(true);
+  const align = options.align ?? 'start';
+
+  for (const line of wrapLine(doc, text, options.width)) {
+    const runs = displayRuns(line, options.direction);
+    const lineWidth = runs.reduce((sum, run) => sum + doc.widthOfString(run.text), 0);
+    const startsRight = (align === 'start') === (options.direction === 'rtl');
+    let x = align === 'center'
+      ? options.x + (options.width - lineWidth) / 2
+      : startsRight ? options.x + options.width - lineWidth : options.x;
+    const y = doc.y;
+    // Right-to-left runs are placed word by word: the font engine shapes a single word reliably
+    // but loses spacing when it reverses several at once.
+    runs
+      .flatMap((run) => (run.rtl ? run.text.split(/(\s+)/).filter(Boolean).reverse() : [run.text]))
+      .forEach((piece) => {
+        if (piece.trim()) doc.text(piece, x, y, { lineBreak: false });
+        x += doc.widthOfString(piece);
+      });
+    doc.y = y + lineHeight;
+  }
+};
+
+export const createPdfDocument = (title: string, direction: TextDirection): PdfDocument => {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 50,
+    info: { Title: title, Producer: 'Sham Truck' },
+    lang: direction === 'rtl' ? 'ar' : 'en',
+  });
+  doc.registerFont('regular', FONT_REGULAR);
+  doc.registerFont('bold', FONT_BOLD);
+  doc.font('regular');
+  return doc;
+};
+
+// Ends the document and resolves with the whole file, which is small enough to keep in memory.
+export const pdfToBuffer = (doc: PdfDocument): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
@@ -0,0 +1,158 @@
+import { Types } from 'mongoose';
+import Offer from '../models/Offer';
+import Order, { ICargo, IOrder, IPriceEstimate } from '../models/Order';
+import Vehicle from '../models/Vehicle';
+import { distanceKm } from './geo';
+import { IN_PROGRESS_ORDER_STATUSES } from './orderLifecycle';
+import { SCHEDULE_TIMEZONE } from './recurrence';
+
+export type PricingInput = Pick<IOrder, 'from_point' | 'to_point' | 'vehicle_type' | 'date_time_transport'> & {
+  _id?: Types.ObjectId;
+  cargo?: Pick<ICargo, 'weight_kg'>;
+};
+
+export const PRICING_CURRENCY = process.env.PRICING_CURRENCY || 'SYP';
+const PRICING_TIMEZONE = process.env.PRICING_TIMEZONE || SCHEDULE_TIMEZONE;
+// Straight-line distance understates what a truck drives; roads add roughly a quarter on average.
+const ROAD_DISTANCE_FACTOR = 1.25;
+// A fully loaded vehicle costs this much more than an empty one to run.
+const FULL_LOAD_SURCHARGE = 0.2;
+const NIGHT_SURCHARGE = 0.15;
+const WEEKEND_SURCHARGE = 0.1;
+const SHORT_NOTICE_SURCHARGE = 0.2;
+const SHORT_NOTICE_HOURS = 24;
+const NIGHT_START_HOUR = 22;
+const NIGHT_END_HOUR = 6;
+// Friday is the weekly day off.
+const WEEKEND_DAYS = [5];
+const HISTORY_WINDOW_DAYS = 180;
+const HISTORY_SAMPLE_LIMIT = 200;
+const MIN_HISTORY_SAMPLE = 5;
+// History never outweighs the admin rates entirely, and needs this many prices to reach that weight.
+const MAX_HISTORY_WEIGHT = 0.6;
+const FULL_HISTORY_SAMPLE = 20;
+const DEFAULT_SPREAD = 0.15;
+const MIN_SPREAD = 0.1;
+const MAX_SPREAD = 0.3;
+
+interface HistoricalRates {
+  median: number;
+  p25: number;
+  p75: number;
+  count: number;
+}
+
+const round = (value: number) => Math.round(value);
+
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const roadDistanceKm = (from?: IOrder['from_point'], to?: IOrder['to_point']): number | null => {
+  const km = distanceKm(from, to);
+  return km == null ? null : Math.round(km * ROAD_DISTANCE_FACTOR * 10) / 10;
+};
+
+const localHourAndDay = (date: Date) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone: PRICING_TIMEZONE, hourCycle: 'h23', hour: 'numeric', weekday: 'short' })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return { hour: Number(parts.hour), day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday) };
+};
+
+export const timeMultiplier = (dateTimeTransport: Date, now: Date = new Date()): number => {
+  const { hour, day } = localHourAndDay(dateTimeTransport);
+  let multiplier = 1;
+  if (hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR) multiplier += NIGHT_SURCHARGE;
+  if (WEEKEND_DAYS.includes(day)) multiplier += WEEKEND_SURCHARGE;
+  if (dateTimeTransport.getTime() - now.getTime() < SHORT_NOTICE_HOURS * 60 * 60 * 1000) multiplier += SHORT_NOTICE_SURCHARGE;
+  return multiplier;
+};
+
+// Accepted prices per road km on recent orders of the same vehicle type over a comparable distance.
+const historicalRates = async (input: PricingInput, roadKm: number): Promise<HistoricalRates | null> => {
+  const since = new Date(Date.now() - HISTORY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const orders = await Order.find({
+    vehicle_type: input.vehicle_type,
+    status: { $in: [...IN_PROGRESS_ORDER_STATUSES, 'Completed'] },
+    from_point: { $exists: true },
+    to_point: { $exists: true },
+    createdAt: { $gte: since },
+    ...(input._id ? { _id: { $ne: input._id } } : {}),
+  })
+    .select('from_point to_point')
+    .sort({ createdAt: -1 })
+    .limit(HISTORY_SAMPLE_LIMIT);
+
+  const distances = new Map(orders.map((order) => [order._id.toString(), roadDistanceKm(order.from_point, order.to_point)]));
+  const offers = await Offer.find({ order_id: { $in: orders.map((order) => order._id) }, status: 'Accepted' })
+    .select('order_id price');
+
+  const rates = offers
+    .map((offer) => ({ price: offer.price, km: distances.get(offer.order_id.toString()) }))
+    .filter((sample): sample is { price: number; km: number } =>
+      sample.km != null && sample.km >= 1 && sample.km >= roadKm / 2 && sample.km <= roadKm * 2)
+    .map((sample) => sample.price / sample.km)
+    .sort((a, b) => a - b);
+
+  if (rates.length < MIN_HISTORY_SAMPLE) return null;
+  return { median: quantile(rates, 0.5), p25: quantile(rates, 0.25), p75: quantile(rates, 0.75), count: rates.length };
+};
+
+/**
+ * Suggested fare range for carrying a load: the vehicle type's admin rates for the road distance,
+ * adjusted for how full the vehicle is and when the transport happens, blended with what was
+ * recently paid on comparable orders. Null when there are neither rates nor enough history.
+ */
+export const estimatePrice = async (input: PricingInput): Promise<IPriceEstimate | null> => {
+  const roadKm = roadDistanceKm(input.from_point, input.to_point);
+  if (roadKm == null) return null;
+
+  const vehicleType = await Vehicle.findById(input.vehicle_type).select('baseFare perKmRate minFare maxWeightKg');
+  if (!vehicleType) return null;
+
+  const time = timeMultiplier(input.date_time_transport);
+  let formulaPrice: number | undefined;
+  if (vehicleType.baseFare != null || vehicleType.perKmRate != null) {
+    const load = input.cargo && vehicleType.maxWeightKg
+      ? Math.min(1, input.cargo.weight_kg / vehicleType.maxWeightKg)
+      : 0;
+    const price = ((vehicleType.baseFare || 0) + (vehicleType.perKmRate || 0) * roadKm) * (1 + FULL_LOAD_SURCHARGE * load) * time;
+    formulaPrice = Math.max(vehicleType.minFare || 0, price);
+  }
+
+  const history = await historicalRates(input, roadKm);
+  // Past prices already reflect their own timing, so only today's timing is applied on top.
+  const historyPrice = history ? history.median * roadKm * time : undefined;
+
+  let suggested: number;
+  if (formulaPrice !== undefined && historyPrice !== undefined) {
+    const weight = Math.min(MAX_HISTORY_WEIGHT, (history!.count / FULL_HISTORY_SAMPLE) * MAX_HISTORY_WEIGHT);
+    suggested = formulaPrice * (1 - weight) + historyPrice * weight;
+  } else if (formulaPrice !== undefined || historyPrice !== undefined) {
+    suggested = (formulaPrice ?? historyPrice)!;
+  } else {
+    return null;
+  }
+
+  const spread = history
+    ? Math.min(MAX_SPREAD, Math.max(MIN_SPREAD, (history.p75 - history.p25) / 2 / history.median))
+    : DEFAULT_SPREAD;
+
+  return {
+    low: round(suggested * (1 - spread)),
+    suggested: round(suggested),
+    high: round(suggested * (1 + spread)),
+    currency: PRICING_CURRENCY,
+    distance_km: roadKm,
+    formula_price: formulaPrice !== undefined ? round(formulaPrice) : undefined,
+    history_price: historyPrice !== undefined ? round(historyPrice) : undefined,
+    history_sample_size: history?.count ?? 0,
+    computedAt: new Date(),
+  };
+};
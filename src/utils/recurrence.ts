@@ -0,0 +1,175 @@
+import cron from 'node-cron';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'custom';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'custom'];
+
+export const SCHEDULE_TIMEZONE = process.env.SCHEDULE_TIMEZONE || 'Asia/Damascus';
+
+export interface RecurrenceInput {
+  frequency: RecurrenceFrequency;
+  time_of_day?: string;
+  days_of_week?: number[];
+  cron_expression?: string;
+}
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_OCCURRENCES = 200;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidTimeOfDay = (value: string): boolean => /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// Daily and weekly schedules are kept as cron expressions too, so one matcher serves every frequency.
+export const toCronExpression = (input: RecurrenceInput): string => {
+  if (input.frequency === 'custom') return input.cron_expression!.trim();
+
+  const [hour, minute] = input.time_of_day!.split(':').map(Number);
+  const days = input.frequency === 'weekly' ? [...new Set(input.days_of_week)].sort().join(',') : '*';
+  return `${minute} ${hour} * * ${days}`;
+};
+
+const resolveName = (value: string, names?: string[]): number => {
+  const index = names ? names.indexOf(value.toLowerCase()) : -1;
+  return index >= 0 ? index + (names === MONTH_NAMES ? 1 : 0) : Number(value);
+};
+
+const parseField = (field: string, min: number, max: number, names?: string[]): number[] => {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepValue] = part.split('/');
+    const step = stepValue ? Number(stepValue) : 1;
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step: ${part}`);
+    let [start, end] = [min, max];
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = resolveName(from, names);
+      end = to !== undefined ? resolveName(to, names) : stepValue ? max : start;
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return [...values].sort((a, b) => a - b);
+};
+
+const parseCron = (expression: string): CronFields => {
+  const parts = expression.trim().split(/\s+/);
+  // node-cron accepts an optional leading seconds field; occurrences are only tracked to the minute.
+  const [minute, hour, day, month, weekday] = parts.length === 6 ? parts.slice(1) : parts;
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    days: new Set(parseField(day, 1, 31)),
+    months: new Set(parseField(month, 1, 12, MONTH_NAMES)),
+    // Both 0 and 7 mean Sunday.
+    weekdays: new Set(parseField(weekday, 0, 7, WEEKDAY_NAMES).map((value) => value % 7)),
+    anyDay: day === '*',
+    anyWeekday: weekday === '*',
+  };
+};
+
+// Parsed here first: node-cron's own validation never returns on a zero step such as `*/0`.
+export const isValidCronExpression = (expression: string): boolean => {
+  try {
+    const { minutes, hours, days, months, weekdays } = parseCron(expression);
+    const parsed = [minutes, hours, [...days], [...months], [...weekdays]]
+      .every((values) => values.length > 0 && values.every(Number.isInteger));
+    return parsed && cron.validate(expression);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Shortest gap, in minutes, between two times the expression fires. Times on the next day count
+ * too, so `0 23,1 * * *` gives 120 rather than 22 hours.
+ */
+export const minimumIntervalMinutes = (expression: string): number => {
+  const { minutes, hours } = parseCron(expression);
+  const times = hours.flatMap((hour) => minutes.map((minute) => hour * 60 + minute)).sort((a, b) => a - b);
+  const gaps = times.map((time, index) => (index + 1 < times.length ? times[index + 1] : times[0] + 24 * 60) - time);
+  return Math.min(...gaps);
+};
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+};
+
+// Wall-clock time in the schedule's timezone to an absolute date.
+const zonedTimeToDate = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date => {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const local = zonedParts(new Date(asUtc), timeZone);
+  const offset = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - asUtc;
+  return new Date(asUtc - offset);
+};
+
+const matchesDay = (fields: CronFields, day: number, month: number, weekday: number): boolean => {
+  if (!fields.months.has(month)) return false;
+  // As in cron, a restricted day of month and day of week match when either one does.
+  if (!fields.anyDay && !fields.anyWeekday) return fields.days.has(day) || fields.weekdays.has(weekday);
+  return fields.days.has(day) && fields.weekdays.has(weekday);
+};
+
+/**
+ * Times the expression fires after `from` and up to and including `until`, read as wall-clock
+ * times in `timeZone`.
+ */
+export const occurrencesBetween = (
+  expression: string,
+  from: Date,
+  until: Date,
+  timeZone: string = SCHEDULE_TIMEZONE
+): Date[] => {
+  const fields = parseCron(expression);
+  const start = zonedParts(from, timeZone);
+  const end = zonedParts(until, timeZone);
+  const lastDay = Date.UTC(end.year, end.month - 1, end.day);
+
+  const occurrences: Date[] = [];
+  for (let cursor = Date.UTC(start.year, start.month - 1, start.day); cursor <= lastDay; cursor += DAY_MS) {
+    const date = new Date(cursor);
+    const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    if (!matchesDay(fields, day, month, date.getUTCDay())) continue;
+
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        const occurrence = zonedTimeToDate(year, month, day, hour, minute, timeZone);
+        if (occurrence <= from || occurrence > until) continue;
+        occurrences.push(occurrence);
+        if (occurrences.length >= MAX_OCCURRENCES) return occurrences;
+      }
+    }
+  }
+  return occurrences;
+};
@@ -0,0 +1,150 @@
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import Session, { ISession, SessionRole } from '../models/Session';
+import { generateRefreshToken, generateToken, hashToken, REFRESH_TOKEN_TTL_DAYS } from './token';
+
+export interface SessionSubject {
+  id: string;
+  role: SessionRole;
+  fullName: string;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+const sessionError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+const createSession = async (subject: SessionSubject, req?: Request) => {
+  const refreshToken = generateRefreshToken();
+  const session = await Session.create({
+    subject_id: subject.id,
+    role: subject.role,
+    token_hash: hashToken(refreshToken),
+    expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    user_agent: req?.get('user-agent'),
+    ip: req?.ip,
+  });
+
+  return { session, refreshToken };
+};
+
+const toTokens = (subject: SessionSubject, session: ISession, refreshToken: string): IssuedTokens => ({
+  token: generateToken({
+    id: subject.id,
+    role: subject.role,
+    fullName: subject.fullName,
+    sid: session._id.toString(),
+  }),
+  refreshToken,
+  refreshTokenExpiresAt: session.expires_at,
+});
+
+export const issueSession = async (subject: SessionSubject, req?: Request): Promise<IssuedTokens> => {
+  const { session, refreshToken } = await createSession(subject, req);
+  return toTokens(subject, session, refreshToken);
+};
+
+export const revokeAllSessions = async (
+  subjectId: string | Types.ObjectId,
+  role: SessionRole,
+  reason: string
+): Promise<number> => {
+  const result = await Session.updateMany(
+    { subject_id: subjectId, role, revoked_at: { $exists: false } },
+    { $set: { revoked_at: new Date(), revoked_reason: reason } }
+  );
+  return result.modifiedCount;
+};
+
+export const revokeSessionById = async (
+  sessionId: string | Types.ObjectId,
+  subjectId: string | Types.ObjectId,
+  reason: string
+): Promise<boolean> => {
+  const result = await Session.updateOne(
+    { _id: sessionId, subject_id: subjectId, revoked_at: { $exists: false } },
+    { $set: { revoked_at: new Date(), revoked_reason: reason } }
+  );
+  return result.modifiedCount > 0;
+};
+
+export const revokeSessionByToken = async (
+  refreshToken: string,
+  subjectId: string | Types.ObjectId,
+  reason: string
+): Promise<ISession | null> =>
+  Session.findOneAndUpdate(
+    { token_hash: hashToken(refreshToken), subject_id: subjectId, revoked_at: { $exists: false } },
+    { $set: { revoked_at: new Date(), revoked_reason: reason } },
+    { new: true }
+  );
+
+// Access tokens are only honoured while the session they were issued for is still open.
+export const isSessionActive = async (sessionId: string | undefined, subjectId: string): Promise<boolean> => {
+  if (!sessionId || !Types.ObjectId.isValid(sessionId) || !Types.ObjectId.isValid(subjectId)) return false;
+  return !!(await Session.exists({
+    _id: sessionId,
+    subject_id: subjectId,
+    revoked_at: { $exists: false },
+    expires_at: { $gt: new Date() },
+  }));
+};
+
+/**
+ * Exchanges a refresh token for a new access/refresh pair. A refresh token that was already
+ * rotated is treated as stolen and revokes every session of its owner.
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  req: Request,
+  resolveSubject: (session: ISession) => Promise<SessionSubject | null>
+): Promise<IssuedTokens> => {
+  const session = await Session.findOne({ token_hash: hashToken(refreshToken) });
+  if (!session) {
+    throw sessionError('رمز التحديث غير صالح', 401);
+  }
+
+  if (session.revoked_at) {
+    if (session.replaced_by) {
+      await revokeAllSessions(session.subject_id, session.role, 'refresh_token_reuse');
+    }
+    throw sessionError('تم إلغاء هذه الجلسة، يرجى تسجيل الدخول مرة أخرى', 401);
+  }
+
+  if (session.expires_at.getTime() <= Date.now()) {
+    throw sessionError('انتهت صلاحية الجلسة، يرجى تسجيل الدخول مرة أخرى', 401);
+  }
+
+  const subject = await resolveSubject(session);
+  if (!subject) {
+    await revokeAllSessions(session.subject_id, session.role, 'account_unavailable');
+    throw sessionError('الحساب غير متاح، يرجى التواصل مع الدعم', 403);
+  }
+
+  const { session: nextSession, refreshToken: nextRefreshToken } = await createSession(subject, req);
+
+  const rotated = await Session.updateOne(
+    { _id: session._id, revoked_at: { $exists: false } },
+    { $set: { revoked_at: new Date(), revoked_reason: 'rotated', replaced_by: nextSession._id, last_used_at: new Date() } }
+  );
+  if (!rotated.modifiedCount) {
+    // Another request rotated this token first; treat it like reuse.
+    await revokeAllSessions(session.subject_id, session.role, 'refresh_token_reuse');
+    throw sessionError('تم إلغاء هذه الجلسة، يرجى تسجيل الدخول مرة أخرى', 401);
+  }
+
+  return toTokens(subject, nextSession, nextRefreshToken);
+};
+
+export const listActiveSessions = async (subjectId: string, role: SessionRole) =>
+  Session.find({
+    subject_id: subjectId,
+    role,
+    revoked_at: { $exists: false },
+    expires_at: { $gt: new Date() },
+  })
+    .select('user_agent ip createdAt last_used_at expires_at')
+    .sort({ createdAt: -1 });
@@ -1,10 +1,12 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { JwtPayload } from '../types';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
 
-export const generateToken = (payload: { id: string; role: 'router' | 'driver'; fullName: string; }): string => {
+export const generateToken = (payload: { id: string; role: JwtPayload['role']; fullName: string; sid?: string; }): string => {
     return jwt.sign(
         payload,
         JWT_SECRET,
@@ -14,4 +16,9 @@ export const generateToken = (payload: { id: string; role: 'router' | 'driver';
 
 export const verifyToken = (token: string): JwtPayload => {
     return jwt.verify(token, JWT_SECRET) as JwtPayload;
-};
\ No newline at end of file
+};
+
+export const generateRefreshToken = (): string => crypto.randomBytes(48).toString('hex');
+
+export const hashToken = (token: string): string =>
+    crypto.createHash('sha256').update(token).digest('hex');
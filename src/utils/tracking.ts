@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+import Driver from '../models/Driver';
+import Order, { OrderStatus } from '../models/Order';
+import TrackingPoint, { ITrackingPoint } from '../models/TrackingPoint';
+import { isValidLngLat, toPoint } from './geo';
+import { getAssignedDriverId } from './orderAccess';
+
+export const TRACKABLE_ORDER_STATUSES: OrderStatus[] = ['Active', 'PickedUp', 'InTransit'];
+
+export interface DriverLocationUpdate {
+  orderId: string;
+  coordinates: [number, number];
+  speed?: number;
+  heading?: number;
+  accuracy?: number;
+  recordedAt?: string;
+}
+
+export const recordDriverLocation = async (
+  driverId: string,
+  data: DriverLocationUpdate
+): Promise<ITrackingPoint> => {
+  if (!data || !mongoose.Types.ObjectId.isValid(data.orderId)) {
+    throw new Error('معرف الطلب غير صالح');
+  }
+  if (!isValidLngLat(data.coordinates)) {
+    throw new Error('الإحداثيات غير صالحة، يجب أن تكون [خط الطول, خط العرض]');
+  }
+
+  const order = await Order.findById(data.orderId);
+  if (!order) {
+    throw new Error('الطلب غير موجود');
+  }
+
+  const assignedDriverId = await getAssignedDriverId(order);
+  if (!assignedDriverId || assignedDriverId.toString() !== driverId) {
+    throw new Error('غير مصرح: أنت لست السائق المعين لهذا الطلب');
+  }
+
+  if (!TRACKABLE_ORDER_STATUSES.includes(order.status)) {
+    throw new Error('لا يمكن تتبع طلب غير نشط');
+  }
+
+  const location = toPoint(data.coordinates[0], data.coordinates[1]);
+  const recordedAt = data.recordedAt && !isNaN(Date.parse(data.recordedAt))
+    ? new Date(data.recordedAt)
+    : new Date();
+
+  const point = await TrackingPoint.create({
+    order_id: order._id,
+    driver_id: driverId,
+    location,
+    speed: Number.isFinite(Number(data.speed)) ? Number(data.speed) : undefined,
+    heading: Number.isFinite(Number(data.heading)) ? Number(data.heading) : undefined,
+    accuracy: Number.isFinite(Number(data.accuracy)) ? Number(data.accuracy) : undefined,
+    recordedAt,
+  });
+
+  await Driver.findByIdAndUpdate(driverId, {
+    currentLocation: location,
+    locationUpdatedAt: recordedAt,
+  });
+
+  return point;
+};
@@ -0,0 +1,73 @@
+import { Types } from 'mongoose';
+import VehicleCategory, { IVehicleCategory } from '../models/VehicleCategory';
+import { VehicleType } from '../types';
+
+interface VehicleCategoryNode {
+  id: Types.ObjectId;
+  name: string;
+  sizeRank: number;
+  description?: string;
+  types: VehicleType[];
+  children: VehicleCategoryNode[];
+}
+
+export const ensureCategory = (name: string) =>
+  VehicleCategory.findOneAndUpdate({ name }, { $setOnInsert: { name } }, { upsert: true, new: true });
+
+const findWithSiblings = async (name: string) => {
+  const category = await VehicleCategory.findOne({ name });
+  if (!category) return { category: null, siblings: [] };
+
+  const siblings = await VehicleCategory.find({
+    _id: { $ne: category._id },
+    parent_id: category.parent_id ? category.parent_id : { $exists: false },
+  });
+  return { category, siblings };
+};
+
+// Categories whose vehicles may carry an order placed for `name`: itself and, if allowed, its larger siblings.
+export const getCompatibleCategories = async (name: string, allowLarger: boolean): Promise<string[]> => {
+  if (!allowLarger) return [name];
+
+  const { category, siblings } = await findWithSiblings(name);
+  if (!category) return [name];
+  return [name, ...siblings.filter((sibling) => sibling.sizeRank > category.sizeRank).map((sibling) => sibling.name)];
+};
+
+// The reverse: categories whose orders a vehicle of `name` can take when those orders accept larger vehicles.
+export const getSmallerCompatibleCategories = async (name: string): Promise<string[]> => {
+  const { category, siblings } = await findWithSiblings(name);
+  if (!category) return [];
+  return siblings.filter((sibling) => sibling.sizeRank < category.sizeRank).map((sibling) => sibling.name);
+};
+
+export const groupVehicleTypes = (categories: IVehicleCategory[], types: VehicleType[]) => {
+  const nodes = new Map<string, VehicleCategoryNode>(categories.map((category) => [category._id.toString(), {
+    id: category._id,
+    name: category.name,
+    sizeRank: category.sizeRank,
+    description: category.description,
+    types: types.filter((type) => type.category === category.name),
+    children: [],
+  }]));
+
+  const roots: VehicleCategoryNode[] = [];
+  for (const category of categories) {
+    const node = nodes.get(category._id.toString())!;
+    const parent = category.parent_id && nodes.get(category.parent_id.toString());
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const bySize = (a: VehicleCategoryNode, b: VehicleCategoryNode) => a.sizeRank - b.sizeRank;
+  nodes.forEach((node) => node.children.sort(bySize));
+
+  const categoryNames = new Set(categories.map((category) => category.name));
+  return {
+    categories: roots.sort(bySize),
+    uncategorized: types.filter((type) => !type.category || !categoryNames.has(type.category)),
+  };
+};